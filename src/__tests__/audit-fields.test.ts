@@ -0,0 +1,326 @@
+import { Timestamp, orderBy, serverTimestamp, where } from 'firebase/firestore';
+import { AuditFields } from '../firestore/audit-fields';
+import { FirestoreService } from '../firestore/firestore-service';
+import { InMemoryFirestore } from '../testing/in-memory-firestore';
+
+describe('AuditFields', () => {
+  it('should stamp created fields only when a set creates the document', () => {
+    const fields = new AuditFields({ getUserId: () => 'u1' });
+    const createdAt = Timestamp.fromMillis(0);
+
+    expect(fields.stampSet({ name: 'Ann' }, true, null)).toEqual({
+      name: 'Ann',
+      createdAt: serverTimestamp(),
+      createdBy: 'u1',
+      updatedAt: serverTimestamp(),
+      updatedBy: 'u1',
+    });
+    expect(fields.stampSet({ name: 'Ann' }, true, { createdAt, createdBy: 'u0' })).toEqual({
+      name: 'Ann',
+      updatedAt: serverTimestamp(),
+      updatedBy: 'u1',
+    });
+    expect(fields.stampSet({ name: 'Ann' }, false, { createdAt, createdBy: 'u0' })).toEqual({
+      name: 'Ann',
+      createdAt,
+      createdBy: 'u0',
+      updatedAt: serverTimestamp(),
+      updatedBy: 'u1',
+    });
+  });
+
+  it('should use custom field names and skip user fields without a user', () => {
+    const fields = new AuditFields({ createdAtField: 'created', updatedAtField: 'modified' });
+
+    expect(fields.stampSet({}, false, null)).toEqual({
+      created: serverTimestamp(),
+      modified: serverTimestamp(),
+    });
+    expect(fields.stampUpdate({ name: 'Bob' })).toEqual({
+      name: 'Bob',
+      modified: serverTimestamp(),
+    });
+  });
+
+  it('should ignore a createdAt given in the data', () => {
+    const createdAt = Timestamp.fromMillis(0);
+    const fields = new AuditFields(true);
+
+    expect(fields.stampSet({ createdAt }, false, null).createdAt).toEqual(serverTimestamp());
+    expect(fields.stampSet({ createdAt }, true, {}).createdAt).toBeUndefined();
+    expect(fields.stampUpdate({ createdAt }).createdAt).toBeUndefined();
+  });
+
+  it('should overwrite updatedAt and user fields given in the data', () => {
+    const fields = new AuditFields({ getUserId: () => 'u1' });
+    const forged = {
+      updatedAt: Timestamp.fromMillis(0),
+      createdBy: 'mallory',
+      updatedBy: 'mallory',
+    };
+
+    expect(fields.stampSet(forged, false, null)).toEqual({
+      createdAt: serverTimestamp(),
+      createdBy: 'u1',
+      updatedAt: serverTimestamp(),
+      updatedBy: 'u1',
+    });
+    expect(fields.stampUpdate(forged)).toEqual({
+      updatedAt: serverTimestamp(),
+      updatedBy: 'u1',
+    });
+    expect(new AuditFields(true).stampUpdate(forged)).toEqual({ updatedAt: serverTimestamp() });
+  });
+
+  it('should leave data untouched when disabled', () => {
+    const data = { name: 'Ann' };
+    const fields = new AuditFields();
+
+    expect(fields.stampSet(data, false, null)).toBe(data);
+    expect(fields.stampUpdate(data)).toBe(data);
+    expect(fields.getDeleteData()).toBeNull();
+    expect(fields.getLiveConstraints()).toEqual([]);
+    expect(fields.getLiveFields()).toEqual({});
+    expect(fields.isDeleted({ deletedAt: Timestamp.now() })).toBe(false);
+    expect(() => fields.getRestoreData()).toThrow('Soft delete is not enabled');
+  });
+
+  it('should mark new and replaced documents live when soft delete is enabled', () => {
+    const fields = new AuditFields(undefined, { field: 'removedAt' });
+    const removedAt = Timestamp.now();
+
+    expect(fields.stampSet({ name: 'Ann' }, false, null)).toEqual({ name: 'Ann', removedAt: null });
+    expect(fields.stampSet({ name: 'Ann' }, true, null)).toEqual({ name: 'Ann', removedAt: null });
+    expect(fields.stampSet({ name: 'Ann' }, true, { removedAt })).toEqual({ name: 'Ann' });
+    expect(fields.stampSet({ name: 'Ann' }, true, { name: 'Old' })).toEqual({
+      name: 'Ann',
+      removedAt: null,
+    });
+    expect(fields.stampSet({ name: 'Ann' }, false, { removedAt })).toEqual({
+      name: 'Ann',
+      removedAt: null,
+    });
+    expect(fields.getLiveFields()).toEqual({ removedAt: null });
+    expect(fields.isDeleted({ removedAt: null })).toBe(false);
+    expect(fields.isDeleted({ removedAt })).toBe(true);
+  });
+
+  describe('FirestoreService integration', () => {
+    let db: InMemoryFirestore;
+    let service: FirestoreService;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      db = new InMemoryFirestore();
+      service = db.createService({ audit: { getUserId: () => 'admin' }, softDelete: true });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should stamp audit fields on writes', async () => {
+      await service.setDocument('users/u1', { name: 'Ann' });
+      const created = db.getDocumentData('users/u1');
+
+      await service.updateDocument('users/u1', { name: 'Annie' });
+      const updated = db.getDocumentData('users/u1');
+
+      expect(created).toMatchObject({ createdBy: 'admin', updatedBy: 'admin', deletedAt: null });
+      expect(created?.createdAt).toBeInstanceOf(Timestamp);
+      expect(updated?.createdAt).toEqual(created?.createdAt);
+      expect(updated?.updatedAt).toBeInstanceOf(Timestamp);
+    });
+
+    it('should keep created fields when a document is replaced', async () => {
+      let userId = 'admin';
+      service = db.createService({ audit: { getUserId: () => userId }, softDelete: true });
+      db.seed({
+        'users/u1': {
+          name: 'Ann',
+          createdAt: Timestamp.fromMillis(1000),
+          createdBy: 'founder',
+          updatedAt: Timestamp.fromMillis(1000),
+          deletedAt: null,
+        },
+      });
+
+      userId = 'editor';
+      const read = await service.getDocument<Record<string, unknown>>('users/u1');
+      await service.setDocument('users/u1', { ...read, name: 'Annie', createdBy: 'editor' });
+
+      const stored = db.getDocumentData('users/u1');
+      expect(stored).toMatchObject({
+        name: 'Annie',
+        createdBy: 'founder',
+        updatedBy: 'editor',
+        deletedAt: null,
+      });
+      expect(stored?.createdAt).toEqual(Timestamp.fromMillis(1000));
+      expect(stored?.updatedAt.toMillis()).toBeGreaterThan(1000);
+    });
+
+    it('should stamp documents created with merge and keep them in queries', async () => {
+      await service.setDocument('users/u1', { name: 'Ann' }, { merge: true });
+      await service.runTransaction(async transaction => {
+        transaction.setDocument('users/u2', { name: 'Bob' }, { merge: true });
+      });
+
+      expect(db.getDocumentData('users/u1')).toMatchObject({ createdBy: 'admin', deletedAt: null });
+      expect(db.getDocumentData('users/u1')?.createdAt).toBeInstanceOf(Timestamp);
+      expect(db.getDocumentData('users/u2')).toMatchObject({ createdBy: 'admin', deletedAt: null });
+      expect((await service.query('users')).map(doc => doc.id)).toEqual(['u1', 'u2']);
+    });
+
+    it('should keep created fields when a batch or transaction replaces a document', async () => {
+      db.seed({ 'users/u1': { name: 'Ann', createdBy: 'founder', deletedAt: null } });
+
+      await service.batch().setDocument('users/u1', { name: 'Annie' }).commit();
+      await service.runTransaction(async transaction => {
+        transaction.updateDocument('users/u1', { visits: 1 });
+        transaction.setDocument('users/u1', { name: 'Anna' }, { merge: true });
+      });
+
+      expect(db.getDocumentData('users/u1')).toMatchObject({
+        name: 'Anna',
+        visits: 1,
+        createdBy: 'founder',
+        updatedBy: 'admin',
+      });
+    });
+
+    it('should keep imported documents visible to queries', async () => {
+      await service.setDocument('users/u2', { name: 'Bob' });
+      await service.deleteDocument('users/u2');
+
+      await service.importCollection('users', [
+        '{"id":"u1","data":{"name":"Ann"}}\n',
+        '{"id":"u2","data":{"name":"Bobby"}}\n',
+      ]);
+      await service.importCollection('users', ['{"id":"u3","data":{"name":"Cy"}}\n'], {
+        onConflict: 'merge',
+      });
+
+      expect((await service.query('users')).map(doc => doc.id)).toEqual(['u1', 'u2', 'u3']);
+    });
+
+    it('should stamp writes made in batches', async () => {
+      await service.batch().setDocument('users/u1', { name: 'Ann' }).commit();
+
+      expect(db.getDocumentData('users/u1')).toMatchObject({ createdBy: 'admin', deletedAt: null });
+    });
+
+    it('should hide soft-deleted documents from reads and queries', async () => {
+      await service.setDocument('users/u1', { name: 'Ann' });
+      await service.setDocument('users/u2', { name: 'Bob' });
+
+      await service.deleteDocument('users/u1');
+
+      expect(db.getDocumentData('users/u1')?.deletedAt).toBeInstanceOf(Timestamp);
+      await expect(service.getDocument('users/u1')).rejects.toThrow('Document does not exist');
+      await expect(service.documentExists('users/u1')).resolves.toBe(false);
+      await expect(
+        service.getDocument('users/u1', { includeDeleted: true }),
+      ).resolves.toMatchObject({ name: 'Ann' });
+      expect((await service.query('users', orderBy('name'))).map(doc => doc.id)).toEqual(['u2']);
+      expect((await service.queryIncludingDeleted('users')).map(doc => doc.id)).toEqual([
+        'u1',
+        'u2',
+      ]);
+      await expect(service.count('users')).resolves.toBe(1);
+      expect((await service.paginate('users', 10)).items).toHaveLength(1);
+      expect(
+        (await service.paginate('users', { pageSize: 10, includeDeleted: true })).items,
+      ).toHaveLength(2);
+    });
+
+    it('should return null for soft-deleted documents fetched by id', async () => {
+      await service.setDocument('users/u1', { name: 'Ann' });
+      await service.setDocument('users/u2', { name: 'Bob' });
+      await service.deleteDocument('users/u1');
+
+      const docs = await service.getDocuments<{ name: string }>('users', ['u1', 'u2']);
+      const withDeleted = await service.getDocuments<{ name: string }>('users', ['u1'], {
+        includeDeleted: true,
+      });
+
+      expect(docs.map(doc => doc?.name ?? null)).toEqual([null, 'Bob']);
+      expect(withDeleted[0]?.name).toBe('Ann');
+    });
+
+    it('should deliver soft-deleted documents to document listeners as null', async () => {
+      const onNext = jest.fn();
+      const withDeleted = jest.fn();
+      await service.setDocument('users/u1', { name: 'Ann' });
+      service.subscribeDocument<{ name: string }>('users/u1', onNext);
+      service.subscribeDocument<{ name: string }>('users/u1', withDeleted, undefined, {
+        includeDeleted: true,
+      });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      await service.deleteDocument('users/u1');
+
+      expect(onNext.mock.calls.map(([doc]) => doc?.name ?? null)).toEqual(['Ann', null]);
+      expect(withDeleted.mock.calls.map(([doc]) => doc?.name ?? null)).toEqual(['Ann', 'Ann']);
+      service.cleanup();
+    });
+
+    it('should soft-delete inside transactions', async () => {
+      await service.setDocument('users/u1', { name: 'Ann' });
+
+      await service.runTransaction(async transaction => {
+        transaction.deleteDocument('users/u1');
+      });
+
+      await expect(
+        service.runTransaction(transaction => transaction.documentExists('users/u1')),
+      ).resolves.toBe(false);
+      await expect(
+        service.runTransaction(transaction =>
+          transaction.documentExists('users/u1', { includeDeleted: true }),
+        ),
+      ).resolves.toBe(true);
+    });
+
+    it('should restore soft-deleted documents', async () => {
+      await service.setDocument('users/u1', { name: 'Ann' });
+      await service.deleteDocument('users/u1');
+
+      await service.restoreDocument('users/u1');
+
+      await expect(service.getDocument('users/u1')).resolves.toMatchObject({
+        name: 'Ann',
+        deletedAt: null,
+      });
+    });
+
+    it('should fail to soft-delete missing documents', async () => {
+      await expect(service.deleteDocument('users/missing')).rejects.toMatchObject({
+        code: 'not-found',
+      });
+    });
+
+    it('should purge documents deleted before a time', async () => {
+      db.seed({
+        'users/old': { name: 'Old', deletedAt: Timestamp.fromDate(new Date('2020-01-01')) },
+        'users/new': { name: 'New', deletedAt: Timestamp.fromDate(new Date('2024-06-01')) },
+        'users/live': { name: 'Live', deletedAt: null },
+      });
+
+      const purged = await service.purgeDeleted('users', new Date('2024-01-01'));
+
+      expect(purged).toBe(1);
+      expect(db.listDocumentPaths()).toEqual(['users/live', 'users/new']);
+      expect(await service.query('users', where('name', '==', 'Live'))).toHaveLength(1);
+    });
+
+    it('should reject soft-delete operations when soft delete is disabled', async () => {
+      const plain = db.createService();
+
+      await expect(plain.restoreDocument('users/u1')).rejects.toThrow('Soft delete is not enabled');
+      await expect(plain.purgeDeleted('users', new Date())).rejects.toThrow(
+        'Soft delete is not enabled',
+      );
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { Firestore } from 'firebase/firestore';
+import { FirestoreService } from '../firestore/firestore-service';
+import { BulkWriteOperation, BulkWriter } from '../firestore/bulk-writer';
+
+// Mock Firebase Firestore
+jest.mock('firebase/firestore', () => {
+  const { FieldValue, deleteField, serverTimestamp } = jest.requireActual('firebase/firestore');
+  return {
+    FieldValue,
+    deleteField,
+    serverTimestamp,
+    doc: jest.fn(),
+    writeBatch: jest.fn(),
+  };
+});
+
+// Import mocked Firebase functions
+import { doc, writeBatch } from 'firebase/firestore';
+
+describe('BulkWriter', () => {
+  let firestoreService: FirestoreService;
+  let committedBatches: string[][];
+  let commitImplementation: jest.Mock;
+
+  const fastOptions = { retryDelayMs: 0, initialOpsPerSecond: 1e9 };
+
+  const setOperations = (count: number): BulkWriteOperation[] =>
+    Array.from({ length: count }, (_, i) => ({
+      type: 'set' as const,
+      path: `items/${i}`,
+      data: { index: i },
+    }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    committedBatches = [];
+    commitImplementation = jest.fn().mockResolvedValue(undefined);
+
+    (doc as jest.Mock).mockImplementation((_firestore, path: string) => ({ path }));
+    (writeBatch as jest.Mock).mockImplementation(() => {
+      const paths: string[] = [];
+      const record = (ref: { path: string }) => paths.push(ref.path);
+      return {
+        set: jest.fn(record),
+        update: jest.fn(record),
+        delete: jest.fn(record),
+        commit: jest.fn(async () => {
+          await commitImplementation(paths);
+          committedBatches.push(paths);
+        }),
+      };
+    });
+
+    firestoreService = new FirestoreService({ type: 'firestore' } as unknown as Firestore);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should split operations into batches of at most 500', async () => {
+    const result = await firestoreService.bulkWrite(setOperations(1200), fastOptions);
+
+    expect(committedBatches.map(batch => batch.length).sort((a, b) => b - a)).toEqual([
+      500, 500, 200,
+    ]);
+    expect(result.successCount).toBe(1200);
+    expect(result.failureCount).toBe(0);
+    expect(result.results[1199]).toEqual({
+      index: 1199,
+      path: 'items/1199',
+      type: 'set',
+      success: true,
+    });
+  });
+
+  it('should cap the batch size at the Firestore maximum', async () => {
+    await new BulkWriter(firestoreService, { ...fastOptions, batchSize: 1000 }).write(
+      setOperations(600),
+    );
+
+    expect(Math.max(...committedBatches.map(batch => batch.length))).toBe(500);
+  });
+
+  it('should limit the number of batches in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    commitImplementation.mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      inFlight--;
+    });
+
+    await firestoreService.bulkWrite(setOperations(50), {
+      ...fastOptions,
+      batchSize: 5,
+      maxConcurrency: 3,
+    });
+
+    expect(committedBatches).toHaveLength(10);
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should write all operation types', async () => {
+    await firestoreService.bulkWrite(
+      [
+        { type: 'set', path: 'items/a', data: { a: 1 }, options: { merge: true } },
+        { type: 'update', path: 'items/b', data: { b: 2 } },
+        { type: 'delete', path: 'items/c' },
+      ],
+      fastOptions,
+    );
+
+    expect(committedBatches).toEqual([['items/a', 'items/b', 'items/c']]);
+  });
+
+  it('should retry batches that fail with a transient error', async () => {
+    commitImplementation
+      .mockRejectedValueOnce(Object.assign(new Error('Unavailable'), { code: 'unavailable' }))
+      .mockResolvedValue(undefined);
+
+    const result = await firestoreService.bulkWrite(setOperations(3), fastOptions);
+
+    expect(commitImplementation).toHaveBeenCalledTimes(2);
+    expect(result.successCount).toBe(3);
+  });
+
+  it('should report failures after exhausting retries', async () => {
+    commitImplementation.mockRejectedValue(
+      Object.assign(new Error('Unavailable'), { code: 'unavailable' }),
+    );
+
+    const result = await firestoreService.bulkWrite(setOperations(2), {
+      ...fastOptions,
+      maxRetries: 2,
+    });
+
+    expect(commitImplementation).toHaveBeenCalledTimes(3);
+    expect(result.failureCount).toBe(2);
+    expect(result.results[1].error).toMatchObject({
+      name: 'FirestoreError',
+      path: 'items/1',
+      code: 'unavailable',
+    });
+  });
+
+  it('should not retry batches with writes that are unsafe to apply twice', async () => {
+    const { increment } = jest.requireActual('firebase/firestore');
+    commitImplementation.mockRejectedValue(
+      Object.assign(new Error('Unavailable'), { code: 'unavailable' }),
+    );
+
+    const result = await firestoreService.bulkWrite(
+      [
+        { type: 'set', path: 'items/a', data: { index: 0 } },
+        { type: 'update', path: 'items/b', data: { count: increment(1) } },
+      ],
+      fastOptions,
+    );
+
+    expect(commitImplementation).toHaveBeenCalledTimes(1);
+    expect(result.failureCount).toBe(2);
+    expect(result.results[1].error).toMatchObject({ path: 'items/b', code: 'unavailable' });
+  });
+
+  it('should reject batch sizes and concurrency below 1', async () => {
+    await expect(
+      firestoreService.bulkWrite(setOperations(2), { ...fastOptions, batchSize: 0 }),
+    ).rejects.toThrow('batchSize must be a whole number of at least 1, got 0');
+    await expect(
+      firestoreService.bulkWrite(setOperations(2), { ...fastOptions, maxConcurrency: 0 }),
+    ).rejects.toMatchObject({ code: 'invalid-argument' });
+    expect(writeBatch).not.toHaveBeenCalled();
+  });
+
+  it('should reject rates and ramp-up intervals that are not positive', async () => {
+    await expect(
+      firestoreService.bulkWrite(setOperations(2), { ...fastOptions, rampUpIntervalMs: 0 }),
+    ).rejects.toThrow('rampUpIntervalMs must be a positive number, got 0');
+    await expect(
+      firestoreService.bulkWrite(setOperations(2), { ...fastOptions, maxOpsPerSecond: -1 }),
+    ).rejects.toMatchObject({ code: 'invalid-argument' });
+    await expect(
+      firestoreService.bulkWrite(setOperations(2), { initialOpsPerSecond: 0 }),
+    ).rejects.toMatchObject({ code: 'invalid-argument' });
+    expect(writeBatch).not.toHaveBeenCalled();
+  });
+
+  it("should retry the error codes of the service's retry policy", async () => {
+    firestoreService = new FirestoreService({ type: 'firestore' } as unknown as Firestore, {
+      retry: { retryableCodes: ['permission-denied'] },
+    });
+    commitImplementation
+      .mockRejectedValueOnce(Object.assign(new Error('Denied'), { code: 'permission-denied' }))
+      .mockRejectedValueOnce(Object.assign(new Error('Unavailable'), { code: 'unavailable' }))
+      .mockResolvedValue(undefined);
+
+    const result = await firestoreService.bulkWrite(setOperations(1), fastOptions);
+
+    expect(commitImplementation).toHaveBeenCalledTimes(2);
+    expect(result.results[0].error).toMatchObject({ code: 'unavailable' });
+  });
+
+  it('should isolate permanent failures to the offending operation', async () => {
+    commitImplementation.mockImplementation(async (paths: string[]) => {
+      if (paths.includes('items/missing')) {
+        throw Object.assign(new Error('No document to update'), { code: 'not-found' });
+      }
+    });
+
+    const result = await firestoreService.bulkWrite(
+      [
+        { type: 'set', path: 'items/a', data: {} },
+        { type: 'update', path: 'items/missing', data: { x: 1 } },
+        { type: 'delete', path: 'items/b' },
+      ],
+      fastOptions,
+    );
+
+    expect(result.successCount).toBe(2);
+    expect(result.results.map(item => item.success)).toEqual([true, false, true]);
+    expect(result.results[1].error).toMatchObject({ path: 'items/missing', code: 'not-found' });
+  });
+
+  it('should report progress as batches settle', async () => {
+    const onProgress = jest.fn();
+
+    await firestoreService.bulkWrite(setOperations(25), {
+      ...fastOptions,
+      batchSize: 10,
+      maxConcurrency: 1,
+      onProgress,
+    });
+
+    expect(onProgress.mock.calls).toEqual([
+      [10, 25],
+      [20, 25],
+      [25, 25],
+    ]);
+  });
+
+  it('should throttle writes to the configured rate', async () => {
+    const start = Date.now();
+
+    await firestoreService.bulkWrite(setOperations(30), {
+      retryDelayMs: 0,
+      batchSize: 10,
+      initialOpsPerSecond: 200,
+    });
+
+    // Three batches of 10 at 200 ops/s: the last one may start no earlier than 100ms in
+    expect(Date.now() - start).toBeGreaterThanOrEqual(95);
+  });
+
+  it('should return an empty report for no operations', async () => {
+    const result = await firestoreService.bulkWrite([]);
+
+    expect(result).toEqual({ results: [], successCount: 0, failureCount: 0 });
+    expect(writeBatch).not.toHaveBeenCalled();
+  });
+});
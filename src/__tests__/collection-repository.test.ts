@@ -0,0 +1,174 @@
+import { Firestore, QueryConstraint } from 'firebase/firestore';
+import { FirestoreService } from '../firestore/firestore-service';
+import { CollectionRepository, RepositoryConverter } from '../firestore/collection-repository';
+
+// Mock Firebase Firestore
+jest.mock('firebase/firestore', () => {
+  return {
+    FieldValue: jest.requireActual('firebase/firestore').FieldValue,
+    doc: jest.fn(),
+    getDoc: jest.fn(),
+    setDoc: jest.fn(),
+    updateDoc: jest.fn(),
+    deleteDoc: jest.fn(),
+    collection: jest.fn(),
+    query: jest.fn(),
+    getDocs: jest.fn(),
+  };
+});
+
+// Import mocked Firebase functions
+import { doc, getDoc, setDoc, updateDoc, deleteDoc, collection, getDocs } from 'firebase/firestore';
+
+interface User {
+  name: string;
+  age: number;
+}
+
+describe('CollectionRepository', () => {
+  let firestoreService: FirestoreService;
+  let mockFirestore: Firestore;
+  let mockDocRef: any;
+  let mockCollectionRef: any;
+  let mockDocSnapshot: any;
+
+  const converter: RepositoryConverter<User> = {
+    toFirestore: (user: any) => ({ display_name: user.name, age: user.age }),
+    fromFirestore: snapshot => {
+      const data = snapshot.data();
+      return { name: data.display_name, age: data.age };
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockFirestore = { type: 'firestore' } as unknown as Firestore;
+
+    mockDocRef = { id: 'user-1', path: 'users/user-1' };
+    mockDocRef.withConverter = jest.fn().mockReturnValue(mockDocRef);
+
+    mockCollectionRef = { id: 'users' };
+    mockCollectionRef.withConverter = jest.fn().mockReturnValue(mockCollectionRef);
+
+    mockDocSnapshot = {
+      exists: jest.fn(() => true),
+      data: jest.fn().mockReturnValue({ name: 'Ada', age: 36 }),
+      id: 'user-1',
+    };
+
+    (doc as jest.Mock).mockReturnValue(mockDocRef);
+    (getDoc as jest.Mock).mockResolvedValue(mockDocSnapshot);
+    (setDoc as jest.Mock).mockResolvedValue(undefined);
+    (updateDoc as jest.Mock).mockResolvedValue(undefined);
+    (deleteDoc as jest.Mock).mockResolvedValue(undefined);
+    (collection as jest.Mock).mockReturnValue(mockCollectionRef);
+    (getDocs as jest.Mock).mockResolvedValue({
+      forEach: (callback: (doc: any) => void) =>
+        [{ id: 'user-1', data: () => ({ name: 'Ada', age: 36 }) }].forEach(callback),
+    });
+
+    firestoreService = new FirestoreService(mockFirestore);
+  });
+
+  it('should be created by FirestoreService.collection', () => {
+    const users = firestoreService.collection<User>('users');
+
+    expect(users).toBeInstanceOf(CollectionRepository);
+    expect(users.collectionPath).toBe('users');
+    expect(users.docPath('user-1')).toBe('users/user-1');
+  });
+
+  it('should get a document with its id', async () => {
+    const users = firestoreService.collection<User>('users');
+
+    const user = await users.get('user-1');
+
+    expect(doc).toHaveBeenCalledWith(mockFirestore, 'users/user-1');
+    expect(user).toEqual({ id: 'user-1', name: 'Ada', age: 36 });
+  });
+
+  it('should set, update and delete documents by id', async () => {
+    const users = firestoreService.collection<User>('users');
+
+    await users.set('user-1', { name: 'Ada', age: 36 });
+    await users.update('user-1', { age: 37 });
+    await users.delete('user-1');
+
+    expect(setDoc).toHaveBeenCalledWith(mockDocRef, { name: 'Ada', age: 36 });
+    expect(updateDoc).toHaveBeenCalledWith(mockDocRef, { age: 37 });
+    expect(deleteDoc).toHaveBeenCalledWith(mockDocRef);
+  });
+
+  it('should query the collection', async () => {
+    const users = firestoreService.collection<User>('users');
+    const constraint = {} as QueryConstraint;
+
+    const result = await users.query(constraint);
+
+    expect(collection).toHaveBeenCalledWith(mockFirestore, 'users');
+    expect(result).toEqual([{ id: 'user-1', name: 'Ada', age: 36 }]);
+  });
+
+  it('should report whether a document exists', async () => {
+    const users = firestoreService.collection<User>('users');
+
+    expect(await users.exists('user-1')).toBe(true);
+
+    mockDocSnapshot.exists.mockReturnValue(false);
+    expect(await users.exists('user-1')).toBe(false);
+  });
+
+  describe('with a converter', () => {
+    it('should convert documents read and written through the repository', async () => {
+      const users = firestoreService.collection<User>('users', converter);
+      mockDocSnapshot.data.mockReturnValue({ display_name: 'Ada', age: 36 });
+      (getDocs as jest.Mock).mockResolvedValue({
+        forEach: (callback: (doc: any) => void) =>
+          [{ id: 'user-2', data: () => ({ display_name: 'Grace', age: 45 }) }].forEach(callback),
+      });
+
+      await users.set('user-1', { name: 'Ada', age: 36 });
+      const user = await users.get('user-1');
+      const result = await users.query();
+
+      expect(setDoc).toHaveBeenCalledWith(mockDocRef, { display_name: 'Ada', age: 36 });
+      expect(user).toEqual({ id: 'user-1', name: 'Ada', age: 36 });
+      expect(result).toEqual([{ id: 'user-2', name: 'Grace', age: 45 }]);
+      expect(mockDocRef.withConverter).not.toHaveBeenCalled();
+      expect(mockCollectionRef.withConverter).not.toHaveBeenCalled();
+    });
+
+    it('should not apply the converter to plain service calls on the same collection', async () => {
+      firestoreService.collection<User>('users', converter);
+
+      await firestoreService.setDocument('users/user-2', { name: 'Grace', age: 45 });
+
+      expect(setDoc).toHaveBeenCalledWith(mockDocRef, { name: 'Grace', age: 45 });
+    });
+
+    it('should convert partial updates', async () => {
+      const users = firestoreService.collection<User>('users', converter);
+
+      await users.update('user-1', { name: 'Ada Lovelace' });
+
+      expect(updateDoc).toHaveBeenCalledWith(mockDocRef, {
+        display_name: 'Ada Lovelace',
+        age: undefined,
+      });
+    });
+
+    it('should keep converters of different repositories apart', async () => {
+      const users = firestoreService.collection<User>('users', converter);
+      const raw = firestoreService.collection<User>('users');
+
+      await raw.set('user-1', { name: 'Ada', age: 36 });
+      await users.set('user-1', { name: 'Ada', age: 36 });
+
+      expect((setDoc as jest.Mock).mock.calls.map(call => call[1])).toEqual([
+        { name: 'Ada', age: 36 },
+        { display_name: 'Ada', age: 36 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { Readable, Writable } from 'stream';
+import { Bytes, GeoPoint, Timestamp } from 'firebase/firestore';
+import { decodeFirestoreValue, encodeFirestoreValue } from '../firestore/collection-transfer';
+import { FirestoreError } from '../firestore/firestore-error';
+import { FirestoreService } from '../firestore/firestore-service';
+import { InMemoryFirestore } from '../testing/in-memory-firestore';
+
+/**
+ * Creates a writable stream that collects everything written to it
+ */
+function createSink(): { stream: Writable; text: () => string } {
+  const chunks: string[] = [];
+  const stream = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(chunk.toString());
+      callback();
+    },
+  });
+  return { stream, text: () => chunks.join('') };
+}
+
+describe('collection transfer', () => {
+  describe('value encoding', () => {
+    it('should round-trip typed values', () => {
+      const db = new InMemoryFirestore();
+      const toReference = (path: string) => db.backend.doc(db.firestore, path);
+      const value = {
+        at: new Timestamp(1700000000, 123),
+        where: new GeoPoint(59.9, 10.7),
+        blob: Bytes.fromUint8Array(new Uint8Array([1, 2, 255])),
+        owner: toReference('users/u1'),
+        nested: { list: [1, 'two', null, Infinity], __type: 'literal' },
+      };
+
+      const encoded = JSON.parse(JSON.stringify(encodeFirestoreValue(value)));
+      const decoded = decodeFirestoreValue(encoded, toReference) as typeof value;
+
+      expect(encoded.at).toEqual({ __type: 'timestamp', seconds: 1700000000, nanoseconds: 123 });
+      expect(encoded.owner).toEqual({ __type: 'reference', path: 'users/u1' });
+      expect(decoded.at.isEqual(value.at)).toBe(true);
+      expect(decoded.where.isEqual(value.where)).toBe(true);
+      expect(decoded.blob.isEqual(value.blob)).toBe(true);
+      expect(decoded.owner.path).toBe('users/u1');
+      expect(decoded.nested).toEqual(value.nested);
+    });
+
+    it('should keep maps shaped like a reference as maps', () => {
+      const toReference = jest.fn();
+      const value = {
+        link: { type: 'document', path: 'docs/a' },
+        odd: { type: 'document', path: 'a' },
+      };
+
+      const encoded = JSON.parse(JSON.stringify(encodeFirestoreValue(value)));
+      const decoded = decodeFirestoreValue(encoded, toReference);
+
+      expect(encoded).toEqual(value);
+      expect(decoded).toEqual(value);
+      expect(toReference).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown encoded types', () => {
+      expect(() => decodeFirestoreValue({ __type: 'vector' }, jest.fn())).toThrow(
+        'Unknown encoded value type: vector',
+      );
+    });
+  });
+
+  describe('FirestoreService integration', () => {
+    let db: InMemoryFirestore;
+    let service: FirestoreService;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      db = new InMemoryFirestore({
+        'users/u1': { name: 'Ann', joined: new Timestamp(1600000000, 0) },
+        'users/u2': { name: 'Bob', home: new GeoPoint(1, 2) },
+        'users/u3': { name: 'Cat' },
+        'users/u1/posts/p1': { title: 'Not exported' },
+      });
+      service = db.createService();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should export one NDJSON line per document, page by page', async () => {
+      const sink = createSink();
+      const onProgress = jest.fn();
+
+      const result = await service.exportCollection('users', sink.stream, {
+        pageSize: 2,
+        onProgress,
+      });
+
+      const lines = sink
+        .text()
+        .trim()
+        .split('\n')
+        .map(line => JSON.parse(line));
+      expect(result).toEqual({ exported: 3 });
+      expect(lines.map(line => line.id)).toEqual(['u1', 'u2', 'u3']);
+      expect(lines[0].data.joined).toEqual({
+        __type: 'timestamp',
+        seconds: 1600000000,
+        nanoseconds: 0,
+      });
+      expect(onProgress.mock.calls).toEqual([[2], [3]]);
+    });
+
+    it('should export a JSON array', async () => {
+      const sink = createSink();
+
+      await service.exportCollection('users', sink.stream, { format: 'json' });
+
+      expect(JSON.parse(sink.text())).toHaveLength(3);
+    });
+
+    it('should import an export into another collection unchanged', async () => {
+      const sink = createSink();
+      await service.exportCollection('users', sink.stream);
+
+      const result = await service.importCollection('archive', Readable.from([sink.text()]));
+
+      expect(result).toEqual({ processed: 3, written: 3, skipped: 0 });
+      expect(db.getDocumentData('archive/u1')).toEqual(db.getDocumentData('users/u1'));
+      expect(db.getDocumentData('archive/u2')?.home).toBeInstanceOf(GeoPoint);
+    });
+
+    it('should read NDJSON split across chunks and byte buffers', async () => {
+      const text = '{"id":"a","data":{"n":1}}\n\n{"id":"b","data":{"n":2}}';
+      const chunks = [text.slice(0, 10), Buffer.from(text.slice(10, 30)), text.slice(30)];
+
+      const result = await service.importCollection('items', Readable.from(chunks));
+
+      expect(result.written).toBe(2);
+      expect(db.getDocumentData('items/b')).toEqual({ n: 2 });
+    });
+
+    it('should handle id conflicts as configured', async () => {
+      const records = ['{"id":"u1","data":{"age":30}}', '{"id":"new","data":{"name":"New"}}'].join(
+        '\n',
+      );
+
+      const skipped = await service.importCollection('users', [records], { onConflict: 'skip' });
+      expect(skipped).toEqual({ processed: 2, written: 1, skipped: 1 });
+      expect(db.getDocumentData('users/u1')).not.toHaveProperty('age');
+
+      await service.importCollection('users', [records], { onConflict: 'merge' });
+      expect(db.getDocumentData('users/u1')).toMatchObject({ name: 'Ann', age: 30 });
+
+      await service.importCollection('users', [records], { onConflict: 'overwrite' });
+      expect(db.getDocumentData('users/u1')).toEqual({ age: 30 });
+    });
+
+    it('should report progress after each batch', async () => {
+      const lines = ['a', 'b', 'c'].map(id => `${JSON.stringify({ id, data: {} })}\n`);
+      const onProgress = jest.fn();
+
+      await service.importCollection('items', lines, { batchSize: 2, onProgress });
+
+      expect(onProgress.mock.calls).toEqual([
+        [{ processed: 2, written: 2, skipped: 0 }],
+        [{ processed: 3, written: 3, skipped: 0 }],
+      ]);
+    });
+
+    it('should reject malformed records with their line number', async () => {
+      const bad = '{"id":"a","data":{}}\n{"id":"b/c","data":{}}\n';
+      const error = await service.importCollection('items', [bad]).catch(e => e);
+
+      expect(error).toBeInstanceOf(FirestoreError);
+      expect(error.message).toContain('Invalid record 2');
+      expect(error.code).toBe('invalid-argument');
+
+      await expect(service.importCollection('items', ['{"id":'])).rejects.toThrow(
+        'Invalid JSON on line 1',
+      );
+    });
+
+    it('should reject document paths', async () => {
+      await expect(service.exportCollection('users/u1', createSink().stream)).rejects.toThrow(
+        'Expected a collection path',
+      );
+    });
+  });
+});
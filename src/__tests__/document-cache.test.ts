@@ -0,0 +1,203 @@
+import { Timestamp } from 'firebase/firestore';
+import { DocumentCache } from '../firestore/document-cache';
+import { FirestoreService } from '../firestore/firestore-service';
+import { InMemoryFirestore } from '../testing/in-memory-firestore';
+
+describe('DocumentCache', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return cached data until the TTL runs out', () => {
+    const cache = new DocumentCache({ defaultTtlMs: 100 });
+    cache.set('config/app', { theme: 'dark' }, cache.getGeneration());
+
+    now += 99;
+    expect(cache.get('config/app')).toEqual({ theme: 'dark' });
+
+    now += 1;
+    expect(cache.get('config/app')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, expirations: 1, size: 0 });
+  });
+
+  it('should use the first matching pattern TTL and skip patterns with a TTL of 0', () => {
+    const cache = new DocumentCache({
+      defaultTtlMs: 0,
+      ttls: { 'config/{id}': 500, 'users/{uid}/sessions': 0, users: 50 },
+    });
+    const generation = cache.getGeneration();
+    cache.set('config/app', { a: 1 }, generation);
+    cache.set('users/u1', { a: 2 }, generation);
+    cache.set('users/u1/sessions/s1', { a: 3 }, generation);
+    cache.set('orders/o1', { a: 4 }, generation);
+
+    now += 100;
+
+    expect(cache.get('config/app')).toEqual({ a: 1 });
+    expect(cache.get('users/u1')).toBeUndefined();
+    expect(cache.get('users/u1/sessions/s1')).toBeUndefined();
+    expect(cache.get('orders/o1')).toBeUndefined();
+    // Lookups of documents that are never cached don't count as misses
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('should evict the least recently used entries', () => {
+    const cache = new DocumentCache({ maxEntries: 2 });
+    const generation = cache.getGeneration();
+    cache.set('a/1', { n: 1 }, generation);
+    cache.set('a/2', { n: 2 }, generation);
+    cache.get('a/1');
+    cache.set('a/3', { n: 3 }, generation);
+
+    expect(cache.get('a/2')).toBeUndefined();
+    expect(cache.get('a/1')).toEqual({ n: 1 });
+    expect(cache.get('a/3')).toEqual({ n: 3 });
+    expect(cache.getStats()).toMatchObject({ evictions: 1, size: 2 });
+  });
+
+  it('should ignore data read before an invalidation', () => {
+    const cache = new DocumentCache();
+    const generation = cache.getGeneration();
+
+    cache.invalidate('config/app');
+    cache.set('config/app', { stale: true }, generation);
+
+    expect(cache.get('config/app')).toBeUndefined();
+  });
+
+  it('should invalidate whole trees', () => {
+    const cache = new DocumentCache();
+    const generation = cache.getGeneration();
+    cache.set('users/u1', { n: 1 }, generation);
+    cache.set('users/u1/posts/p1', { n: 2 }, generation);
+    cache.set('users/u10', { n: 3 }, generation);
+
+    cache.invalidateTree('/users/u1/');
+
+    expect(cache.get('users/u1')).toBeUndefined();
+    expect(cache.get('users/u1/posts/p1')).toBeUndefined();
+    expect(cache.get('users/u10')).toEqual({ n: 3 });
+  });
+
+  it('should report the hit rate and reset its counters', () => {
+    const cache = new DocumentCache();
+    expect(cache.getStats().hitRate).toBe(0);
+
+    cache.get('config/app');
+    cache.set('config/app', { a: 1 }, cache.getGeneration());
+    cache.get('config/app');
+    cache.get('config/app');
+    cache.get('config/app');
+
+    expect(cache.getStats()).toMatchObject({ hits: 3, misses: 1, hitRate: 0.75 });
+
+    cache.resetStats();
+    expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0, size: 1 });
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new DocumentCache({ maxEntries: 0 })).toThrow('at least 1');
+    expect(() => new DocumentCache({ ttls: { config: -1 } })).toThrow('must not be negative');
+  });
+
+  describe('FirestoreService integration', () => {
+    let db: InMemoryFirestore;
+    let service: FirestoreService;
+    let getDoc: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      db = new InMemoryFirestore({
+        'config/app': { theme: 'dark' },
+        'users/u1': { name: 'Ann' },
+        'users/u1/posts/p1': { title: 'Hi' },
+      });
+      getDoc = jest.spyOn(db.backend, 'getDoc');
+      service = db.createService({ cache: { defaultTtlMs: 1000 } });
+    });
+
+    it('should serve repeated reads from the cache', async () => {
+      await service.getDocument('config/app');
+      await service.getDocument('config/app');
+      await expect(service.documentExists('config/app')).resolves.toBe(true);
+
+      expect(getDoc).toHaveBeenCalledTimes(1);
+      expect(service.getCacheStats()).toMatchObject({ hits: 2, misses: 1 });
+    });
+
+    it('should not let callers change cached documents through returned objects', async () => {
+      db.seed({ 'users/u2': { name: 'Bob', createdAt: Timestamp.fromMillis(5), tags: ['a'] } });
+      const first = await service.getDocument<any>('users/u2');
+      first.name = 'Changed';
+      first.tags.push('b');
+
+      const second = await service.getDocument<any>('users/u2');
+      second.tags.push('c');
+
+      await expect(service.getDocument('users/u2')).resolves.toEqual({
+        name: 'Bob',
+        createdAt: Timestamp.fromMillis(5),
+        tags: ['a'],
+      });
+      expect(second.createdAt).toBeInstanceOf(Timestamp);
+      expect(getDoc).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-read documents written through the service', async () => {
+      await service.getDocument('config/app');
+
+      await service.updateDocument('config/app', { theme: 'light' });
+      await expect(service.getDocument('config/app')).resolves.toEqual({ theme: 'light' });
+
+      await service.setDocument('config/app', { theme: 'blue' });
+      await expect(service.getDocument('config/app')).resolves.toEqual({ theme: 'blue' });
+
+      await service.deleteDocument('config/app');
+      await expect(service.documentExists('config/app')).resolves.toBe(false);
+    });
+
+    it('should re-read documents written in batches and transactions', async () => {
+      await service.getDocument('config/app');
+      await service.batch().updateDocument('config/app', { theme: 'batch' }).commit();
+      await expect(service.getDocument('config/app')).resolves.toEqual({ theme: 'batch' });
+
+      await service.runTransaction(async transaction => {
+        transaction.updateDocument('config/app', { theme: 'transaction' });
+      });
+      await expect(service.getDocument('config/app')).resolves.toEqual({ theme: 'transaction' });
+    });
+
+    it('should drop cached documents under recursively deleted paths', async () => {
+      await service.getDocument('users/u1/posts/p1');
+
+      await service.deleteRecursive('users/u1', { subcollections: { posts: {} } });
+
+      await expect(service.documentExists('users/u1/posts/p1')).resolves.toBe(false);
+    });
+
+    it('should only see outside writes after expiry or explicit invalidation', async () => {
+      await service.getDocument('config/app');
+      db.seed({ 'config/app': { theme: 'outside' } });
+
+      await expect(service.getDocument('config/app')).resolves.toEqual({ theme: 'dark' });
+
+      service.invalidateCache('config');
+      await expect(service.getDocument('config/app')).resolves.toEqual({ theme: 'outside' });
+
+      db.seed({ 'config/app': { theme: 'later' } });
+      now += 1000;
+      await expect(service.getDocument('config/app')).resolves.toEqual({ theme: 'later' });
+    });
+
+    it('should not report stats when the cache is disabled', () => {
+      expect(db.createService().getCacheStats()).toBeNull();
+    });
+  });
+});
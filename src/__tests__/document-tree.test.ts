@@ -0,0 +1,213 @@
+import { Firestore } from 'firebase/firestore';
+import { DocumentTree } from '../firestore/document-tree';
+import { FirestoreService } from '../firestore/firestore-service';
+import { FirestoreError } from '../firestore/firestore-error';
+
+// In-memory documents keyed by path, shared with the Firestore mock below
+const mockStore = new Map<string, Record<string, unknown>>();
+const mockCommits: Array<Array<{ type: string; path: string }>> = [];
+const mockCommitError: { error?: Error } = {};
+
+// Mock Firebase Firestore with a tiny in-memory backend
+jest.mock('firebase/firestore', () => {
+  const snapshotOf = (path: string) => ({
+    id: path.split('/').pop(),
+    ref: { path },
+    exists: () => mockStore.has(path),
+    data: () => mockStore.get(path),
+  });
+
+  return {
+    doc: jest.fn((_firestore, path) => ({ path })),
+    collection: jest.fn((_firestore, path) => ({ path })),
+    limit: jest.fn(count => ({ type: 'limit', count })),
+    startAfter: jest.fn(snapshot => ({ type: 'startAfter', path: snapshot.ref.path })),
+    query: jest.fn((ref, ...constraints) => ({ path: ref.path, constraints })),
+    getDoc: jest.fn(async ref => snapshotOf(ref.path)),
+    getDocs: jest.fn(async q => {
+      const prefix = `${q.path}/`;
+      let paths = [...mockStore.keys()]
+        .filter(path => path.startsWith(prefix) && !path.slice(prefix.length).includes('/'))
+        .sort();
+      q.constraints.forEach((constraint: any) => {
+        if (constraint.type === 'startAfter') {
+          paths = paths.filter(path => path > constraint.path);
+        }
+        if (constraint.type === 'limit') {
+          paths = paths.slice(0, constraint.count);
+        }
+      });
+      const docs = paths.map(snapshotOf);
+      return { docs, empty: docs.length === 0, size: docs.length };
+    }),
+    writeBatch: jest.fn(() => {
+      const writes: Array<{ type: string; path: string; data?: any }> = [];
+      return {
+        set: jest.fn((ref, data) => writes.push({ type: 'set', path: ref.path, data })),
+        delete: jest.fn(ref => writes.push({ type: 'delete', path: ref.path })),
+        commit: jest.fn(async () => {
+          if (mockCommitError.error) {
+            throw mockCommitError.error;
+          }
+          writes.forEach(write => {
+            if (write.type === 'set') {
+              mockStore.set(write.path, write.data);
+            } else {
+              mockStore.delete(write.path);
+            }
+          });
+          mockCommits.push(writes.map(({ type, path }) => ({ type, path })));
+        }),
+      };
+    }),
+  };
+});
+
+describe('DocumentTree', () => {
+  const firestore = {} as Firestore;
+
+  beforeEach(() => {
+    mockStore.clear();
+    mockCommits.length = 0;
+    mockCommitError.error = undefined;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockStore.set('users/u1', { name: 'Ann' });
+    mockStore.set('users/u1/posts/p1', { title: 'One' });
+    mockStore.set('users/u1/posts/p2', { title: 'Two' });
+    mockStore.set('users/u1/posts/p1/comments/c1', { text: 'Hi' });
+    mockStore.set('users/u1/settings/prefs', { theme: 'dark' });
+    mockStore.set('users/u2', { name: 'Bob' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('listSubcollections', () => {
+    it('should return the candidates that contain documents', async () => {
+      const names = await new DocumentTree(firestore).listSubcollections('users/u1', [
+        'posts',
+        'drafts',
+        'settings',
+      ]);
+
+      expect(names).toEqual(['posts', 'settings']);
+    });
+  });
+
+  describe('deleteRecursive', () => {
+    it('should delete a document and the given subcollections children-first', async () => {
+      const result = await new DocumentTree(firestore).deleteRecursive('users/u1', {
+        subcollections: { posts: { comments: {} }, settings: {} },
+      });
+
+      expect(result).toEqual({ deleted: 5, paths: [] });
+      expect([...mockStore.keys()]).toEqual(['users/u2']);
+      expect(mockCommits[0].map(write => write.path)).toEqual([
+        'users/u1/posts/p1/comments/c1',
+        'users/u1/posts/p1',
+        'users/u1/posts/p2',
+        'users/u1/settings/prefs',
+        'users/u1',
+      ]);
+    });
+
+    it('should leave unlisted subcollections alone', async () => {
+      await new DocumentTree(firestore).deleteRecursive('users/u1', {
+        subcollections: { posts: {} },
+      });
+
+      expect([...mockStore.keys()].sort()).toEqual([
+        'users/u1/posts/p1/comments/c1',
+        'users/u1/settings/prefs',
+        'users/u2',
+      ]);
+    });
+
+    it('should delete whole collections in batches and report progress', async () => {
+      const onProgress = jest.fn();
+
+      const result = await new DocumentTree(firestore).deleteRecursive('users', {
+        subcollections: { posts: { comments: {} }, settings: {} },
+        batchSize: 2,
+        onProgress,
+      });
+
+      expect(result.deleted).toBe(6);
+      expect(mockStore.size).toBe(0);
+      expect(mockCommits.every(batch => batch.length <= 2)).toBe(true);
+      expect(onProgress).toHaveBeenLastCalledWith(6, 'users/u2');
+    });
+
+    it('should only report paths in a dry run', async () => {
+      const result = await new DocumentTree(firestore).deleteRecursive('users/u1', {
+        subcollections: { posts: {} },
+        dryRun: true,
+      });
+
+      expect(result).toEqual({
+        deleted: 3,
+        paths: ['users/u1/posts/p1', 'users/u1/posts/p2', 'users/u1'],
+      });
+      expect(mockStore.size).toBe(6);
+      expect(mockCommits).toHaveLength(0);
+    });
+
+    it('should wrap batch failures in a FirestoreError', async () => {
+      mockCommitError.error = Object.assign(new Error('Denied'), { code: 'permission-denied' });
+
+      await expect(new DocumentTree(firestore).deleteRecursive('users/u2')).rejects.toMatchObject({
+        message: 'Denied',
+        path: 'users/u2',
+        code: 'permission-denied',
+      });
+    });
+  });
+
+  describe('copyDocumentTree', () => {
+    it('should copy a document and its subcollections with the same ids', async () => {
+      const onProgress = jest.fn();
+
+      const result = await new DocumentTree(firestore).copyDocumentTree(
+        'users/u1',
+        'tenants/b/users/u1',
+        { subcollections: { posts: { comments: {} } }, onProgress },
+      );
+
+      expect(result).toEqual({ copied: 4 });
+      expect(mockStore.get('tenants/b/users/u1')).toEqual({ name: 'Ann' });
+      expect(mockStore.get('tenants/b/users/u1/posts/p2')).toEqual({ title: 'Two' });
+      expect(mockStore.get('tenants/b/users/u1/posts/p1/comments/c1')).toEqual({ text: 'Hi' });
+      expect(mockStore.has('tenants/b/users/u1/settings/prefs')).toBe(false);
+      expect(onProgress).toHaveBeenCalledWith(4, 'tenants/b/users/u1/posts/p2');
+    });
+
+    it('should reject overlapping or non-document paths', async () => {
+      const tree = new DocumentTree(firestore);
+
+      await expect(tree.copyDocumentTree('users/u1', 'users/u1/posts/p9')).rejects.toThrow(
+        FirestoreError,
+      );
+      await expect(tree.copyDocumentTree('users', 'archive')).rejects.toThrow(
+        'both paths must be documents',
+      );
+    });
+  });
+
+  describe('FirestoreService integration', () => {
+    it('should expose tree operations on the service', async () => {
+      const service = new FirestoreService(firestore);
+
+      await expect(service.listSubcollections('users/u1', ['settings'])).resolves.toEqual([
+        'settings',
+      ]);
+      await expect(service.copyDocumentTree('users/u2', 'archive/u2')).resolves.toEqual({
+        copied: 1,
+      });
+      await expect(
+        service.deleteRecursive('users/u1', { subcollections: { settings: {} }, dryRun: true }),
+      ).resolves.toMatchObject({ deleted: 2 });
+    });
+  });
+});
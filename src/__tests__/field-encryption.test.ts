@@ -0,0 +1,229 @@
+import { randomBytes } from 'crypto';
+import { Timestamp, deleteField, where } from 'firebase/firestore';
+import {
+  EncryptionKeyProvider,
+  FieldEncryption,
+  StaticKeyProvider,
+} from '../firestore/field-encryption';
+import { FirestoreError } from '../firestore/firestore-error';
+import { FirestoreService } from '../firestore/firestore-service';
+import { InMemoryFirestore } from '../testing/in-memory-firestore';
+
+describe('FieldEncryption', () => {
+  const keys = { k1: randomBytes(32), k2: randomBytes(32) };
+  const toReference = jest.fn();
+
+  /**
+   * Creates a FieldEncryption for 'users' documents with the given provider
+   */
+  function createEncryption(
+    keyProvider: EncryptionKeyProvider = new StaticKeyProvider(keys, 'k1'),
+  ) {
+    return new FieldEncryption(
+      {
+        keyProvider,
+        fields: { users: ['email', 'contact.phone', { field: 'ssn', deterministic: true }] },
+      },
+      toReference,
+    );
+  }
+
+  it('should encrypt declared fields with a random nonce and decrypt them', () => {
+    const encryption = createEncryption();
+    const joined = new Timestamp(1700000000, 0);
+
+    const first = encryption.encrypt('users/u1', { email: 'ann@example.com', name: 'Ann' });
+    const second = encryption.encrypt('users/u1', { email: 'ann@example.com' });
+    const withTimestamp = encryption.encrypt('users/u1', { email: joined });
+
+    expect(first.email).toMatch(/^enc:v1:k1:r:[^:]+:[^:]+$/);
+    expect(first.name).toBe('Ann');
+    expect(second.email).not.toBe(first.email);
+    expect(encryption.decrypt('users/u1', first)).toEqual({
+      email: 'ann@example.com',
+      name: 'Ann',
+    });
+    expect((encryption.decrypt('users/u1', withTimestamp) as any).email.isEqual(joined)).toBe(true);
+  });
+
+  it('should only encrypt fields declared for the document path', () => {
+    const data = { email: 'ann@example.com' };
+
+    expect(createEncryption().encrypt('admins/a1', data)).toBe(data);
+    expect(createEncryption().encrypt('users/u1/posts/p1', data)).toBe(data);
+  });
+
+  it('should encrypt nested fields in set data and dotted update data', () => {
+    const encryption = createEncryption();
+
+    const nested = encryption.encrypt('users/u1', { contact: { phone: '123', city: 'Oslo' } });
+    const dotted = encryption.encrypt('users/u1', { 'contact.phone': '456' });
+
+    expect(nested.contact.phone).toMatch(/^enc:v1:/);
+    expect(nested.contact.city).toBe('Oslo');
+    expect(dotted['contact.phone']).toMatch(/^enc:v1:/);
+    expect(encryption.decrypt('users/u1', nested)).toEqual({
+      contact: { phone: '123', city: 'Oslo' },
+    });
+  });
+
+  it('should reject update paths inside an encrypted field', () => {
+    const encryption = createEncryption();
+
+    expect(() => encryption.encrypt('users/u1', { 'email.domain': 'example.com' })).toThrow(
+      FirestoreError,
+    );
+    expect(() => encryption.encrypt('users/u1', { 'contact.phone.area': '47' })).toThrow(
+      "inside encrypted field 'contact.phone'",
+    );
+    expect(encryption.encrypt('users/u1', { 'contact.city': 'Oslo' })).toEqual({
+      'contact.city': 'Oslo',
+    });
+  });
+
+  it('should leave null, sentinels and unencrypted values alone', () => {
+    const encryption = createEncryption();
+    const sentinel = deleteField();
+
+    expect(encryption.encrypt('users/u1', { email: null, ssn: sentinel })).toEqual({
+      email: null,
+      ssn: sentinel,
+    });
+    expect(encryption.decrypt('users/u1', { email: 'legacy@example.com' })).toEqual({
+      email: 'legacy@example.com',
+    });
+  });
+
+  it('should produce equal ciphertexts in deterministic mode', () => {
+    const encryption = createEncryption();
+
+    const stored = encryption.encrypt('users/u1', { ssn: '010190-12345' }).ssn;
+
+    expect(stored).toMatch(/^enc:v1:k1:d:/);
+    expect(encryption.encryptForQuery('users', 'ssn', '010190-12345')).toBe(stored);
+    expect(() => encryption.encryptForQuery('users', 'email', 'x')).toThrow(
+      "Field 'email' is not a deterministic encrypted field of users",
+    );
+  });
+
+  it('should decrypt values written with older keys after rotation', () => {
+    const provider = new StaticKeyProvider(keys, 'k1');
+    const encryption = createEncryption(provider);
+    const old = encryption.encrypt('users/u1', { email: 'ann@example.com' });
+
+    jest.spyOn(provider, 'getCurrentKeyId').mockReturnValue('k2');
+    const rotated = encryption.encrypt('users/u1', { email: 'ann@example.com' });
+
+    expect(rotated.email).toMatch(/^enc:v1:k2:/);
+    expect(encryption.decrypt('users/u1', old)).toEqual({ email: 'ann@example.com' });
+    expect(encryption.decrypt('users/u1', rotated)).toEqual({ email: 'ann@example.com' });
+  });
+
+  it('should reject tampered values and values moved to another field', () => {
+    const encryption = createEncryption();
+    const { email } = encryption.encrypt('users/u1', { email: 'ann@example.com' });
+    const tampered = email.slice(0, -4) + (email.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+
+    const error = (() => {
+      try {
+        encryption.decrypt('users/u1', { email: tampered });
+      } catch (e) {
+        return e as FirestoreError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(FirestoreError);
+    expect(error?.code).toBe('data-loss');
+    expect(error?.path).toBe('users/u1');
+    expect(() => encryption.decrypt('users/u1', { ssn: email })).toThrow(
+      "Failed to decrypt field 'ssn'",
+    );
+  });
+
+  it('should validate keys', () => {
+    expect(() => new StaticKeyProvider(keys, 'missing')).toThrow(
+      "Unknown encryption key 'missing'",
+    );
+
+    const short = createEncryption(new StaticKeyProvider({ k1: randomBytes(16) }, 'k1'));
+    expect(() => short.encrypt('users/u1', { email: 'x' })).toThrow(
+      "Encryption key 'k1' must be 32 bytes, got 16",
+    );
+
+    const base64 = createEncryption(
+      new StaticKeyProvider({ k1: keys.k1.toString('base64') }, 'k1'),
+    );
+    const encrypted = base64.encrypt('users/u1', { email: 'x' });
+    expect(createEncryption().decrypt('users/u1', encrypted)).toEqual({ email: 'x' });
+  });
+
+  describe('FirestoreService integration', () => {
+    let db: InMemoryFirestore;
+    let service: FirestoreService;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      db = new InMemoryFirestore();
+      service = db.createService({
+        encryption: {
+          keyProvider: new StaticKeyProvider(keys, 'k1'),
+          fields: { users: ['email', { field: 'phone', deterministic: true }] },
+        },
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should store ciphertext and return plaintext', async () => {
+      await service.setDocument('users/u1', { name: 'Ann', email: 'ann@example.com' });
+      await service.updateDocument('users/u1', { email: 'annie@example.com' });
+
+      expect(db.getDocumentData('users/u1')?.email).toMatch(/^enc:v1:k1:r:/);
+      await expect(service.getDocument('users/u1')).resolves.toEqual({
+        name: 'Ann',
+        email: 'annie@example.com',
+      });
+      expect(await service.query('users')).toEqual([
+        { id: 'u1', name: 'Ann', email: 'annie@example.com' },
+      ]);
+    });
+
+    it('should not store plaintext written inside an encrypted field', async () => {
+      await service.setDocument('users/u1', { email: 'ann@example.com' });
+      const stored = db.getDocumentData('users/u1')?.email;
+
+      await expect(
+        service.updateDocument('users/u1', { 'email.domain': 'example.com' }),
+      ).rejects.toMatchObject({ code: 'invalid-argument' });
+      expect(db.getDocumentData('users/u1')?.email).toBe(stored);
+    });
+
+    it('should support equality queries on deterministic fields', async () => {
+      await service.setDocument('users/u1', { name: 'Ann', phone: '111' });
+      await service.setDocument('users/u2', { name: 'Bob', phone: '222' });
+
+      const results = await service.query(
+        'users',
+        where('phone', '==', service.encryptForQuery('users', 'phone', '222')),
+      );
+
+      expect(results).toEqual([{ id: 'u2', name: 'Bob', phone: '222' }]);
+    });
+
+    it('should encrypt writes and decrypt reads in transactions', async () => {
+      await service.runTransaction(async transaction => {
+        transaction.setDocument('users/u1', { email: 'ann@example.com' });
+      });
+
+      const email = await service.runTransaction(async transaction => {
+        const user = await transaction.getDocument<{ email: string }>('users/u1');
+        return user.email;
+      });
+
+      expect(db.getDocumentData('users/u1')?.email).toMatch(/^enc:v1:/);
+      expect(email).toBe('ann@example.com');
+    });
+  });
+});
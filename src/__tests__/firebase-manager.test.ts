@@ -12,6 +12,7 @@ jest.mock('firebase/app', () => ({
 jest.mock('firebase/firestore', () => ({
   getFirestore: jest.fn().mockReturnValue({ id: 'mock-firestore' }),
   enableIndexedDbPersistence: jest.fn().mockResolvedValue(undefined),
+  connectFirestoreEmulator: jest.fn(),
 }));
 
 jest.mock('firebase/functions', () => ({
@@ -34,7 +35,11 @@ jest.mock('@google-cloud/pubsub', () => ({
 
 // Mock Firebase imports
 import { initializeApp } from 'firebase/app';
-import { getFirestore, enableIndexedDbPersistence } from 'firebase/firestore';
+import {
+  getFirestore,
+  enableIndexedDbPersistence,
+  connectFirestoreEmulator,
+} from 'firebase/firestore';
 import { getFunctions } from 'firebase/functions';
 
 describe('FirebaseManager', () => {
@@ -103,6 +108,77 @@ describe('FirebaseManager', () => {
     });
   });
 
+  describe('Firestore emulator', () => {
+    const demoConfig: FirebaseManagerConfig = {
+      ...mockConfig,
+      firebaseOptions: { ...mockConfig.firebaseOptions, projectId: 'demo-test' },
+    };
+
+    afterEach(() => {
+      delete process.env.FIRESTORE_EMULATOR_HOST;
+    });
+
+    it('should not connect to an emulator by default', () => {
+      firebaseManager.getFirestore();
+
+      expect(connectFirestoreEmulator).not.toHaveBeenCalled();
+      expect(firebaseManager.getFirestoreEmulator()).toBeNull();
+    });
+
+    it('should connect to the configured emulator once, before first use', () => {
+      const manager = new FirebaseManager({
+        ...demoConfig,
+        firestoreEmulator: { host: 'localhost', port: 8080 },
+      });
+
+      const instance = manager.getFirestore();
+      manager.getFirestore();
+
+      expect(connectFirestoreEmulator).toHaveBeenCalledTimes(1);
+      expect(connectFirestoreEmulator).toHaveBeenCalledWith(instance, 'localhost', 8080);
+    });
+
+    it('should detect the emulator from FIRESTORE_EMULATOR_HOST', () => {
+      process.env.FIRESTORE_EMULATOR_HOST = '127.0.0.1:9090';
+      const manager = new FirebaseManager(demoConfig);
+
+      manager.getFirestore();
+
+      expect(manager.getFirestoreEmulator()).toEqual({ host: '127.0.0.1', port: 9090 });
+      expect(connectFirestoreEmulator).toHaveBeenCalledWith(expect.anything(), '127.0.0.1', 9090);
+    });
+
+    it('should prefer the configured emulator over the environment', () => {
+      process.env.FIRESTORE_EMULATOR_HOST = '127.0.0.1:9090';
+      const manager = new FirebaseManager({
+        ...demoConfig,
+        firestoreEmulator: { host: 'emulator', port: 8080 },
+      });
+
+      expect(manager.getFirestoreEmulator()).toEqual({ host: 'emulator', port: 8080 });
+    });
+
+    it('should reject malformed FIRESTORE_EMULATOR_HOST values', () => {
+      process.env.FIRESTORE_EMULATOR_HOST = 'localhost';
+
+      expect(() => new FirebaseManager(demoConfig)).toThrow(
+        "Invalid FIRESTORE_EMULATOR_HOST 'localhost'",
+      );
+    });
+
+    it('should refuse the emulator with a production project id unless allowed', () => {
+      const config = { ...mockConfig, firestoreEmulator: { host: 'localhost', port: 8080 } };
+
+      expect(() => new FirebaseManager(config)).toThrow(
+        "Refusing to use the Firestore emulator with production project 'test-project-id'",
+      );
+      expect(initializeApp).toHaveBeenCalledTimes(1);
+      expect(
+        () => new FirebaseManager({ ...config, allowEmulatorWithProductionProject: true }),
+      ).not.toThrow();
+    });
+  });
+
   describe('service instances', () => {
     it('should provide a FirestoreService instance', () => {
       const service = firebaseManager.getFirestoreService();
@@ -163,6 +239,15 @@ describe('FirebaseManager', () => {
       expect(manager.pubSubService).toBeNull();
     });
 
+    it('should detach Firestore listeners', async () => {
+      const firestoreService = firebaseManager.getFirestoreService();
+      const cleanupSpy = jest.spyOn(firestoreService, 'cleanup');
+
+      await firebaseManager.cleanup();
+
+      expect(cleanupSpy).toHaveBeenCalled();
+    });
+
     it('should log cleanup message', async () => {
       // Spy on console.log
       const consoleSpy = jest.spyOn(console, 'log');
@@ -0,0 +1,135 @@
+import { initializeApp } from 'firebase/app';
+import {
+  Bytes,
+  GeoPoint,
+  Timestamp,
+  deleteField,
+  doc,
+  getFirestore,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { FirestoreSerializer } from '../firestore/firestore-serializer';
+import { FirestoreError } from '../firestore/firestore-error';
+
+describe('FirestoreSerializer', () => {
+  const createdAt = new Date('2024-05-06T07:08:09.123Z');
+
+  describe('serialize', () => {
+    it('should convert dates to timestamps recursively', () => {
+      const serializer = new FirestoreSerializer();
+
+      const result = serializer.serialize({
+        createdAt,
+        history: [{ at: createdAt }],
+        nested: { deep: { at: createdAt } },
+      });
+
+      expect(result.createdAt).toBeInstanceOf(Timestamp);
+      expect(result.createdAt.toMillis()).toBe(createdAt.getTime());
+      expect(result.history[0].at).toBeInstanceOf(Timestamp);
+      expect(result.nested.deep.at).toBeInstanceOf(Timestamp);
+    });
+
+    it('should leave dates alone when date conversion is off', () => {
+      const serializer = new FirestoreSerializer({ dates: false });
+
+      expect(serializer.serialize({ createdAt }).createdAt).toBe(createdAt);
+    });
+
+    it('should strip undefined properties by default', () => {
+      const serializer = new FirestoreSerializer();
+
+      expect(
+        serializer.serialize({ a: 1, b: undefined, c: { d: undefined }, e: [1, undefined] }),
+      ).toEqual({ a: 1, c: {}, e: [1, null] });
+    });
+
+    it('should reject undefined values when configured', () => {
+      const serializer = new FirestoreSerializer({ undefinedValues: 'reject' });
+
+      expect(() => serializer.serialize({ profile: { bio: undefined } }, 'users/u1')).toThrow(
+        FirestoreError,
+      );
+      expect(() => serializer.serialize({ profile: { bio: undefined } }, 'users/u1')).toThrow(
+        "Undefined value for field 'profile.bio' at users/u1",
+      );
+    });
+
+    it('should pass FieldValue sentinels through unchanged', () => {
+      const serializer = new FirestoreSerializer();
+      const updatedAt = serverTimestamp();
+      const removed = deleteField();
+
+      const result = serializer.serialize({ updatedAt, removed });
+
+      expect(result.updatedAt).toBe(updatedAt);
+      expect(result.removed).toBe(removed);
+    });
+
+    it('should write mapped GeoPoints and Bytes back as Firestore types', () => {
+      const serializer = new FirestoreSerializer({ geoPoints: 'object', bytes: 'uint8array' });
+
+      const result = serializer.serialize({
+        location: { latitude: 51.5, longitude: -0.1 },
+        avatar: new Uint8Array([1, 2, 3]),
+        address: { latitude: 1, longitude: 2, label: 'not a point' },
+      });
+
+      expect(result.location).toEqual(new GeoPoint(51.5, -0.1));
+      expect(result.avatar).toBeInstanceOf(Bytes);
+      expect(result.address).toEqual({ latitude: 1, longitude: 2, label: 'not a point' });
+    });
+  });
+
+  describe('deserialize', () => {
+    it('should convert timestamps to dates recursively', () => {
+      const serializer = new FirestoreSerializer();
+      const timestamp = Timestamp.fromDate(createdAt);
+
+      const result = serializer.deserialize({ createdAt: timestamp, list: [{ at: timestamp }] });
+
+      expect(result.createdAt).toEqual(createdAt);
+      expect(result.list[0].at).toEqual(createdAt);
+    });
+
+    it('should map GeoPoints, Bytes and references when configured', () => {
+      const firestore = getFirestore(initializeApp({ projectId: 'demo-test' }, 'serializer'));
+      const serializer = new FirestoreSerializer({
+        geoPoints: 'object',
+        bytes: 'uint8array',
+        references: 'path',
+      });
+
+      const result = serializer.deserialize({
+        location: new GeoPoint(51.5, -0.1),
+        avatar: Bytes.fromUint8Array(new Uint8Array([1, 2, 3])),
+        owner: doc(firestore, 'users/u1'),
+      });
+
+      expect(result).toEqual({
+        location: { latitude: 51.5, longitude: -0.1 },
+        avatar: new Uint8Array([1, 2, 3]),
+        owner: 'users/u1',
+      });
+    });
+
+    it('should keep Firestore types by default', () => {
+      const serializer = new FirestoreSerializer();
+      const location = new GeoPoint(1, 2);
+
+      expect(serializer.deserialize({ location }).location).toBe(location);
+    });
+
+    it('should round-trip application types', () => {
+      const serializer = new FirestoreSerializer({ geoPoints: 'object', bytes: 'uint8array' });
+      const data = {
+        createdAt,
+        location: { latitude: 51.5, longitude: -0.1 },
+        avatar: new Uint8Array([4, 5]),
+        tags: ['a', 'b'],
+      };
+
+      expect(serializer.deserialize(serializer.serialize(data))).toEqual(data);
+    });
+  });
+});
@@ -17,8 +17,21 @@ jest.mock('firebase/firestore', () => {
     updateDoc: jest.fn(),
     deleteDoc: jest.fn(),
     collection: jest.fn(),
+    collectionGroup: jest.fn(),
     query: jest.fn(),
     getDocs: jest.fn(),
+    onSnapshot: jest.fn(),
+    where: jest.fn((field, op, value) => ({ type: 'where', field, op, value })),
+    documentId: jest.fn(() => '__name__'),
+    getAggregateFromServer: jest.fn(),
+    count: jest.fn(() => ({ aggregateType: 'count' })),
+    sum: jest.fn(field => ({ aggregateType: 'sum', field })),
+    average: jest.fn(field => ({ aggregateType: 'avg', field })),
+    Timestamp: jest.requireActual('firebase/firestore').Timestamp,
+    GeoPoint: jest.requireActual('firebase/firestore').GeoPoint,
+    Bytes: jest.requireActual('firebase/firestore').Bytes,
+    DocumentReference: jest.requireActual('firebase/firestore').DocumentReference,
+    FieldValue: jest.requireActual('firebase/firestore').FieldValue,
   };
 });
 
@@ -30,9 +43,16 @@ import {
   updateDoc,
   deleteDoc,
   collection,
+  collectionGroup,
   query as firestoreQuery,
   getDocs,
+  onSnapshot,
+  where,
+  getAggregateFromServer,
+  Timestamp,
 } from 'firebase/firestore';
+import { FirestoreError } from '../firestore/firestore-service';
+import { QueryBuilder } from '../firestore/query-builder';
 
 describe('FirestoreService', () => {
   let firestoreService: FirestoreService;
@@ -141,6 +161,101 @@ describe('FirestoreService', () => {
     });
   });
 
+  describe('getDocuments', () => {
+    beforeEach(() => {
+      // Answer each 'in' query with the requested ids that are even numbers
+      (firestoreQuery as jest.Mock).mockImplementation((_ref, constraint) => constraint);
+      (getDocs as jest.Mock).mockImplementation(async ({ value }: { value: string[] }) => {
+        const docs = value
+          .filter(id => Number(id.slice(1)) % 2 === 0)
+          .map(id => ({ id, data: () => ({ name: `User ${id}` }) }));
+        return { forEach: (callback: (doc: unknown) => void) => docs.forEach(callback) };
+      });
+    });
+
+    it('should fetch ids in chunks of 30 and keep the input order', async () => {
+      const ids = Array.from({ length: 65 }, (_, i) => `u${64 - i}`);
+
+      const result = await firestoreService.getDocuments<{ name: string }>('users', ids);
+
+      expect(where).toHaveBeenCalledTimes(3);
+      expect((where as jest.Mock).mock.calls.map(call => call[2].length)).toEqual([30, 30, 5]);
+      expect(where).toHaveBeenCalledWith('__name__', 'in', expect.any(Array));
+      expect(result).toHaveLength(65);
+      expect(result[0]).toEqual({ id: 'u64', name: 'User u64' });
+      expect(result[1]).toBeNull();
+    });
+
+    it('should fetch repeated ids once', async () => {
+      const result = await firestoreService.getDocuments('users', ['u2', 'u1', 'u2']);
+
+      expect((where as jest.Mock).mock.calls[0][2]).toEqual(['u2', 'u1']);
+      expect(result).toEqual([{ id: 'u2', name: 'User u2' }, null, { id: 'u2', name: 'User u2' }]);
+    });
+
+    it('should limit the number of queries running at once', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const answer = (getDocs as jest.Mock).getMockImplementation() as jest.Mock;
+      (getDocs as jest.Mock).mockImplementation(async q => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        running--;
+        return answer(q);
+      });
+      const ids = Array.from({ length: 150 }, (_, i) => `u${i}`);
+
+      await firestoreService.getDocuments('users', ids, { maxConcurrency: 2 });
+
+      expect(getDocs).toHaveBeenCalledTimes(5);
+      expect(maxRunning).toBe(2);
+    });
+
+    it('should stop taking chunks once a query fails', async () => {
+      const answer = (getDocs as jest.Mock).getMockImplementation() as jest.Mock;
+      (getDocs as jest.Mock)
+        .mockImplementationOnce(async () => {
+          throw new Error('Firestore error');
+        })
+        .mockImplementation(async q => {
+          await new Promise(resolve => setTimeout(resolve, 1));
+          return answer(q);
+        });
+      const ids = Array.from({ length: 150 }, (_, i) => `u${i}`);
+
+      await expect(
+        firestoreService.getDocuments('users', ids, { maxConcurrency: 2 }),
+      ).rejects.toThrow('Firestore error');
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(getDocs).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject a maxConcurrency below 1', async () => {
+      await expect(
+        firestoreService.getDocuments('users', ['u1'], { maxConcurrency: 0 }),
+      ).rejects.toMatchObject({ code: 'invalid-argument', path: 'users' });
+      await expect(
+        firestoreService.getDocuments('users', ['u1'], { maxConcurrency: -1 }),
+      ).rejects.toThrow('maxConcurrency must be a whole number of at least 1, got -1');
+      expect(getDocs).not.toHaveBeenCalled();
+    });
+
+    it('should not query when no ids are given', async () => {
+      await expect(firestoreService.getDocuments('users', [])).resolves.toEqual([]);
+      expect(getDocs).not.toHaveBeenCalled();
+    });
+
+    it('should handle errors during fetching', async () => {
+      (getDocs as jest.Mock).mockRejectedValue(new Error('Firestore error'));
+
+      await expect(firestoreService.getDocuments('users', ['u1'])).rejects.toThrow(
+        'Firestore error',
+      );
+    });
+  });
+
   describe('setDocument', () => {
     it('should set a document successfully', async () => {
       const testData = { id: 'test-id', name: 'Test User' };
@@ -228,6 +343,29 @@ describe('FirestoreService', () => {
       ]);
     });
 
+    it('should compile query builders and declarative filters', async () => {
+      const raw = {} as unknown as QueryConstraint;
+
+      const mockCollectionRef = { path: 'users' };
+      (collection as jest.Mock).mockReturnValue(mockCollectionRef);
+
+      await firestoreService.query<{ name: string; age: number }>(
+        'users',
+        [{ field: 'age', operator: '<', value: 40 }],
+        new QueryBuilder<{ name: string; age: number }>().where('name', '==', 'Ann'),
+        raw,
+      );
+
+      expect(where).toHaveBeenCalledWith('age', '<', 40);
+      expect(where).toHaveBeenCalledWith('name', '==', 'Ann');
+      expect(firestoreQuery).toHaveBeenCalledWith(
+        mockCollectionRef,
+        { type: 'where', field: 'age', op: '<', value: 40 },
+        { type: 'where', field: 'name', op: '==', value: 'Ann' },
+        raw,
+      );
+    });
+
     it('should return an empty array if no documents match the query', async () => {
       // Empty query snapshot
       (mockQuerySnapshot as unknown as { docs: any[] }).docs = [];
@@ -243,4 +381,298 @@ describe('FirestoreService', () => {
       await expect(firestoreService.query('users')).rejects.toThrow('Firestore error');
     });
   });
+
+  describe('queryGroup', () => {
+    it('should query a collection group and add each document location', async () => {
+      const mockGroup = { type: 'collection-group' };
+      (collectionGroup as jest.Mock).mockReturnValue(mockGroup);
+      (mockQuerySnapshot as any).docs = [
+        {
+          id: 'c1',
+          ref: { path: 'posts/p1/comments/c1' },
+          data: () => ({ text: 'First' }),
+        },
+        {
+          id: 'c2',
+          ref: { path: 'users/u1/posts/p2/comments/c2' },
+          data: () => ({ text: 'Second' }),
+        },
+      ];
+
+      const result = await firestoreService.queryGroup<{ text: string }>('comments', [
+        { field: 'text', operator: '!=', value: '' },
+      ]);
+
+      expect(collectionGroup).toHaveBeenCalledWith(mockFirestore, 'comments');
+      expect(firestoreQuery).toHaveBeenCalledWith(mockGroup, {
+        type: 'where',
+        field: 'text',
+        op: '!=',
+        value: '',
+      });
+      expect(result).toEqual([
+        {
+          id: 'c1',
+          text: 'First',
+          path: 'posts/p1/comments/c1',
+          parentPath: 'posts/p1/comments',
+          parentIds: { posts: 'p1' },
+        },
+        {
+          id: 'c2',
+          text: 'Second',
+          path: 'users/u1/posts/p2/comments/c2',
+          parentPath: 'users/u1/posts/p2/comments',
+          parentIds: { users: 'u1', posts: 'p2' },
+        },
+      ]);
+    });
+
+    it('should validate group results against schemas registered by pattern', async () => {
+      (mockQuerySnapshot as any).docs = [
+        { id: 'c1', ref: { path: 'posts/p1/comments/c1' }, data: () => ({ text: 1 }) },
+      ];
+      firestoreService.registerValidator('posts/{postId}/comments', {
+        safeParse: (data: any) =>
+          typeof data.text === 'string'
+            ? { success: true, data }
+            : {
+                success: false,
+                error: { issues: [{ path: ['text'], message: 'Expected string' }] },
+              },
+      });
+
+      await expect(firestoreService.queryGroup('comments')).rejects.toThrow(
+        'Invalid document at posts/p1/comments/c1',
+      );
+    });
+  });
+
+  describe('aggregations', () => {
+    const mockAggregate = (data: Record<string, number | null>) =>
+      (getAggregateFromServer as jest.Mock).mockResolvedValue({ data: () => data });
+
+    it('should count matching documents on the server', async () => {
+      mockAggregate({ count: 42 });
+
+      const result = await firestoreService.count<{ age: number }>('users', [
+        { field: 'age', operator: '>', value: 30 },
+      ]);
+
+      expect(result).toBe(42);
+      expect(where).toHaveBeenCalledWith('age', '>', 30);
+      expect(getAggregateFromServer).toHaveBeenCalledWith(mockQuery, {
+        count: { aggregateType: 'count' },
+      });
+      expect(getDocs).not.toHaveBeenCalled();
+    });
+
+    it('should sum and average a field', async () => {
+      mockAggregate({ sum: 120 });
+      await expect(firestoreService.sum('orders', 'total')).resolves.toBe(120);
+
+      mockAggregate({ average: null });
+      await expect(firestoreService.average('orders', 'total')).resolves.toBeNull();
+
+      expect(getAggregateFromServer).toHaveBeenCalledWith(mockQuery, {
+        sum: { aggregateType: 'sum', field: 'total' },
+      });
+      expect(getAggregateFromServer).toHaveBeenCalledWith(mockQuery, {
+        average: { aggregateType: 'avg', field: 'total' },
+      });
+    });
+
+    it('should compute several aggregations in one request', async () => {
+      mockAggregate({ orders: 3, revenue: 90, avgTotal: 30 });
+
+      const result = await firestoreService.aggregate<{ total: number }>('orders', {
+        orders: { type: 'count' },
+        revenue: { type: 'sum', field: 'total' },
+        avgTotal: { type: 'average', field: 'total' },
+      });
+
+      expect(result).toEqual({ orders: 3, revenue: 90, avgTotal: 30 });
+      expect(getAggregateFromServer).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wrap aggregation errors in a FirestoreError', async () => {
+      (getAggregateFromServer as jest.Mock).mockRejectedValue(
+        Object.assign(new Error('Missing index'), { code: 'failed-precondition' }),
+      );
+
+      await expect(firestoreService.count('users')).rejects.toMatchObject({
+        name: 'FirestoreError',
+        message: 'Missing index',
+        path: 'users',
+        code: 'failed-precondition',
+      });
+    });
+  });
+
+  describe('subscribeDocument', () => {
+    let snapshotListener: (snapshot: any) => void;
+    let errorListener: (error: any) => void;
+    let mockUnsubscribe: jest.Mock;
+
+    beforeEach(() => {
+      mockUnsubscribe = jest.fn();
+      (onSnapshot as jest.Mock).mockImplementation((_ref, onNext, onError) => {
+        snapshotListener = onNext;
+        errorListener = onError;
+        return mockUnsubscribe;
+      });
+    });
+
+    it('should deliver document data with its id', () => {
+      const callback = jest.fn();
+      mockDocSnapshot.data.mockReturnValue({ name: 'Mock User' });
+
+      firestoreService.subscribeDocument('users/mock-doc-id', callback);
+      snapshotListener(mockDocSnapshot);
+
+      expect(onSnapshot).toHaveBeenCalledWith(
+        mockDocRef,
+        expect.any(Function),
+        expect.any(Function),
+      );
+      expect(callback).toHaveBeenCalledWith({ id: 'mock-doc-id', name: 'Mock User' });
+    });
+
+    it('should deliver null when the document does not exist', () => {
+      const callback = jest.fn();
+      mockDocSnapshot.exists.mockImplementation(() => false);
+
+      firestoreService.subscribeDocument('users/missing', callback);
+      snapshotListener(mockDocSnapshot);
+
+      expect(callback).toHaveBeenCalledWith(null);
+    });
+
+    it('should report errors as FirestoreError', () => {
+      const onError = jest.fn();
+
+      firestoreService.subscribeDocument('users/mock-doc-id', jest.fn(), onError);
+      errorListener({ message: 'Missing or insufficient permissions.', code: 'permission-denied' });
+
+      const error = onError.mock.calls[0][0];
+      expect(error).toBeInstanceOf(FirestoreError);
+      expect(error.path).toBe('users/mock-doc-id');
+      expect(error.code).toBe('permission-denied');
+      expect(firestoreService.getActiveListenerCount()).toBe(0);
+    });
+
+    it('should detach the listener when unsubscribed', () => {
+      const unsubscribe = firestoreService.subscribeDocument('users/mock-doc-id', jest.fn());
+
+      expect(firestoreService.getActiveListenerCount()).toBe(1);
+      unsubscribe();
+      unsubscribe();
+
+      expect(mockUnsubscribe).toHaveBeenCalledTimes(1);
+      expect(firestoreService.getActiveListenerCount()).toBe(0);
+    });
+  });
+
+  describe('subscribeQuery', () => {
+    let snapshotListener: (snapshot: any) => void;
+
+    beforeEach(() => {
+      (onSnapshot as jest.Mock).mockImplementation((_query, onNext) => {
+        snapshotListener = onNext;
+        return jest.fn();
+      });
+    });
+
+    it('should deliver matching documents and changes', () => {
+      const callback = jest.fn();
+      const constraint = {} as unknown as QueryConstraint;
+      const changedDoc = mockQuerySnapshot.docs[1];
+      (mockQuerySnapshot as any).docChanges = jest
+        .fn()
+        .mockReturnValue([{ type: 'modified', doc: changedDoc, oldIndex: 1, newIndex: 1 }]);
+
+      firestoreService.subscribeQuery('users', [constraint], callback);
+      snapshotListener(mockQuerySnapshot);
+
+      expect(collection).toHaveBeenCalledWith(mockFirestore, 'users');
+      expect(firestoreQuery).toHaveBeenCalledWith({}, constraint);
+      expect(onSnapshot).toHaveBeenCalledWith(
+        mockQuery,
+        expect.any(Function),
+        expect.any(Function),
+      );
+      expect(callback).toHaveBeenCalledWith({
+        docs: [
+          { id: 'doc1', name: 'Document 1' },
+          { id: 'doc2', name: 'Document 2' },
+        ],
+        changes: [
+          {
+            type: 'modified',
+            doc: { id: 'doc2', name: 'Document 2' },
+            oldIndex: 1,
+            newIndex: 1,
+          },
+        ],
+      });
+    });
+  });
+
+  describe('cleanup', () => {
+    it('should detach all active listeners', () => {
+      const unsubscribers = [jest.fn(), jest.fn()];
+      (onSnapshot as jest.Mock)
+        .mockReturnValueOnce(unsubscribers[0])
+        .mockReturnValueOnce(unsubscribers[1]);
+
+      firestoreService.subscribeDocument('users/a', jest.fn());
+      firestoreService.subscribeQuery('users', [], jest.fn());
+      firestoreService.cleanup();
+
+      expect(unsubscribers[0]).toHaveBeenCalled();
+      expect(unsubscribers[1]).toHaveBeenCalled();
+      expect(firestoreService.getActiveListenerCount()).toBe(0);
+    });
+  });
+
+  describe('serialization', () => {
+    const createdAt = new Date('2024-01-02T03:04:05Z');
+
+    beforeEach(() => {
+      firestoreService = new FirestoreService(mockFirestore, { serialization: true });
+    });
+
+    it('should convert dates and strip undefined values on write', async () => {
+      await firestoreService.setDocument('users/u1', { createdAt, nickname: undefined });
+      await firestoreService.updateDocument('users/u1', { 'profile.updatedAt': createdAt });
+
+      expect(setDoc).toHaveBeenCalledWith(mockDocRef, { createdAt: Timestamp.fromDate(createdAt) });
+      expect(updateDoc).toHaveBeenCalledWith(mockDocRef, {
+        'profile.updatedAt': Timestamp.fromDate(createdAt),
+      });
+    });
+
+    it('should convert timestamps to dates on read', async () => {
+      mockDocSnapshot.data.mockReturnValue({ createdAt: Timestamp.fromDate(createdAt) });
+      (mockQuerySnapshot as any).docs = [
+        { id: 'doc1', data: () => ({ createdAt: Timestamp.fromDate(createdAt) }) },
+      ];
+
+      const user = await firestoreService.getDocument<{ createdAt: Date }>('users/u1');
+      const users = await firestoreService.query<{ createdAt: Date }>('users');
+
+      expect(user.createdAt).toEqual(createdAt);
+      expect(users).toEqual([{ id: 'doc1', createdAt }]);
+    });
+
+    it('should not convert values when serialization is not configured', async () => {
+      const timestamp = Timestamp.fromDate(createdAt);
+      mockDocSnapshot.data.mockReturnValue({ createdAt: timestamp });
+
+      const plainService = new FirestoreService(mockFirestore);
+      const user = await plainService.getDocument<{ createdAt: unknown }>('users/u1');
+
+      expect(user.createdAt).toBe(timestamp);
+    });
+  });
 });
@@ -0,0 +1,212 @@
+import { Firestore } from 'firebase/firestore';
+import { FirestoreError, FirestoreService } from '../firestore/firestore-service';
+import { FirestoreBatch, FirestoreTransaction } from '../firestore/firestore-transaction';
+
+// Mock Firebase Firestore
+jest.mock('firebase/firestore', () => {
+  return {
+    doc: jest.fn(),
+    runTransaction: jest.fn(),
+    writeBatch: jest.fn(),
+  };
+});
+
+// Import mocked Firebase functions
+import { doc, runTransaction, writeBatch } from 'firebase/firestore';
+
+describe('FirestoreTransaction and FirestoreBatch', () => {
+  let firestoreService: FirestoreService;
+  let mockFirestore: Firestore;
+  let mockTransaction: any;
+  let mockBatch: any;
+  let mockDocSnapshot: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockFirestore = { type: 'firestore' } as unknown as Firestore;
+
+    mockDocSnapshot = {
+      exists: jest.fn(() => true),
+      data: jest.fn().mockReturnValue({ balance: 100 }),
+    };
+
+    mockTransaction = {
+      get: jest.fn().mockResolvedValue(mockDocSnapshot),
+      set: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockBatch = {
+      set: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      commit: jest.fn().mockResolvedValue(undefined),
+    };
+
+    (doc as jest.Mock).mockImplementation((_firestore, path: string) => ({ path }));
+    (runTransaction as jest.Mock).mockImplementation((_firestore, updateFunction) =>
+      updateFunction(mockTransaction),
+    );
+    (writeBatch as jest.Mock).mockReturnValue(mockBatch);
+
+    firestoreService = new FirestoreService(mockFirestore);
+  });
+
+  describe('runTransaction', () => {
+    it('should run reads and writes through the transaction', async () => {
+      const result = await firestoreService.runTransaction(async transaction => {
+        expect(transaction).toBeInstanceOf(FirestoreTransaction);
+
+        const from = await transaction.getDocument<{ balance: number }>('accounts/a');
+        transaction
+          .updateDocument('accounts/a', { balance: from.balance - 10 })
+          .setDocument('accounts/b', { balance: 10 }, { merge: true })
+          .deleteDocument('accounts/c');
+
+        return from.balance;
+      });
+
+      expect(result).toBe(100);
+      expect(runTransaction).toHaveBeenCalledWith(mockFirestore, expect.any(Function), undefined);
+      expect(mockTransaction.get).toHaveBeenCalledWith({ path: 'accounts/a' });
+      expect(mockTransaction.update).toHaveBeenCalledWith({ path: 'accounts/a' }, { balance: 90 });
+      expect(mockTransaction.set).toHaveBeenCalledWith(
+        { path: 'accounts/b' },
+        { balance: 10 },
+        { merge: true },
+      );
+      expect(mockTransaction.delete).toHaveBeenCalledWith({ path: 'accounts/c' });
+    });
+
+    it('should pass transaction options through', async () => {
+      await firestoreService.runTransaction(async () => undefined, { maxAttempts: 2 });
+
+      expect(runTransaction).toHaveBeenCalledWith(mockFirestore, expect.any(Function), {
+        maxAttempts: 2,
+      });
+    });
+
+    it('should report whether a document exists', async () => {
+      mockDocSnapshot.exists.mockReturnValue(false);
+
+      const exists = await firestoreService.runTransaction(transaction =>
+        transaction.documentExists('accounts/missing'),
+      );
+
+      expect(exists).toBe(false);
+    });
+
+    it('should throw a not-found FirestoreError when reading a missing document', async () => {
+      mockDocSnapshot.exists.mockReturnValue(false);
+
+      const promise = firestoreService.runTransaction(transaction =>
+        transaction.getDocument('accounts/missing'),
+      );
+
+      await expect(promise).rejects.toBeInstanceOf(FirestoreError);
+      await expect(promise).rejects.toMatchObject({ path: 'accounts/missing', code: 'not-found' });
+    });
+
+    it('should wrap contention failures with the failing path and attempt count', async () => {
+      const contention = Object.assign(new Error('Transaction too contended'), {
+        code: 'aborted',
+      });
+      (runTransaction as jest.Mock).mockImplementation(async (_firestore, updateFunction) => {
+        await updateFunction(mockTransaction);
+        await updateFunction(mockTransaction);
+        throw contention;
+      });
+
+      const promise = firestoreService.runTransaction(async transaction => {
+        await transaction.getDocument('accounts/a');
+        transaction.updateDocument('accounts/b', { balance: 0 });
+      });
+
+      await expect(promise).rejects.toMatchObject({
+        name: 'FirestoreError',
+        message: 'Transaction failed after 2 attempt(s): Transaction too contended',
+        path: 'accounts/b',
+        code: 'aborted',
+        originalError: contention,
+      });
+    });
+  });
+
+  describe('batch', () => {
+    it('should queue operations and commit them', async () => {
+      const batch = firestoreService.batch();
+
+      expect(batch).toBeInstanceOf(FirestoreBatch);
+
+      batch
+        .setDocument('users/a', { name: 'A' })
+        .updateDocument('users/b', { name: 'B' })
+        .deleteDocument('users/c');
+      await batch.commit();
+
+      expect(batch.size).toBe(3);
+      expect(writeBatch).toHaveBeenCalledWith(mockFirestore);
+      expect(mockBatch.set).toHaveBeenCalledWith({ path: 'users/a' }, { name: 'A' });
+      expect(mockBatch.update).toHaveBeenCalledWith({ path: 'users/b' }, { name: 'B' });
+      expect(mockBatch.delete).toHaveBeenCalledWith({ path: 'users/c' });
+      expect(mockBatch.commit).toHaveBeenCalled();
+    });
+
+    it('should wrap commit failures in FirestoreError', async () => {
+      mockBatch.commit.mockRejectedValue(
+        Object.assign(new Error('Missing or insufficient permissions.'), {
+          code: 'permission-denied',
+        }),
+      );
+
+      const batch = firestoreService.batch().deleteDocument('users/a');
+
+      await expect(batch.commit()).rejects.toMatchObject({
+        name: 'FirestoreError',
+        path: 'users/a',
+        paths: ['users/a'],
+        code: 'permission-denied',
+      });
+    });
+
+    it('should list every path of a failed multi-document batch', async () => {
+      mockBatch.commit.mockRejectedValue(
+        Object.assign(new Error('Missing or insufficient permissions.'), {
+          code: 'permission-denied',
+        }),
+      );
+
+      const batch = firestoreService
+        .batch()
+        .setDocument('users/a', { name: 'Ann' })
+        .updateDocument('users/b', { name: 'Bob' })
+        .deleteDocument('users/a');
+
+      const error = (await batch.commit().catch(e => e)) as FirestoreError;
+
+      expect(error).toBeInstanceOf(FirestoreError);
+      expect(error.path).toBeUndefined();
+      expect(error.paths).toEqual(['users/a', 'users/b']);
+    });
+
+    it('should report the path of a failed batch that writes one document twice', async () => {
+      mockBatch.commit.mockRejectedValue(
+        Object.assign(new Error('Missing or insufficient permissions.'), {
+          code: 'permission-denied',
+        }),
+      );
+
+      const batch = firestoreService
+        .batch()
+        .setDocument('users/a', { name: 'Ann' })
+        .updateDocument('users/a', { name: 'Annie' });
+
+      await expect(batch.commit()).rejects.toMatchObject({
+        path: 'users/a',
+        paths: ['users/a'],
+      });
+    });
+  });
+});
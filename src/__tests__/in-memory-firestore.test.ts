@@ -0,0 +1,468 @@
+import {
+  arrayUnion,
+  deleteField,
+  documentId,
+  increment,
+  limit,
+  orderBy,
+  serverTimestamp,
+  startAfter,
+  Timestamp,
+  where,
+} from 'firebase/firestore';
+import { FirestoreService, QuerySnapshotResult } from '../firestore/firestore-service';
+import { FirestoreError } from '../firestore/firestore-error';
+import { InMemoryFirestore } from '../testing';
+import { assertSupportedSdk } from '../testing/sdk-internals';
+
+interface User {
+  name: string;
+  age: number;
+  tags?: string[];
+}
+
+// Lets listeners receive their initial (asynchronous) snapshot
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('InMemoryFirestore', () => {
+  let db: InMemoryFirestore;
+  let service: FirestoreService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    db = new InMemoryFirestore({
+      'users/ann': { name: 'Ann', age: 31, tags: ['admin'] },
+      'users/bob': { name: 'Bob', age: 25 },
+      'users/cat': { name: 'Cat', age: 42, tags: ['ops'] },
+    });
+    service = db.createService();
+  });
+
+  afterEach(() => {
+    service.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  describe('documents', () => {
+    it('should read seeded documents and report missing ones', async () => {
+      await expect(service.getDocument<User>('users/ann')).resolves.toEqual({
+        name: 'Ann',
+        age: 31,
+        tags: ['admin'],
+      });
+      await expect(service.documentExists('users/zed')).resolves.toBe(false);
+      await expect(service.getDocument('users/zed')).rejects.toThrow(
+        'Document does not exist at path: users/zed',
+      );
+    });
+
+    it('should replace documents on set and merge them with merge: true', async () => {
+      await service.setDocument('users/ann', { name: 'Annie' });
+      expect(db.getDocumentData('users/ann')).toEqual({ name: 'Annie' });
+
+      await service.setDocument('users/ann', { profile: { city: 'Oslo' } }, { merge: true });
+      await service.setDocument('users/ann', { profile: { zip: '0150' } }, { merge: true });
+      expect(db.getDocumentData('users/ann')).toEqual({
+        name: 'Annie',
+        profile: { city: 'Oslo', zip: '0150' },
+      });
+    });
+
+    it('should only write the listed fields with mergeFields', async () => {
+      await service.setDocument(
+        'users/bob',
+        { name: 'Robert', age: 99 },
+        { mergeFields: ['name'] },
+      );
+      expect(db.getDocumentData('users/bob')).toEqual({ name: 'Robert', age: 25 });
+    });
+
+    it('should update nested fields and apply FieldValue sentinels', async () => {
+      await service.updateDocument('users/ann', {
+        age: increment(1),
+        tags: arrayUnion('admin', 'billing'),
+        'settings.theme': 'dark',
+        name: deleteField(),
+        seenAt: serverTimestamp(),
+      });
+
+      const data = db.getDocumentData('users/ann');
+      expect(data).toMatchObject({
+        age: 32,
+        tags: ['admin', 'billing'],
+        settings: { theme: 'dark' },
+      });
+      expect(data).not.toHaveProperty('name');
+      expect(data?.seenAt).toBeInstanceOf(Timestamp);
+    });
+
+    it('should store Dates as Timestamps', async () => {
+      const date = new Date('2024-01-02T03:04:05Z');
+      await service.setDocument('events/e1', { at: date });
+
+      expect(db.getDocumentData('events/e1')?.at).toEqual(Timestamp.fromDate(date));
+    });
+
+    it('should reject updates to missing documents', async () => {
+      await expect(service.updateDocument('users/zed', { age: 1 })).rejects.toMatchObject({
+        code: 'not-found',
+      });
+    });
+
+    it('should reject undefined values and deleteField() outside merges', async () => {
+      await expect(service.setDocument('users/zed', { name: undefined })).rejects.toThrow(
+        'Unsupported field value: undefined',
+      );
+      await expect(service.setDocument('users/zed', { name: deleteField() })).rejects.toThrow(
+        'deleteField() can only be used',
+      );
+      expect(db.getDocumentData('users/zed')).toBeUndefined();
+    });
+
+    it('should not let callers modify stored data through returned objects', async () => {
+      const user = await service.getDocument<User>('users/ann');
+      user.tags?.push('hacker');
+
+      expect(db.getDocumentData('users/ann')?.tags).toEqual(['admin']);
+    });
+
+    it('should delete documents without touching subcollections', async () => {
+      db.seed({ 'users/ann/posts/p1': { title: 'Hi' } });
+
+      await service.deleteDocument('users/ann');
+
+      expect(db.listDocumentPaths('users/')).toEqual([
+        'users/ann/posts/p1',
+        'users/bob',
+        'users/cat',
+      ]);
+    });
+
+    it('should reject invalid paths', () => {
+      expect(() => db.seed({ users: { name: 'x' } })).toThrow('Invalid document reference');
+    });
+  });
+
+  describe('queries', () => {
+    it('should filter, order and limit results', async () => {
+      const results = await service.query<User>(
+        'users',
+        where('age', '>', 26),
+        orderBy('age', 'desc'),
+        limit(1),
+      );
+
+      expect(results).toEqual([{ id: 'cat', name: 'Cat', age: 42, tags: ['ops'] }]);
+    });
+
+    it('should order by the inequality field and then by document id', async () => {
+      db.seed({ 'users/abe': { name: 'Abe', age: 25 } });
+
+      const results = await service.query<User>('users', where('age', '>=', 25));
+
+      expect(results.map(user => user.id)).toEqual(['abe', 'bob', 'ann', 'cat']);
+    });
+
+    it('should support array and membership operators', async () => {
+      const tagged = await service.query<User>('users', where('tags', 'array-contains', 'ops'));
+      const named = await service.query<User>('users', where('name', 'in', ['Ann', 'Bob']));
+      const others = await service.query<User>('users', where('name', 'not-in', ['Ann', 'Bob']));
+
+      expect(tagged.map(user => user.id)).toEqual(['cat']);
+      expect(named.map(user => user.id)).toEqual(['ann', 'bob']);
+      expect(others.map(user => user.id)).toEqual(['cat']);
+    });
+
+    it('should leave out documents missing the filtered or ordered field', async () => {
+      const withTags = await service.query<User>('users', orderBy('tags'));
+      const notAdmin = await service.query<User>('users', where('tags', '!=', ['admin']));
+
+      expect(withTags.map(user => user.id)).toEqual(['ann', 'cat']);
+      expect(notAdmin.map(user => user.id)).toEqual(['cat']);
+    });
+
+    it('should accept declarative filters and documentId() filters', async () => {
+      const byFilter = await service.query<User>('users', [
+        { field: 'age', operator: '<', value: 30 },
+      ]);
+      const byId = await service.query<User>('users', where(documentId(), '==', 'cat'));
+
+      expect(byFilter.map(user => user.id)).toEqual(['bob']);
+      expect(byId.map(user => user.id)).toEqual(['cat']);
+    });
+
+    it('should only return direct children of the collection', async () => {
+      db.seed({ 'users/ann/users/nested': { name: 'Nested', age: 1 } });
+
+      const results = await service.query<User>('users');
+
+      expect(results.map(user => user.id)).toEqual(['ann', 'bob', 'cat']);
+    });
+
+    it('should page through results with cursors', async () => {
+      const first = await service.paginate<User>('users', 2, orderBy('age'));
+      const second = await service.paginate<User>(
+        'users',
+        { pageSize: 2, cursor: first.nextCursor },
+        orderBy('age'),
+      );
+
+      expect(first.items.map(user => user.id)).toEqual(['bob', 'ann']);
+      expect(second.items.map(user => user.id)).toEqual(['cat']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should start after field values', async () => {
+      const results = await service.query<User>('users', orderBy('age'), startAfter(31));
+
+      expect(results.map(user => user.id)).toEqual(['cat']);
+    });
+
+    it('should query collection groups', async () => {
+      db.seed({
+        'users/ann/posts/p1': { title: 'One', likes: 3 },
+        'users/bob/posts/p2': { title: 'Two', likes: 10 },
+      });
+
+      const results = await service.queryGroup<{ title: string }>('posts', where('likes', '>', 5));
+
+      expect(results).toEqual([
+        expect.objectContaining({
+          id: 'p2',
+          path: 'users/bob/posts/p2',
+          parentIds: { users: 'bob' },
+        }),
+      ]);
+    });
+
+    it('should compute aggregations', async () => {
+      await expect(service.count('users')).resolves.toBe(3);
+      await expect(service.sum('users', 'age')).resolves.toBe(98);
+      await expect(service.average('users', 'age', where('age', '>', 30))).resolves.toBe(36.5);
+      await expect(service.average('empty', 'age')).resolves.toBeNull();
+    });
+  });
+
+  describe('transactions and batches', () => {
+    it('should apply transaction writes on success', async () => {
+      await service.runTransaction(async transaction => {
+        const ann = await transaction.getDocument<User>('users/ann');
+        transaction.updateDocument('users/ann', { age: ann.age + 1 });
+        transaction.deleteDocument('users/bob');
+      });
+
+      expect(db.getDocumentData('users/ann')?.age).toBe(32);
+      expect(db.getDocumentData('users/bob')).toBeUndefined();
+    });
+
+    it('should discard transaction writes when the function throws', async () => {
+      await expect(
+        service.runTransaction(async transaction => {
+          transaction.setDocument('users/zed', { name: 'Zed', age: 1 });
+          throw new Error('boom');
+        }),
+      ).rejects.toThrow('boom');
+
+      expect(db.getDocumentData('users/zed')).toBeUndefined();
+    });
+
+    it('should retry a transaction when a document it read changes', async () => {
+      let attempts = 0;
+
+      await service.runTransaction(async transaction => {
+        attempts++;
+        const bob = await transaction.getDocument<User>('users/bob');
+        if (attempts === 1) {
+          await service.updateDocument('users/bob', { age: 26 });
+        }
+        transaction.updateDocument('users/bob', { age: bob.age + 10 });
+      });
+
+      expect(attempts).toBe(2);
+      expect(db.getDocumentData('users/bob')?.age).toBe(36);
+    });
+
+    it('should fail with aborted after too many contended attempts', async () => {
+      const error = await service
+        .runTransaction(
+          async transaction => {
+            await transaction.getDocument('users/bob');
+            await service.updateDocument('users/bob', { age: increment(1) });
+          },
+          { maxAttempts: 2 },
+        )
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(FirestoreError);
+      expect(error.code).toBe('aborted');
+    });
+
+    it('should require reads before writes in a transaction', async () => {
+      await expect(
+        service.runTransaction(async transaction => {
+          transaction.deleteDocument('users/bob');
+          await transaction.getDocument('users/ann');
+        }),
+      ).rejects.toThrow('require all reads to be executed before all writes');
+    });
+
+    it('should commit batches atomically', async () => {
+      const batch = service.batch();
+      batch.setDocument('users/zed', { name: 'Zed', age: 1 });
+      batch.updateDocument('users/missing', { age: 1 });
+
+      await expect(batch.commit()).rejects.toBeDefined();
+      expect(db.getDocumentData('users/zed')).toBeUndefined();
+
+      const second = service.batch();
+      second.setDocument('users/zed', { name: 'Zed', age: 1 });
+      second.deleteDocument('users/bob');
+      await second.commit();
+
+      expect(db.listDocumentPaths('users/')).toEqual(['users/ann', 'users/cat', 'users/zed']);
+    });
+  });
+
+  describe('listeners', () => {
+    it('should deliver document snapshots and deletions', async () => {
+      const onNext = jest.fn();
+      service.subscribeDocument<User>('users/ann', onNext);
+      await flush();
+
+      await service.updateDocument('users/ann', { age: 32 });
+      await service.updateDocument('users/bob', { age: 26 });
+      await service.deleteDocument('users/ann');
+
+      expect(onNext.mock.calls.map(([doc]) => doc?.age ?? null)).toEqual([31, 32, null]);
+    });
+
+    it('should report query changes with indexes', async () => {
+      const snapshots: Array<QuerySnapshotResult<User>> = [];
+      service.subscribeQuery<User>('users', [where('age', '<', 40), orderBy('age')], result =>
+        snapshots.push(result),
+      );
+      await flush();
+
+      await service.setDocument('users/dan', { name: 'Dan', age: 20 });
+      await service.updateDocument('users/cat', { name: 'Kat' });
+      await service.updateDocument('users/bob', { name: 'Rob' });
+      await service.updateDocument('users/ann', { age: 50 });
+
+      expect(snapshots).toHaveLength(4);
+      expect(snapshots[0].changes.map(c => [c.type, c.doc.id])).toEqual([
+        ['added', 'bob'],
+        ['added', 'ann'],
+      ]);
+      expect(snapshots[1].changes).toEqual([
+        expect.objectContaining({ type: 'added', oldIndex: -1, newIndex: 0 }),
+      ]);
+      expect(snapshots[2].changes).toEqual([
+        expect.objectContaining({ type: 'modified', oldIndex: 1, newIndex: 1 }),
+      ]);
+      expect(snapshots[3].docs.map(user => user.id)).toEqual(['dan', 'bob']);
+      expect(snapshots[3].changes).toEqual([
+        expect.objectContaining({ type: 'removed', oldIndex: 2, newIndex: -1 }),
+      ]);
+    });
+
+    it('should report removed documents with their last data', async () => {
+      service.registerValidator('users', {
+        safeParse: (data: any) =>
+          typeof data?.name === 'string'
+            ? { success: true, data }
+            : { success: false, error: { issues: [{ path: ['name'], message: 'Required' }] } },
+      });
+      const onError = jest.fn();
+      const snapshots: Array<QuerySnapshotResult<User>> = [];
+      service.subscribeQuery<User>(
+        'users',
+        [where('age', '<', 40)],
+        result => snapshots.push(result),
+        onError,
+      );
+      await flush();
+
+      await service.deleteDocument('users/bob');
+
+      expect(onError).not.toHaveBeenCalled();
+      expect(snapshots[1].changes).toEqual([
+        expect.objectContaining({ type: 'removed', doc: { id: 'bob', name: 'Bob', age: 25 } }),
+      ]);
+    });
+
+    it('should stop delivering snapshots after cleanup', async () => {
+      const onNext = jest.fn();
+      service.subscribeDocument('users/ann', onNext);
+      service.subscribeQuery('users', [], onNext);
+      expect(db.getListenerCount()).toBe(2);
+
+      service.cleanup();
+      await flush();
+      await service.updateDocument('users/ann', { age: 1 });
+
+      expect(onNext).not.toHaveBeenCalled();
+      expect(db.getListenerCount()).toBe(0);
+    });
+
+    it('should keep writing when a listener throws', async () => {
+      service.subscribeDocument('users/ann', () => {
+        throw new Error('listener failed');
+      });
+      await flush();
+
+      await expect(service.updateDocument('users/ann', { age: 1 })).resolves.toBeUndefined();
+      expect(db.getDocumentData('users/ann')?.age).toBe(1);
+    });
+  });
+
+  describe('SDK support', () => {
+    it('should only run against the supported SDK major version', () => {
+      expect(() => assertSupportedSdk('10.14.1')).not.toThrow();
+      expect(() => assertSupportedSdk('11.0.0')).toThrow(
+        'InMemoryFirestore supports firebase 10.x, but 11.0.0 is installed',
+      );
+    });
+
+    it('should reject query constraints it cannot evaluate', () => {
+      const users = db.backend.collection(db.firestore, 'users');
+
+      expect(() => db.backend.query(users, { type: 'findNearest' } as any)).toThrow(
+        'Unsupported query constraint: findNearest',
+      );
+    });
+  });
+
+  describe('service features', () => {
+    it('should delete document trees recursively', async () => {
+      db.seed({
+        'users/ann/posts/p1': { title: 'One' },
+        'users/ann/posts/p1/comments/c1': { text: 'Hi' },
+      });
+
+      const result = await service.deleteRecursive('users/ann', {
+        subcollections: { posts: { comments: {} } },
+      });
+
+      expect(result.deleted).toBe(3);
+      expect(db.listDocumentPaths()).toEqual(['users/bob', 'users/cat']);
+    });
+
+    it('should apply serialization', async () => {
+      const serializing = db.createService({ serialization: true });
+      const date = new Date('2024-05-06T00:00:00Z');
+
+      await serializing.setDocument('events/e1', { at: date });
+
+      await expect(serializing.getDocument('events/e1')).resolves.toEqual({ at: date });
+    });
+
+    it('should be cleared by reset()', async () => {
+      service.subscribeDocument('users/ann', jest.fn());
+
+      db.reset();
+
+      expect(db.listDocumentPaths()).toEqual([]);
+      expect(db.getListenerCount()).toBe(0);
+    });
+  });
+});
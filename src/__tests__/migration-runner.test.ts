@@ -0,0 +1,307 @@
+import { Firestore } from 'firebase/firestore';
+import { FirestoreService } from '../firestore/firestore-service';
+import { Migration, MigrationRunner } from '../firestore/migration-runner';
+
+// In-memory documents keyed by path, shared with the Firestore mock below
+const mockStore = new Map<string, Record<string, any>>();
+const mockFailures: { commit?: (paths: string[]) => Error | undefined } = {};
+
+// Mock Firebase Firestore with a tiny in-memory backend
+jest.mock('firebase/firestore', () => {
+  const snapshotOf = (path: string) => ({
+    id: path.split('/').pop(),
+    ref: { path },
+    exists: () => mockStore.has(path),
+    data: () => (mockStore.has(path) ? { ...mockStore.get(path) } : undefined),
+  });
+  const apply = (write: { type: string; path: string; data?: any }) => {
+    if (write.type === 'set') {
+      mockStore.set(write.path, { ...write.data });
+    } else if (write.type === 'update') {
+      mockStore.set(write.path, { ...mockStore.get(write.path), ...write.data });
+    } else {
+      mockStore.delete(write.path);
+    }
+  };
+
+  return {
+    FieldValue: jest.requireActual('firebase/firestore').FieldValue,
+    doc: jest.fn((_firestore, path) => ({ path })),
+    collection: jest.fn((_firestore, path) => ({ path })),
+    limit: jest.fn(count => ({ type: 'limit', count })),
+    documentId: jest.fn(() => '__name__'),
+    where: jest.fn((field, op, value) => ({ type: 'where', field, op, value })),
+    startAfter: jest.fn(snapshot => ({ type: 'startAfter', path: snapshot.ref.path })),
+    query: jest.fn((ref, ...constraints) => ({ path: ref.path, constraints })),
+    getDoc: jest.fn(async ref => snapshotOf(ref.path)),
+    setDoc: jest.fn(async (ref, data) => apply({ type: 'set', path: ref.path, data })),
+    getDocs: jest.fn(async q => {
+      const prefix = `${q.path}/`;
+      let paths = [...mockStore.keys()]
+        .filter(path => path.startsWith(prefix) && !path.slice(prefix.length).includes('/'))
+        .sort();
+      q.constraints.forEach((constraint: any) => {
+        if (constraint.type === 'startAfter') {
+          paths = paths.filter(path => path > constraint.path);
+        }
+        if (constraint.type === 'where' && constraint.field === '__name__') {
+          paths = paths.filter(path => path.slice(prefix.length) > constraint.value);
+        }
+        if (constraint.type === 'limit') {
+          paths = paths.slice(0, constraint.count);
+        }
+      });
+      const docs = paths.map(snapshotOf);
+      return { docs, forEach: (callback: any) => docs.forEach(callback) };
+    }),
+    writeBatch: jest.fn(() => {
+      const writes: Array<{ type: string; path: string; data?: any }> = [];
+      return {
+        set: jest.fn((ref, data) => writes.push({ type: 'set', path: ref.path, data })),
+        update: jest.fn((ref, data) => writes.push({ type: 'update', path: ref.path, data })),
+        delete: jest.fn(ref => writes.push({ type: 'delete', path: ref.path })),
+        commit: jest.fn(async () => {
+          const error = mockFailures.commit?.(writes.map(write => write.path));
+          if (error) {
+            throw error;
+          }
+          writes.forEach(apply);
+        }),
+      };
+    }),
+    runTransaction: jest.fn(async (_firestore, updateFunction) => {
+      const writes: Array<{ type: string; path: string; data?: any }> = [];
+      const result = await updateFunction({
+        get: async (ref: any) => snapshotOf(ref.path),
+        set: (ref: any, data: any) => writes.push({ type: 'set', path: ref.path, data }),
+        update: (ref: any, data: any) => writes.push({ type: 'update', path: ref.path, data }),
+        delete: (ref: any) => writes.push({ type: 'delete', path: ref.path }),
+      });
+      writes.forEach(apply);
+      return result;
+    }),
+  };
+});
+
+describe('MigrationRunner', () => {
+  let service: FirestoreService;
+
+  const addDisplayName: Migration<{ first: string; last: string; displayName?: string }> = {
+    name: '001-add-display-name',
+    collection: 'users',
+    up: user => (user.displayName ? undefined : { displayName: `${user.first} ${user.last}` }),
+    down: () => ({ displayName: null }),
+  };
+  const addRole: Migration = {
+    name: '002-add-role',
+    collection: 'users',
+    up: () => ({ role: 'member' }),
+  };
+
+  beforeEach(() => {
+    mockStore.clear();
+    mockFailures.commit = undefined;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    service = new FirestoreService({} as Firestore);
+
+    mockStore.set('users/u1', { first: 'Ann', last: 'Lee' });
+    mockStore.set('users/u2', { first: 'Bob', last: 'Ray' });
+    mockStore.set('users/u3', { first: 'Cy', last: 'Orr', displayName: 'Cy' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should apply pending migrations in order and record them', async () => {
+    const onProgress = jest.fn();
+    const runner = new MigrationRunner(service, [addDisplayName, addRole], {
+      pageSize: 2,
+      onProgress,
+    });
+
+    const result = await runner.up();
+
+    expect(result.migrations.map(m => [m.name, m.processed, m.updated])).toEqual([
+      ['001-add-display-name', 3, 2],
+      ['002-add-role', 3, 3],
+    ]);
+    expect(mockStore.get('users/u1')).toEqual({
+      first: 'Ann',
+      last: 'Lee',
+      displayName: 'Ann Lee',
+      role: 'member',
+    });
+    expect(mockStore.get('users/u3')?.displayName).toBe('Cy');
+    expect(mockStore.get('_migrations/001-add-display-name')).toMatchObject({
+      direction: 'up',
+      status: 'completed',
+      processed: 3,
+    });
+    expect(mockStore.has('_migrations/_lock')).toBe(false);
+    expect(onProgress).toHaveBeenCalledWith('001-add-display-name', 2);
+    expect(onProgress).toHaveBeenCalledWith('001-add-display-name', 3);
+
+    await expect(runner.up()).resolves.toMatchObject({ migrations: [] });
+  });
+
+  it('should stop at the target migration', async () => {
+    const runner = new MigrationRunner(service, [addDisplayName, addRole]);
+
+    await runner.up({ to: '001-add-display-name' });
+
+    expect((await runner.status()).map(status => status.applied)).toEqual([true, false]);
+    expect(mockStore.get('users/u1')?.role).toBeUndefined();
+  });
+
+  it('should report changes without writing in a dry run', async () => {
+    const runner = new MigrationRunner(service, [addDisplayName]);
+
+    const result = await runner.up({ dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.migrations[0].changes).toEqual([
+      { path: 'users/u1', data: { displayName: 'Ann Lee' } },
+      { path: 'users/u2', data: { displayName: 'Bob Ray' } },
+    ]);
+    expect(mockStore.get('users/u1')?.displayName).toBeUndefined();
+    expect([...mockStore.keys()].some(path => path.startsWith('_migrations'))).toBe(false);
+  });
+
+  it('should record a failure and resume after the last committed page', async () => {
+    const seen: string[] = [];
+    const migration: Migration = {
+      ...addRole,
+      up: user => {
+        seen.push(user.id);
+        return { role: 'member' };
+      },
+    };
+    mockFailures.commit = paths =>
+      paths.includes('users/u3')
+        ? Object.assign(new Error('Quota'), { code: 'unavailable' })
+        : undefined;
+    const runner = new MigrationRunner(service, [migration], { pageSize: 2 });
+
+    await expect(runner.up()).rejects.toMatchObject({
+      name: 'FirestoreError',
+      message: "Migration '002-add-role' (up) failed: Quota",
+      code: 'unavailable',
+    });
+    expect(mockStore.get('_migrations/002-add-role')).toMatchObject({
+      status: 'failed',
+      processed: 2,
+      error: 'Quota',
+    });
+    expect(mockStore.has('_migrations/_lock')).toBe(false);
+
+    mockFailures.commit = undefined;
+    seen.length = 0;
+    await runner.up();
+
+    expect(seen).toEqual(['u3']);
+    expect(mockStore.get('users/u3')?.role).toBe('member');
+    expect(mockStore.get('_migrations/002-add-role')).toMatchObject({
+      status: 'completed',
+      processed: 3,
+    });
+  });
+
+  it('should resume after the checkpoint when its document was deleted', async () => {
+    mockStore.set('users/u4', { first: 'Di', last: 'Fox' });
+    mockFailures.commit = paths =>
+      paths.includes('users/u3')
+        ? Object.assign(new Error('Quota'), { code: 'unavailable' })
+        : undefined;
+    const runner = new MigrationRunner(service, [addRole], { pageSize: 2 });
+    await expect(runner.up()).rejects.toThrow('Quota');
+
+    mockFailures.commit = undefined;
+    mockStore.delete('users/u2');
+    await runner.up();
+
+    expect(mockStore.get('users/u3')?.role).toBe('member');
+    expect(mockStore.get('users/u4')?.role).toBe('member');
+    expect(mockStore.get('_migrations/002-add-role')).toMatchObject({
+      status: 'completed',
+      processed: 4,
+    });
+  });
+
+  it('should stop without overwriting the record when the lock was taken over', async () => {
+    const migration: Migration = {
+      ...addRole,
+      up: user => {
+        if (user.id === 'u3') {
+          mockStore.set('_migrations/_lock', { owner: 'other', expiresAt: Date.now() + 60000 });
+        }
+        return { role: 'member' };
+      },
+    };
+    const runner = new MigrationRunner(service, [migration], { pageSize: 2 });
+
+    await expect(runner.up()).rejects.toMatchObject({
+      code: 'aborted',
+      message: "Migration '002-add-role' (up) failed: Migration lock was lost to other",
+    });
+
+    expect(mockStore.get('users/u3')?.role).toBeUndefined();
+    expect(mockStore.get('_migrations/002-add-role')).toMatchObject({
+      status: 'running',
+      processed: 2,
+    });
+    expect(mockStore.get('_migrations/_lock')?.owner).toBe('other');
+  });
+
+  it('should refuse to run while another runner holds the lock', async () => {
+    mockStore.set('_migrations/_lock', { owner: 'other', expiresAt: Date.now() + 60000 });
+    const runner = new MigrationRunner(service, [addRole]);
+
+    await expect(runner.up()).rejects.toMatchObject({ code: 'failed-precondition' });
+    expect(mockStore.get('users/u1')?.role).toBeUndefined();
+    expect(mockStore.get('_migrations/_lock')?.owner).toBe('other');
+  });
+
+  it('should take over an expired lock', async () => {
+    mockStore.set('_migrations/_lock', { owner: 'crashed', expiresAt: Date.now() - 1 });
+    const runner = new MigrationRunner(service, [addRole]);
+
+    await runner.up();
+
+    expect(mockStore.get('users/u1')?.role).toBe('member');
+    expect(mockStore.has('_migrations/_lock')).toBe(false);
+  });
+
+  it('should revert the latest migration with down()', async () => {
+    const runner = new MigrationRunner(service, [
+      addDisplayName,
+      { ...addRole, down: () => ({ role: null }) },
+    ]);
+    await runner.up();
+
+    const result = await runner.down();
+
+    expect(result.migrations.map(m => m.name)).toEqual(['002-add-role']);
+    expect(mockStore.get('users/u1')?.role).toBeNull();
+    expect(mockStore.get('users/u1')?.displayName).toBe('Ann Lee');
+
+    await runner.down();
+    expect((await runner.status()).map(status => status.applied)).toEqual([false, false]);
+  });
+
+  it('should reject reverting a migration without down()', async () => {
+    const runner = new MigrationRunner(service, [addRole]);
+    await runner.up();
+
+    await expect(runner.down()).rejects.toThrow('it has no down()');
+  });
+
+  it('should reject duplicate or reserved migration names', () => {
+    expect(() => new MigrationRunner(service, [addRole, addRole])).toThrow(
+      "Duplicate migration name '002-add-role'",
+    );
+    expect(() => new MigrationRunner(service, [{ ...addRole, name: '_lock' }])).toThrow(
+      "Invalid migration name '_lock'",
+    );
+  });
+});
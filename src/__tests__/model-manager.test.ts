@@ -0,0 +1,234 @@
+import { Firestore, QueryConstraint } from 'firebase/firestore';
+import { FirestoreError, FirestoreService } from '../firestore/firestore-service';
+import {
+  FirestoreCollection,
+  FirestoreField,
+  FirestoreId,
+  FirestoreTimestamp,
+  getModelMetadata,
+} from '../firestore/firestore-decorators';
+import { ModelManager } from '../firestore/model-manager';
+
+// Mock Firebase Firestore
+jest.mock('firebase/firestore', () => {
+  class Timestamp {
+    constructor(public millis: number) {}
+    static fromDate(date: Date) {
+      return new Timestamp(date.getTime());
+    }
+    toDate() {
+      return new Date(this.millis);
+    }
+  }
+  return {
+    FieldValue: jest.requireActual('firebase/firestore').FieldValue,
+    Timestamp,
+    doc: jest.fn(),
+    getDoc: jest.fn(),
+    setDoc: jest.fn(),
+    deleteDoc: jest.fn(),
+    collection: jest.fn(),
+    query: jest.fn(),
+    getDocs: jest.fn(),
+  };
+});
+
+// Import mocked Firebase functions
+import { Timestamp, doc, getDoc, setDoc, deleteDoc, getDocs } from 'firebase/firestore';
+
+@FirestoreCollection('users')
+class User {
+  @FirestoreId()
+  uid!: string;
+
+  @FirestoreField()
+  name!: string;
+
+  @FirestoreField({ name: 'email_address' })
+  email!: string;
+
+  @FirestoreTimestamp()
+  createdAt!: Date;
+
+  // Not decorated, so never persisted
+  sessionToken?: string;
+}
+
+@FirestoreCollection('admins')
+class Admin extends User {
+  @FirestoreField()
+  permissions: string[] = [];
+}
+
+@FirestoreCollection('tags')
+class Tag {
+  id!: string;
+
+  @FirestoreField()
+  label!: string;
+}
+
+class Unmapped {
+  @FirestoreField()
+  value!: string;
+}
+
+describe('ModelManager', () => {
+  let modelManager: ModelManager;
+  const createdAt = new Date('2024-01-02T03:04:05Z');
+  const storedUser = {
+    name: 'Ada',
+    email_address: 'ada@example.com',
+    createdAt: Timestamp.fromDate(createdAt),
+    legacyField: 'ignored',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (doc as jest.Mock).mockImplementation((_firestore, path: string) => ({ path }));
+    (getDoc as jest.Mock).mockResolvedValue({ exists: () => true, data: () => storedUser });
+    (getDocs as jest.Mock).mockResolvedValue({
+      forEach: (callback: (doc: any) => void) =>
+        [{ id: 'u1', data: () => storedUser }].forEach(callback),
+    });
+
+    const service = new FirestoreService({ type: 'firestore' } as unknown as Firestore);
+    modelManager = new ModelManager(service);
+  });
+
+  describe('decorators', () => {
+    it('should record the model mapping', () => {
+      expect(getModelMetadata(User)).toEqual({
+        collectionPath: 'users',
+        idProperty: 'uid',
+        fields: [
+          { propertyKey: 'name', fieldName: 'name', kind: 'field' },
+          { propertyKey: 'email', fieldName: 'email_address', kind: 'field' },
+          { propertyKey: 'createdAt', fieldName: 'createdAt', kind: 'timestamp' },
+        ],
+      });
+    });
+
+    it('should inherit mappings from base classes', () => {
+      const metadata = getModelMetadata(Admin);
+
+      expect(metadata.collectionPath).toBe('admins');
+      expect(metadata.idProperty).toBe('uid');
+      expect(metadata.fields.map(field => field.propertyKey)).toEqual([
+        'name',
+        'email',
+        'createdAt',
+        'permissions',
+      ]);
+    });
+  });
+
+  describe('load', () => {
+    it('should load an instance with its id, renamed fields and dates', async () => {
+      const user = await modelManager.load(User, 'u1');
+
+      expect(doc).toHaveBeenCalledWith(expect.anything(), 'users/u1');
+      expect(user).toBeInstanceOf(User);
+      expect(user.uid).toBe('u1');
+      expect(user.email).toBe('ada@example.com');
+      expect(user.createdAt).toEqual(createdAt);
+      expect(user).not.toHaveProperty('legacyField');
+    });
+
+    it('should inject the id into an `id` property by default', async () => {
+      const tag = await modelManager.load(Tag, 't1');
+
+      expect(tag.id).toBe('t1');
+    });
+
+    it('should reject classes without @FirestoreCollection', async () => {
+      await expect(modelManager.load(Unmapped, 'x')).rejects.toBeInstanceOf(FirestoreError);
+    });
+  });
+
+  describe('save', () => {
+    it('should write mapped fields only, keyed by stored names', async () => {
+      const user = new User();
+      user.uid = 'u1';
+      user.name = 'Ada';
+      user.email = 'ada@example.com';
+      user.createdAt = createdAt;
+      user.sessionToken = 'secret';
+
+      const id = await modelManager.save(user);
+
+      expect(id).toBe('u1');
+      expect(setDoc).toHaveBeenCalledWith(
+        { path: 'users/u1' },
+        {
+          name: 'Ada',
+          email_address: 'ada@example.com',
+          createdAt: Timestamp.fromDate(createdAt),
+        },
+      );
+    });
+
+    it('should generate and inject an id for new instances', async () => {
+      const tag = new Tag();
+      tag.label = 'news';
+
+      const id = await modelManager.save(tag, { merge: true });
+
+      expect(id).toMatch(/^[A-Za-z0-9]{20}$/);
+      expect(tag.id).toBe(id);
+      expect(setDoc).toHaveBeenCalledWith(
+        { path: `tags/${id}` },
+        { label: 'news' },
+        { merge: true },
+      );
+    });
+
+    it('should not inject an id when the write fails', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      (setDoc as jest.Mock).mockRejectedValueOnce(new Error('Permission denied'));
+      const tag = new Tag();
+      tag.label = 'news';
+
+      await expect(modelManager.save(tag)).rejects.toThrow('Permission denied');
+
+      expect(tag.id).toBeUndefined();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('query', () => {
+    it('should return model instances', async () => {
+      const users = await modelManager.query(User, {} as QueryConstraint);
+
+      expect(users).toHaveLength(1);
+      expect(users[0]).toBeInstanceOf(User);
+      expect(users[0].uid).toBe('u1');
+      expect(users[0].createdAt).toEqual(createdAt);
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the instance document', async () => {
+      const user = new User();
+      user.uid = 'u1';
+
+      await modelManager.delete(user);
+
+      expect(deleteDoc).toHaveBeenCalledWith({ path: 'users/u1' });
+    });
+
+    it('should reject instances without an id', async () => {
+      await expect(modelManager.delete(new User())).rejects.toMatchObject({
+        code: 'invalid-argument',
+      });
+    });
+  });
+
+  describe('fieldName', () => {
+    it('should return the stored name of a property', () => {
+      expect(modelManager.fieldName(User, 'email')).toBe('email_address');
+      expect(modelManager.fieldName(User, 'name')).toBe('name');
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { FirestoreService } from '../firestore/firestore-service';
+import { OutboxRecord } from '../firestore/outbox';
+import { PubSubService } from '../pubsub/pubsub-service';
+import { InMemoryFirestore } from '../testing/in-memory-firestore';
+
+jest.mock('@google-cloud/pubsub', () => ({ PubSub: jest.fn() }));
+
+describe('Outbox', () => {
+  const event = { topic: 'orders', data: { orderId: 'o1' }, attributes: { type: 'created' } };
+  let db: InMemoryFirestore;
+  let service: FirestoreService;
+  let pubsub: PubSubService;
+  let publishMessage: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    db = new InMemoryFirestore();
+    service = db.createService();
+    pubsub = new PubSubService();
+    publishMessage = jest.spyOn(pubsub, 'publishMessage').mockResolvedValue('message-1');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should write the document and a pending record in one transaction', async () => {
+    const eventId = await service.outbox().setDocument('orders/o1', { total: 10 }, event);
+
+    expect(db.getDocumentData('orders/o1')).toEqual({ total: 10 });
+    expect(db.getDocumentData(`outbox/${eventId}`)).toMatchObject({
+      eventId,
+      topic: 'orders',
+      data: { orderId: 'o1' },
+      attributes: { type: 'created' },
+      status: 'pending',
+      attempts: 0,
+    });
+  });
+
+  it('should write neither the document nor the record when the transaction fails', async () => {
+    const outbox = service.outbox('events');
+
+    await expect(
+      service.runTransaction(async transaction => {
+        transaction.setDocument('orders/o1', { total: 10 });
+        outbox.enqueue(transaction, event);
+        throw new Error('Rejected');
+      }),
+    ).rejects.toThrow('Rejected');
+    await expect(outbox.updateDocument('orders/missing', { total: 5 }, event)).rejects.toThrow();
+
+    expect(db.listDocumentPaths('orders')).toEqual([]);
+    expect(db.listDocumentPaths('events')).toEqual([]);
+  });
+
+  it('should publish pending records with their event id and mark them sent', async () => {
+    const outbox = service.outbox();
+    const created = await outbox.setDocument('orders/o1', { total: 10 }, event);
+    const deleted = await outbox.deleteDocument('orders/o1', { topic: 'orders', data: 'o1' });
+    const relay = outbox.createRelay(pubsub);
+
+    await expect(relay.relayPending()).resolves.toEqual({ sent: 2, retrying: 0, failed: 0 });
+    await expect(relay.relayPending()).resolves.toEqual({ sent: 0, retrying: 0, failed: 0 });
+
+    // Both records were due at the same time, so either may be published first
+    expect(publishMessage).toHaveBeenCalledTimes(2);
+    expect(publishMessage.mock.calls).toEqual(
+      expect.arrayContaining([
+        ['orders', { orderId: 'o1' }, { type: 'created', eventId: created }],
+        ['orders', 'o1', { eventId: deleted }],
+      ]),
+    );
+    expect(db.getDocumentData(`outbox/${created}`)).toMatchObject({
+      status: 'sent',
+      attempts: 1,
+      messageId: 'message-1',
+    });
+    expect(db.getDocumentData('orders/o1')).toBeUndefined();
+  });
+
+  it('should keep failed records pending until the attempts run out', async () => {
+    const outbox = service.outbox();
+    const eventId = await outbox.setDocument('orders/o1', { total: 10 }, event);
+    const relay = outbox.createRelay(pubsub, { maxAttempts: 2, retryDelayMs: 0 });
+    publishMessage.mockRejectedValue(new Error('Topic not found'));
+
+    await expect(relay.relayPending()).resolves.toEqual({ sent: 0, retrying: 1, failed: 0 });
+    expect(db.getDocumentData(`outbox/${eventId}`)).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'Topic not found',
+    });
+
+    await expect(relay.relayPending()).resolves.toEqual({ sent: 0, retrying: 0, failed: 1 });
+    await expect(relay.relayPending()).resolves.toEqual({ sent: 0, retrying: 0, failed: 0 });
+    expect(db.getDocumentData(`outbox/${eventId}`)).toMatchObject({
+      status: 'failed',
+      attempts: 2,
+    });
+  });
+
+  it('should back off before retrying a failed record', async () => {
+    let now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const outbox = service.outbox();
+    const failing = await outbox.setDocument('orders/o1', { total: 10 }, event);
+    const relay = outbox.createRelay(pubsub, { retryDelayMs: 1000, maxRetryDelayMs: 1500 });
+    publishMessage.mockRejectedValueOnce(new Error('Topic not found'));
+
+    await expect(relay.relayPending()).resolves.toMatchObject({ retrying: 1 });
+    const fresh = await outbox.setDocument('orders/o2', { total: 20 }, event);
+    await expect(relay.relayPending()).resolves.toMatchObject({ sent: 1, retrying: 0 });
+    expect(publishMessage.mock.calls[1][2].eventId).toBe(fresh);
+
+    now += 1000;
+    publishMessage.mockRejectedValueOnce(new Error('Topic not found'));
+    await expect(relay.relayPending()).resolves.toMatchObject({ retrying: 1 });
+    expect(db.getDocumentData(`outbox/${failing}`)?.nextAttemptAt.toMillis()).toBe(now + 1500);
+
+    now += 1500;
+    await expect(relay.relayPending()).resolves.toMatchObject({ sent: 1 });
+    expect(db.getDocumentData(`outbox/${failing}`)).toMatchObject({ status: 'sent', attempts: 3 });
+  });
+
+  it('should publish a record again under the same event id when marking it fails', async () => {
+    const outbox = service.outbox();
+    const eventId = await outbox.setDocument('orders/o1', { total: 10 }, event);
+    const relay = outbox.createRelay(pubsub);
+    jest.spyOn(db.backend, 'updateDoc').mockRejectedValueOnce(new Error('Connection lost'));
+
+    await expect(relay.relayPending()).rejects.toThrow('Connection lost');
+    await relay.relayPending();
+
+    const eventIds = publishMessage.mock.calls.map(call => call[2].eventId);
+    expect(eventIds).toEqual([eventId, eventId]);
+    expect(db.getDocumentData(`outbox/${eventId}`)).toMatchObject({ status: 'sent' });
+  });
+
+  it('should relay at most batchSize records per call', async () => {
+    const outbox = service.outbox();
+    for (let i = 0; i < 3; i++) {
+      await outbox.setDocument(`orders/o${i}`, { total: i }, event);
+    }
+
+    const relay = outbox.createRelay(pubsub, { batchSize: 2 });
+
+    await expect(relay.relayPending()).resolves.toMatchObject({ sent: 2 });
+    await expect(relay.relayPending()).resolves.toMatchObject({ sent: 1 });
+  });
+
+  it('should reject events without a topic', async () => {
+    await expect(
+      service.outbox().setDocument('orders/o1', { total: 10 }, { topic: '', data: 'x' }),
+    ).rejects.toMatchObject({ code: 'invalid-argument' });
+
+    const records = await service.query<OutboxRecord>('outbox');
+    expect(records).toEqual([]);
+  });
+});
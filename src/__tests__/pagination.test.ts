@@ -0,0 +1,174 @@
+import { Firestore, QueryConstraint } from 'firebase/firestore';
+import { FirestoreError, FirestoreService } from '../firestore/firestore-service';
+import { decodeCursor, encodeCursor } from '../firestore/pagination';
+
+// Mock Firebase Firestore
+jest.mock('firebase/firestore', () => {
+  return {
+    doc: jest.fn(),
+    getDoc: jest.fn(),
+    collection: jest.fn(),
+    query: jest.fn(),
+    getDocs: jest.fn(),
+    startAfter: jest.fn(),
+    limit: jest.fn(),
+  };
+});
+
+// Import mocked Firebase functions
+import {
+  doc,
+  getDoc,
+  collection,
+  query as firestoreQuery,
+  getDocs,
+  startAfter,
+  limit,
+} from 'firebase/firestore';
+
+describe('pagination', () => {
+  let firestoreService: FirestoreService;
+  let storedIds: string[];
+
+  const snapshotFor = (id: string) => ({
+    id,
+    ref: { path: `users/${id}` },
+    exists: () => storedIds.includes(id),
+    data: () => ({ name: `User ${id}` }),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    storedIds = ['a', 'b', 'c', 'd', 'e'];
+
+    (doc as jest.Mock).mockImplementation((_firestore, path: string) => ({ path }));
+    (getDoc as jest.Mock).mockImplementation(async (ref: { path: string }) =>
+      snapshotFor(ref.path.split('/')[1]),
+    );
+    (collection as jest.Mock).mockReturnValue({});
+    (limit as jest.Mock).mockImplementation((n: number) => ({ type: 'limit', n }));
+    (startAfter as jest.Mock).mockImplementation(snapshot => ({ type: 'startAfter', snapshot }));
+    (firestoreQuery as jest.Mock).mockImplementation((_ref, ...constraints) => ({ constraints }));
+    (getDocs as jest.Mock).mockImplementation(async ({ constraints }) => {
+      const after = constraints.find((c: any) => c.type === 'startAfter');
+      const max = constraints.find((c: any) => c.type === 'limit').n;
+      const start = after ? storedIds.indexOf(after.snapshot.id) + 1 : 0;
+      return { docs: storedIds.slice(start, start + max).map(snapshotFor) };
+    });
+
+    firestoreService = new FirestoreService({ type: 'firestore' } as unknown as Firestore);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('cursor tokens', () => {
+    it('should round trip a document path', () => {
+      const cursor = encodeCursor('users/a+b/c');
+
+      expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeCursor(cursor)).toBe('users/a+b/c');
+    });
+
+    it('should survive JSON serialization', () => {
+      const cursor = encodeCursor('users/abc');
+      const response = JSON.parse(JSON.stringify({ nextCursor: cursor }));
+
+      expect(decodeCursor(response.nextCursor)).toBe('users/abc');
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(decodeCursor('not a cursor')).toBeNull();
+      expect(decodeCursor(Buffer.from('{"v":2,"p":"x"}').toString('base64'))).toBeNull();
+    });
+  });
+
+  describe('paginate', () => {
+    it('should return the first page and a cursor for the next one', async () => {
+      const constraint = { type: 'where' } as unknown as QueryConstraint;
+
+      const page = await firestoreService.paginate<{ name: string }>('users', 2, constraint);
+
+      expect(firestoreQuery).toHaveBeenCalledWith({}, constraint, { type: 'limit', n: 3 });
+      expect(page.items).toEqual([
+        { id: 'a', name: 'User a' },
+        { id: 'b', name: 'User b' },
+      ]);
+      expect(decodeCursor(String(page.nextCursor))).toBe('users/b');
+    });
+
+    it('should continue from a cursor until the last page', async () => {
+      const first = await firestoreService.paginate('users', 2);
+      const second = await firestoreService.paginate('users', {
+        pageSize: 2,
+        cursor: first.nextCursor,
+      });
+      const third = await firestoreService.paginate('users', {
+        pageSize: 2,
+        cursor: second.nextCursor,
+      });
+
+      expect(second.items.map(item => item.id)).toEqual(['c', 'd']);
+      expect(third.items.map(item => item.id)).toEqual(['e']);
+      expect(third.nextCursor).toBeNull();
+    });
+
+    it('should not return a cursor when the last page is exactly full', async () => {
+      const page = await firestoreService.paginate('users', 5);
+
+      expect(page.items).toHaveLength(5);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('should reject cursors from another collection', async () => {
+      const promise = firestoreService.paginate('users', {
+        pageSize: 2,
+        cursor: encodeCursor('posts/a'),
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(FirestoreError);
+      await expect(promise).rejects.toMatchObject({ code: 'invalid-argument' });
+    });
+
+    it('should reject cursors whose document was deleted', async () => {
+      const first = await firestoreService.paginate('users', 2);
+      storedIds = storedIds.filter(id => id !== 'b');
+
+      await expect(
+        firestoreService.paginate('users', { pageSize: 2, cursor: first.nextCursor }),
+      ).rejects.toMatchObject({ path: 'users/b', code: 'not-found' });
+    });
+
+    it('should reject invalid page sizes', async () => {
+      await expect(firestoreService.paginate('users', 0)).rejects.toMatchObject({
+        code: 'invalid-argument',
+      });
+    });
+  });
+
+  describe('iterate', () => {
+    it('should stream every document page by page', async () => {
+      const ids: string[] = [];
+
+      for await (const user of firestoreService.iterate<{ name: string }>('users', 2)) {
+        ids.push(user.id);
+      }
+
+      expect(ids).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(getDocs).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop early when the consumer breaks', async () => {
+      for await (const user of firestoreService.iterate('users', 2)) {
+        if (user.id === 'a') {
+          break;
+        }
+      }
+
+      expect(getDocs).toHaveBeenCalledTimes(1);
+    });
+  });
+});
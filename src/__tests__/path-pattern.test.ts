@@ -0,0 +1,55 @@
+import {
+  documentMatchesPattern,
+  matchPathPattern,
+  parseParentIds,
+  splitPath,
+} from '../firestore/path-pattern';
+
+describe('path patterns', () => {
+  describe('splitPath', () => {
+    it('should ignore leading and trailing slashes', () => {
+      expect(splitPath('/users/123/')).toEqual(['users', '123']);
+    });
+  });
+
+  describe('matchPathPattern', () => {
+    it('should capture placeholder segments', () => {
+      expect(matchPathPattern('users/{uid}/posts/{postId}', 'users/u1/posts/p1')).toEqual({
+        uid: 'u1',
+        postId: 'p1',
+      });
+    });
+
+    it('should match wildcards and literals', () => {
+      expect(matchPathPattern('users/*/posts', 'users/u1/posts')).toEqual({});
+      expect(matchPathPattern('users/*/posts', 'users/u1/comments')).toBeNull();
+    });
+
+    it('should not match paths of a different length', () => {
+      expect(matchPathPattern('users/{uid}', 'users/u1/posts')).toBeNull();
+    });
+  });
+
+  describe('documentMatchesPattern', () => {
+    it('should match documents inside a collection pattern', () => {
+      expect(documentMatchesPattern('users', 'users/u1')).toBe(true);
+      expect(documentMatchesPattern('users/{uid}/posts', 'users/u1/posts/p1')).toBe(true);
+      expect(documentMatchesPattern('users', 'users/u1/posts/p1')).toBe(false);
+    });
+
+    it('should match documents against a document pattern', () => {
+      expect(documentMatchesPattern('config/{name}', 'config/app')).toBe(true);
+      expect(documentMatchesPattern('config/app', 'config/other')).toBe(false);
+    });
+  });
+
+  describe('parseParentIds', () => {
+    it('should key ancestor ids by collection name', () => {
+      expect(parseParentIds('users/u1/posts/p1/comments/c1')).toEqual({ users: 'u1', posts: 'p1' });
+    });
+
+    it('should return no ids for top-level documents', () => {
+      expect(parseParentIds('users/u1')).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { FirestoreError } from '../firestore/firestore-error';
+import { CollectionPath, DocumentPath, path } from '../firestore/path-template';
+import { InMemoryFirestore } from '../testing/in-memory-firestore';
+
+describe('path templates', () => {
+  const userPost = path('users/{uid}/posts/{postId}');
+
+  it('should build paths from named params', () => {
+    const built: DocumentPath = userPost.build({ uid: 'u1', postId: 'p1' });
+
+    expect(built).toBe('users/u1/posts/p1');
+    expect(userPost.params).toEqual(['uid', 'postId']);
+    expect(userPost.kind).toBe('document');
+  });
+
+  it('should build collection paths from odd-length templates', () => {
+    const posts = path('users/{uid}/posts', 'collection');
+    const built: CollectionPath = posts.build({ uid: 'u1' });
+
+    expect(built).toBe('users/u1/posts');
+    expect(posts.kind).toBe('collection');
+  });
+
+  it('should require exactly the named params', () => {
+    // @ts-expect-error postId is missing
+    expect(() => userPost.build({ uid: 'u1' })).toThrow("Invalid value for 'postId'");
+    // @ts-expect-error extra is not a placeholder
+    expect(() => userPost.build({ uid: 'u1', postId: 'p1', extra: 'x' })).toThrow(
+      'Unknown params for path template',
+    );
+  });
+
+  it('should reject ids Firestore does not allow', () => {
+    expect(() => userPost.build({ uid: '', postId: 'p1' })).toThrow(FirestoreError);
+    expect(() => userPost.build({ uid: '..', postId: 'p1' })).toThrow(FirestoreError);
+  });
+
+  it('should escape slashes in ids and restore them when parsing', () => {
+    const built = userPost.build({ uid: 'a/b', postId: '100%' });
+
+    expect(built).toBe('users/a%2Fb/posts/100%25');
+    expect(userPost.parse(built)).toEqual({ uid: 'a/b', postId: '100%' });
+  });
+
+  it('should parse concrete paths back into params', () => {
+    expect(userPost.parse('users/u1/posts/p1')).toEqual({ uid: 'u1', postId: 'p1' });
+    expect(userPost.matches('users/u1/comments/c1')).toBe(false);
+    expect(userPost.matches('users/u1/posts')).toBe(false);
+    expect(() => userPost.parse('users/u1')).toThrow('does not match template');
+  });
+
+  it('should validate the template and its kind', () => {
+    expect(() => path('users//posts')).toThrow('segments must not be empty');
+    expect(() => path('users/{uid}/{uid}/x')).toThrow("duplicate placeholder 'uid'");
+    expect(() => path('users/id-{uid}')).toThrow('placeholders must fill a whole segment');
+    // @ts-expect-error a two-segment template is a document path
+    expect(() => path('users/{uid}', 'collection')).toThrow(
+      "Path template 'users/{uid}' is a document path, expected a collection path",
+    );
+  });
+
+  it('should plug into FirestoreService methods', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const db = new InMemoryFirestore();
+    const service = db.createService();
+    const posts = path('users/{uid}/posts');
+
+    await service.setDocument(userPost.build({ uid: 'u1', postId: 'p1' }), { title: 'Hi' });
+
+    await expect(
+      service.getDocument(userPost.build({ uid: 'u1', postId: 'p1' })),
+    ).resolves.toMatchObject({ title: 'Hi' });
+    expect((await service.query(posts.build({ uid: 'u1' }))).map(doc => doc.id)).toEqual(['p1']);
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,135 @@
+import { where, orderBy, limit, limitToLast, startAfter, endBefore } from 'firebase/firestore';
+import { QueryBuilder, toQueryConstraints } from '../firestore/query-builder';
+
+// Mock Firebase Firestore constraint factories
+jest.mock('firebase/firestore', () => ({
+  where: jest.fn((field, op, value) => ({ type: 'where', field, op, value })),
+  orderBy: jest.fn((field, direction) => ({ type: 'orderBy', field, direction })),
+  limit: jest.fn(count => ({ type: 'limit', count })),
+  limitToLast: jest.fn(count => ({ type: 'limitToLast', count })),
+  startAt: jest.fn((...values) => ({ type: 'startAt', values })),
+  startAfter: jest.fn((...values) => ({ type: 'startAfter', values })),
+  endAt: jest.fn((...values) => ({ type: 'endAt', values })),
+  endBefore: jest.fn((...values) => ({ type: 'endBefore', values })),
+}));
+
+interface User {
+  name: string;
+  age: number;
+  tags: string[];
+  nickname?: string;
+  address: {
+    city: string;
+    geo: { lat: number };
+  };
+}
+
+describe('QueryBuilder', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should compile fluent calls to constraints in order', () => {
+    const constraints = new QueryBuilder<User>()
+      .where('age', '>=', 18)
+      .where('address.city', '==', 'Oslo')
+      .orderBy('name', 'desc')
+      .startAfter('Bob')
+      .endBefore('Alice')
+      .limit(10)
+      .build();
+
+    expect(where).toHaveBeenCalledWith('age', '>=', 18);
+    expect(where).toHaveBeenCalledWith('address.city', '==', 'Oslo');
+    expect(orderBy).toHaveBeenCalledWith('name', 'desc');
+    expect(startAfter).toHaveBeenCalledWith('Bob');
+    expect(endBefore).toHaveBeenCalledWith('Alice');
+    expect(limit).toHaveBeenCalledWith(10);
+    expect(constraints.map(c => c.type)).toEqual([
+      'where',
+      'where',
+      'orderBy',
+      'startAfter',
+      'endBefore',
+      'limit',
+    ]);
+  });
+
+  it('should support array and membership operators', () => {
+    new QueryBuilder<User>()
+      .where('tags', 'array-contains', 'admin')
+      .where('tags', 'array-contains-any', ['a', 'b'])
+      .where('address.geo.lat', 'in', [1, 2])
+      .limitToLast(3)
+      .build();
+
+    expect(where).toHaveBeenCalledWith('tags', 'array-contains', 'admin');
+    expect(where).toHaveBeenCalledWith('tags', 'array-contains-any', ['a', 'b']);
+    expect(where).toHaveBeenCalledWith('address.geo.lat', 'in', [1, 2]);
+    expect(limitToLast).toHaveBeenCalledWith(3);
+  });
+
+  it('should add declarative filters', () => {
+    new QueryBuilder<User>().filter({ field: 'nickname', operator: '!=', value: 'x' }).build();
+
+    expect(where).toHaveBeenCalledWith('nickname', '!=', 'x');
+  });
+
+  it('should return a copy of its constraints', () => {
+    const builder = new QueryBuilder<User>().limit(1);
+    builder.build().push(limit(5));
+
+    expect(builder.build()).toHaveLength(1);
+  });
+
+  it('should reject mistyped fields, operators and values at compile time', () => {
+    const builder = new QueryBuilder<User>();
+
+    // @ts-expect-error unknown field
+    builder.where('email', '==', 'a@b.c');
+    // @ts-expect-error value must match the field type
+    builder.where('age', '<', '40');
+    // @ts-expect-error array operators only apply to array fields
+    builder.where('name', 'array-contains', 'a');
+    // @ts-expect-error 'in' takes an array of values
+    builder.where('age', 'in', 1);
+    // @ts-expect-error unknown nested field
+    builder.orderBy('address.zip');
+
+    expect(where).toHaveBeenCalled();
+  });
+});
+
+describe('toQueryConstraints', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should flatten raw constraints, builders and filter arrays in order', () => {
+    const raw = limit(5);
+    const constraints = toQueryConstraints<User>([
+      [
+        { field: 'age', operator: '<', value: 40 },
+        { field: 'tags', operator: 'array-contains', value: 'admin' },
+      ],
+      new QueryBuilder<User>().orderBy('age'),
+      raw,
+    ]);
+
+    expect(constraints).toEqual([
+      { type: 'where', field: 'age', op: '<', value: 40 },
+      { type: 'where', field: 'tags', op: 'array-contains', value: 'admin' },
+      { type: 'orderBy', field: 'age', direction: undefined },
+      raw,
+    ]);
+  });
+
+  it('should type-check declarative filters', () => {
+    // @ts-expect-error value must match the field type
+    toQueryConstraints<User>([[{ field: 'age', operator: '==', value: 'old' }]]);
+    // @ts-expect-error array operators only apply to array fields
+    toQueryConstraints<User>([[{ field: 'age', operator: 'array-contains', value: 1 }]]);
+
+    expect(where).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  Timestamp,
+  arrayUnion,
+  deleteField,
+  increment,
+  serverTimestamp,
+  where,
+} from 'firebase/firestore';
+import { FirestoreError } from '../firestore/firestore-error';
+import { FirestoreService } from '../firestore/firestore-service';
+import * as internalUtils from '../firestore/internal-utils';
+import { PageRequest } from '../firestore/pagination';
+import { RetryPolicy, isIdempotentWrite } from '../firestore/retry-policy';
+import { InMemoryFirestore } from '../testing/in-memory-firestore';
+
+/**
+ * Creates an error shaped like the ones the Firebase SDK throws
+ */
+function sdkError(code: string): Error {
+  return Object.assign(new Error(`Simulated ${code}`), { code });
+}
+
+describe('RetryPolicy', () => {
+  let sleep: jest.SpyInstance;
+
+  beforeEach(() => {
+    sleep = jest.spyOn(internalUtils, 'sleep').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should retry transient errors with exponential backoff', async () => {
+    const policy = new RetryPolicy({ initialDelayMs: 100, jitter: false, maxAttempts: 4 });
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(sdkError('unavailable'))
+      .mockRejectedValueOnce(sdkError('deadline-exceeded'))
+      .mockResolvedValue('done');
+
+    await expect(policy.run(operation)).resolves.toBe('done');
+
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+  });
+
+  it('should cap delays and apply jitter', async () => {
+    const policy = new RetryPolicy({ initialDelayMs: 1000, maxDelayMs: 1500, maxAttempts: 3 });
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    await policy.run(jest.fn().mockRejectedValue(sdkError('unavailable'))).catch(() => undefined);
+
+    expect(sleep.mock.calls).toEqual([[500], [750]]);
+  });
+
+  it('should report the attempt count on the final error', async () => {
+    const policy = new RetryPolicy(true);
+
+    const error = (await policy
+      .run(jest.fn().mockRejectedValue(sdkError('unavailable')), { path: 'users/u1' })
+      .catch(e => e)) as FirestoreError;
+
+    expect(error).toBeInstanceOf(FirestoreError);
+    expect(error).toMatchObject({ code: 'unavailable', path: 'users/u1', attempts: 3 });
+    expect(error.originalError?.message).toBe('Simulated unavailable');
+  });
+
+  it('should not retry other errors or operations that are unsafe to repeat', async () => {
+    const policy = new RetryPolicy(true);
+    const denied = jest.fn().mockRejectedValue(sdkError('permission-denied'));
+    const unsafe = jest.fn().mockRejectedValue(sdkError('unavailable'));
+
+    await expect(policy.run(denied)).rejects.toMatchObject({ attempts: 1 });
+    await expect(policy.run(unsafe, { idempotent: false })).rejects.toMatchObject({ attempts: 1 });
+
+    expect(denied).toHaveBeenCalledTimes(1);
+    expect(unsafe).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply per-call overrides', async () => {
+    const failing = () => jest.fn().mockRejectedValue(sdkError('permission-denied'));
+    const disabled = new RetryPolicy();
+    const enabled = new RetryPolicy({ retryableCodes: ['permission-denied'] });
+
+    const plain = await disabled.run(failing()).catch(e => e);
+    const enabledPerCall = failing();
+    await disabled
+      .run(enabledPerCall, { override: { retryableCodes: ['permission-denied'] } })
+      .catch(() => undefined);
+    const disabledPerCall = failing();
+    await enabled.run(disabledPerCall, { override: false }).catch(() => undefined);
+
+    expect(plain).not.toBeInstanceOf(FirestoreError);
+    expect(enabledPerCall).toHaveBeenCalledTimes(3);
+    expect(disabledPerCall).toHaveBeenCalledTimes(1);
+  });
+
+  it('should treat sentinels other than serverTimestamp and deleteField as unsafe to repeat', () => {
+    expect(
+      isIdempotentWrite({ name: 'Ann', nickname: deleteField(), updatedAt: serverTimestamp() }),
+    ).toBe(true);
+    expect(isIdempotentWrite({ stats: { likes: increment(1) } })).toBe(false);
+    expect(isIdempotentWrite({ tags: arrayUnion('new') })).toBe(false);
+  });
+
+  describe('FirestoreService integration', () => {
+    let db: InMemoryFirestore;
+    let service: FirestoreService;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      db = new InMemoryFirestore({ 'users/u1': { name: 'Ann', visits: 0 } });
+      service = db.createService({ retry: { maxAttempts: 2 } });
+    });
+
+    it('should retry reads and queries that fail transiently', async () => {
+      const getDoc = jest
+        .spyOn(db.backend, 'getDoc')
+        .mockRejectedValueOnce(sdkError('unavailable'));
+      const getDocs = jest
+        .spyOn(db.backend, 'getDocs')
+        .mockRejectedValueOnce(sdkError('unavailable'));
+
+      await expect(service.getDocument('users/u1')).resolves.toEqual({ name: 'Ann', visits: 0 });
+      await expect(service.query('users')).resolves.toHaveLength(1);
+
+      expect(getDoc).toHaveBeenCalledTimes(2);
+      expect(getDocs).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry idempotent writes but not increments', async () => {
+      const updateDoc = jest
+        .spyOn(db.backend, 'updateDoc')
+        .mockRejectedValueOnce(sdkError('unavailable'));
+
+      await service.updateDocument('users/u1', { name: 'Annie' });
+      updateDoc.mockRejectedValueOnce(sdkError('unavailable'));
+      const error = await service
+        .updateDocument('users/u1', { visits: increment(1) })
+        .catch(e => e);
+
+      expect(db.getDocumentData('users/u1')).toEqual({ name: 'Annie', visits: 0 });
+      expect(error).toMatchObject({ code: 'unavailable', attempts: 1 });
+      expect(updateDoc).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after the configured attempts', async () => {
+      jest.spyOn(db.backend, 'setDoc').mockRejectedValue(sdkError('unavailable'));
+
+      await expect(service.setDocument('users/u2', { name: 'Bob' })).rejects.toMatchObject({
+        code: 'unavailable',
+        path: 'users/u2',
+        attempts: 2,
+      });
+    });
+
+    it('should let queries, aggregations and iteration override the service policy', async () => {
+      const getDocs = jest.spyOn(db.backend, 'getDocs').mockRejectedValue(sdkError('unavailable'));
+      const aggregate = jest
+        .spyOn(db.backend, 'getAggregateFromServer')
+        .mockRejectedValue(sdkError('unavailable'));
+      const iterate = async (page: PageRequest) => {
+        for await (const user of service.iterate('users', page)) {
+          expect(user).toBeDefined();
+        }
+      };
+
+      await expect(service.query('users', { retry: false })).rejects.toThrow();
+      await expect(service.query('users', where('name', '==', 'Ann'))).rejects.toThrow();
+      await expect(service.queryGroup('users', { retry: { maxAttempts: 3 } })).rejects.toThrow();
+      await expect(iterate({ pageSize: 10, retry: false })).rejects.toThrow();
+      expect(getDocs).toHaveBeenCalledTimes(1 + 2 + 3 + 1);
+
+      await expect(service.count('users', { retry: false })).rejects.toThrow();
+      await expect(service.count('users')).rejects.toMatchObject({ attempts: 2 });
+      expect(aggregate).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry restoring and purging soft-deleted documents', async () => {
+      service = db.createService({ retry: { maxAttempts: 2 }, softDelete: true });
+      db.seed({
+        'users/u2': { name: 'Bob', deletedAt: Timestamp.fromDate(new Date('2020-01-01')) },
+      });
+      const updateDoc = jest
+        .spyOn(db.backend, 'updateDoc')
+        .mockRejectedValueOnce(sdkError('unavailable'));
+      const getDocs = jest
+        .spyOn(db.backend, 'getDocs')
+        .mockRejectedValueOnce(sdkError('unavailable'));
+
+      await service.deleteDocument('users/u1');
+      await service.restoreDocument('users/u1');
+      await expect(service.purgeDeleted('users', new Date('2024-01-01'))).resolves.toBe(1);
+
+      expect(db.getDocumentData('users/u1')).toMatchObject({ name: 'Ann', deletedAt: null });
+      expect(db.listDocumentPaths()).toEqual(['users/u1']);
+      expect(updateDoc).toHaveBeenCalledTimes(3);
+      expect(getDocs).toHaveBeenCalledTimes(2);
+    });
+
+    it('should let calls override the service policy', async () => {
+      const deleteDoc = jest.spyOn(db.backend, 'deleteDoc').mockRejectedValue(sdkError('aborted'));
+
+      await expect(service.deleteDocument('users/u1', { retry: false })).rejects.toThrow(
+        'Simulated aborted',
+      );
+      await expect(
+        service.deleteDocument('users/u1', { retry: { maxAttempts: 5 } }),
+      ).rejects.toMatchObject({ attempts: 5 });
+      expect(deleteDoc).toHaveBeenCalledTimes(6);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { Firestore } from 'firebase/firestore';
+import { FirestoreError, FirestoreService } from '../firestore/firestore-service';
+import {
+  DocumentSchema,
+  FirestoreValidationError,
+  SafeParseResult,
+  SchemaValidator,
+  ValidationIssue,
+} from '../firestore/schema-validation';
+
+// Mock Firebase Firestore
+jest.mock('firebase/firestore', () => {
+  class FieldValue {}
+  return {
+    FieldValue,
+    serverTimestamp: jest.fn(() => new FieldValue()),
+    doc: jest.fn(),
+    getDoc: jest.fn(),
+    setDoc: jest.fn(),
+    updateDoc: jest.fn(),
+    collection: jest.fn(),
+    query: jest.fn(),
+    getDocs: jest.fn(),
+  };
+});
+
+// Import mocked Firebase functions
+import { doc, getDoc, setDoc, updateDoc, getDocs, serverTimestamp } from 'firebase/firestore';
+
+type FieldType = 'string' | 'number' | 'object' | 'any';
+
+/**
+ * Minimal zod-like object schema: every listed field is required and type-checked
+ */
+function objectSchema(
+  shape: Record<string, FieldType | Record<string, FieldType>>,
+): DocumentSchema<any> {
+  const check = (
+    value: any,
+    fields: Record<string, FieldType | Record<string, FieldType>>,
+    prefix: string[],
+  ): ValidationIssue[] =>
+    Object.entries(fields).flatMap(([key, type]) => {
+      const fieldValue = value?.[key];
+      const path = [...prefix, key];
+      if (typeof type === 'object') {
+        return typeof fieldValue === 'object' && fieldValue !== null
+          ? check(fieldValue, type, path)
+          : [{ path, message: 'Expected object' }];
+      }
+      if (type === 'any') {
+        return fieldValue === undefined ? [{ path, message: 'Required' }] : [];
+      }
+      return typeof fieldValue === type ? [] : [{ path, message: `Expected ${type}` }];
+    });
+
+  return {
+    safeParse(data: unknown): SafeParseResult<any> {
+      const issues = check(data, shape, []);
+      return issues.length === 0 ? { success: true, data } : { success: false, error: { issues } };
+    },
+  };
+}
+
+const userSchema = objectSchema({
+  name: 'string',
+  age: 'number',
+  createdAt: 'any',
+  address: { city: 'string', zip: 'string' },
+});
+
+const validUser = {
+  name: 'Ada',
+  age: 36,
+  createdAt: 1,
+  address: { city: 'London', zip: 'N1' },
+};
+
+describe('SchemaValidator', () => {
+  let validator: SchemaValidator;
+
+  beforeEach(() => {
+    validator = new SchemaValidator();
+    validator.register('users', userSchema);
+  });
+
+  it('should accept valid documents', () => {
+    expect(() => validator.validateWrite('users/u1', validUser, 'set')).not.toThrow();
+    expect(() => validator.validateRead('users/u1', validUser)).not.toThrow();
+  });
+
+  it('should ignore paths without a registered schema', () => {
+    expect(() => validator.validateWrite('posts/p1', { anything: true }, 'set')).not.toThrow();
+  });
+
+  it('should list the offending field paths', () => {
+    let caught: FirestoreValidationError | undefined;
+    try {
+      validator.validateWrite(
+        'users/u1',
+        { ...validUser, age: 'old', address: { city: 1 } },
+        'set',
+      );
+    } catch (error) {
+      caught = error as FirestoreValidationError;
+    }
+
+    expect(caught).toBeInstanceOf(FirestoreValidationError);
+    expect(caught).toBeInstanceOf(FirestoreError);
+    expect(caught).toMatchObject({
+      path: 'users/u1',
+      code: 'invalid-argument',
+      fieldPaths: ['age', 'address.city', 'address.zip'],
+      message: 'Invalid data for document at users/u1 (fields: age, address.city, address.zip)',
+    });
+  });
+
+  it('should only check written fields for updates', () => {
+    expect(() => validator.validateWrite('users/u1', { age: 37 }, 'update')).not.toThrow();
+    expect(() =>
+      validator.validateWrite('users/u1', { 'address.city': 'Paris' }, 'update'),
+    ).not.toThrow();
+    expect(() => validator.validateWrite('users/u1', { 'address.city': 5 }, 'update')).toThrow(
+      FirestoreValidationError,
+    );
+  });
+
+  it('should require complete nested values for updates but not for merges', () => {
+    const partialAddress = { address: { city: 'Paris' } };
+
+    expect(() => validator.validateWrite('users/u1', partialAddress, 'update')).toThrow(
+      /address\.zip/,
+    );
+    expect(() => validator.validateWrite('users/u1', partialAddress, 'merge')).not.toThrow();
+  });
+
+  it('should not check fields set to FieldValue sentinels', () => {
+    const data = { ...validUser, name: serverTimestamp() };
+
+    expect(() => validator.validateWrite('users/u1', data, 'set')).not.toThrow();
+  });
+
+  it('should report instead of rejecting invalid reads in report mode', () => {
+    const onInvalidRead = jest.fn();
+    validator.register('users', userSchema, { readMode: 'report', onInvalidRead });
+
+    expect(() => validator.validateRead('users/u1', { name: 'Ada' })).not.toThrow();
+    expect(onInvalidRead).toHaveBeenCalledWith(expect.any(FirestoreValidationError));
+    expect(onInvalidRead.mock.calls[0][0].fieldPaths).toContain('age');
+  });
+
+  it('should stop validating after unregistering', () => {
+    validator.unregister('users');
+
+    expect(() => validator.validateRead('users/u1', {})).not.toThrow();
+  });
+});
+
+describe('FirestoreService validation', () => {
+  let firestoreService: FirestoreService;
+  let storedData: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    storedData = validUser;
+    (doc as jest.Mock).mockImplementation((_firestore, path: string) => ({ path }));
+    (getDoc as jest.Mock).mockImplementation(async () => ({
+      exists: () => true,
+      data: () => storedData,
+    }));
+    (getDocs as jest.Mock).mockImplementation(async () => ({
+      forEach: (callback: (doc: any) => void) =>
+        [{ id: 'u1', data: () => storedData }].forEach(callback),
+    }));
+
+    firestoreService = new FirestoreService({ type: 'firestore' } as unknown as Firestore);
+    firestoreService.registerValidator('users', userSchema);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reject invalid payloads before sending them', async () => {
+    await expect(
+      firestoreService.setDocument('users/u1', { ...validUser, age: 'old' }),
+    ).rejects.toBeInstanceOf(FirestoreValidationError);
+    await expect(firestoreService.updateDocument('users/u1', { name: 42 })).rejects.toMatchObject({
+      fieldPaths: ['name'],
+    });
+
+    expect(setDoc).not.toHaveBeenCalled();
+    expect(updateDoc).not.toHaveBeenCalled();
+  });
+
+  it('should send valid payloads', async () => {
+    await firestoreService.setDocument('users/u1', validUser);
+    await firestoreService.setDocument('users/u1', { age: 40 }, { merge: true });
+    await firestoreService.updateDocument('users/u1', { age: 41 });
+
+    expect(setDoc).toHaveBeenCalledTimes(2);
+    expect(updateDoc).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid documents on read', async () => {
+    storedData = { name: 'Legacy' };
+
+    await expect(firestoreService.getDocument('users/u1')).rejects.toMatchObject({
+      name: 'FirestoreValidationError',
+      path: 'users/u1',
+    });
+    await expect(firestoreService.query('users')).rejects.toBeInstanceOf(FirestoreValidationError);
+  });
+
+  it('should return invalid documents when reporting', async () => {
+    const onInvalidRead = jest.fn();
+    firestoreService.registerValidator('users', userSchema, { readMode: 'report', onInvalidRead });
+    storedData = { name: 'Legacy' };
+
+    const result = await firestoreService.query('users');
+
+    expect(result).toEqual([{ id: 'u1', name: 'Legacy' }]);
+    expect(onInvalidRead).toHaveBeenCalledTimes(1);
+  });
+});
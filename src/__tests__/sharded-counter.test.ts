@@ -0,0 +1,97 @@
+import { FirestoreError } from '../firestore/firestore-error';
+import { FirestoreService } from '../firestore/firestore-service';
+import { InMemoryFirestore } from '../testing/in-memory-firestore';
+
+describe('ShardedCounter', () => {
+  const path = 'posts/p1/counters/likes';
+  let db: InMemoryFirestore;
+  let service: FirestoreService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    db = new InMemoryFirestore();
+    service = db.createService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should create a counter with zeroed shards', async () => {
+    await service.createCounter(path, 3);
+
+    expect(db.getDocumentData(path)).toEqual({ shardCount: 3 });
+    expect(db.listDocumentPaths(`${path}/shards`)).toEqual([
+      `${path}/shards/0`,
+      `${path}/shards/1`,
+      `${path}/shards/2`,
+    ]);
+    await expect(service.getCounter(path)).resolves.toBe(0);
+  });
+
+  it('should refuse to create a counter twice', async () => {
+    await service.createCounter(path, 2);
+
+    await expect(service.createCounter(path, 2)).rejects.toMatchObject({
+      code: 'already-exists',
+    });
+  });
+
+  it('should increment a random shard and sum all shards', async () => {
+    await service.createCounter(path, 4);
+    const random = jest.spyOn(Math, 'random');
+
+    random.mockReturnValueOnce(0.1);
+    await service.incrementCounter(path);
+    random.mockReturnValueOnce(0.9);
+    await service.incrementCounter(path, 5);
+    random.mockReturnValueOnce(0.9);
+    await service.incrementCounter(path, -2);
+
+    expect(db.getDocumentData(`${path}/shards/0`)).toEqual({ count: 1 });
+    expect(db.getDocumentData(`${path}/shards/3`)).toEqual({ count: 3 });
+    await expect(service.getCounter(path)).resolves.toBe(4);
+  });
+
+  it('should keep every increment made concurrently', async () => {
+    await service.createCounter(path, 2);
+
+    await Promise.all(Array.from({ length: 20 }, () => service.incrementCounter(path)));
+
+    await expect(service.getCounter(path)).resolves.toBe(20);
+  });
+
+  it('should keep the value when re-sharding', async () => {
+    await service.createCounter(path, 5);
+    await Promise.all(Array.from({ length: 10 }, () => service.incrementCounter(path)));
+
+    await service.reshardCounter(path, 2);
+
+    expect(db.getDocumentData(path)).toEqual({ shardCount: 2 });
+    expect(db.listDocumentPaths(`${path}/shards`)).toHaveLength(2);
+    await expect(service.getCounter(path)).resolves.toBe(10);
+
+    await service.reshardCounter(path, 8);
+    await service.incrementCounter(path);
+    await expect(service.getCounter(path)).resolves.toBe(11);
+  });
+
+  it('should fail for counters that do not exist', async () => {
+    await expect(service.incrementCounter('counters/missing')).rejects.toMatchObject({
+      code: 'not-found',
+    });
+    await expect(service.getCounter('counters/missing')).rejects.toThrow(FirestoreError);
+  });
+
+  it('should validate shard counts and deltas', async () => {
+    await expect(service.createCounter(path, 0)).rejects.toThrow(
+      'Counter shard count must be a whole number from 1 to 499, got 0',
+    );
+    await expect(service.createCounter(path, 1.5)).rejects.toMatchObject({
+      code: 'invalid-argument',
+    });
+    await expect(service.incrementCounter(path, NaN)).rejects.toThrow(
+      'Counter delta must be a finite number, got NaN',
+    );
+  });
+});
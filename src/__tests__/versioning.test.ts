@@ -0,0 +1,128 @@
+import { DocumentVersioning, FirestoreConflictError } from '../firestore/versioning';
+import { FirestoreError } from '../firestore/firestore-error';
+import { FirestoreService } from '../firestore/firestore-service';
+import { InMemoryFirestore } from '../testing/in-memory-firestore';
+
+describe('DocumentVersioning', () => {
+  it('should stamp a new token on every write', () => {
+    const versioning = new DocumentVersioning(true);
+
+    const first = versioning.stamp({ name: 'Ann' });
+    const second = versioning.stamp({ name: 'Ann' });
+
+    expect(first._version).toMatch(/^[A-Za-z0-9]{20}$/);
+    expect(second._version).not.toBe(first._version);
+  });
+
+  it('should use a custom field and leave data untouched when disabled', () => {
+    const data = { name: 'Ann' };
+
+    expect(new DocumentVersioning({ field: 'rev' }).stamp(data)).toHaveProperty('rev');
+    expect(new DocumentVersioning().stamp(data)).toBe(data);
+    expect(() => new DocumentVersioning().getField()).toThrow('Versioning is not enabled');
+  });
+
+  it('should create conflict errors with the current state', () => {
+    const error = new FirestoreConflictError('conflict', 'docs/d1', 'a', 'b', { title: 'New' });
+
+    expect(error).toBeInstanceOf(FirestoreError);
+    expect(error).toMatchObject({
+      code: 'version-conflict',
+      path: 'docs/d1',
+      expectedVersion: 'a',
+      currentVersion: 'b',
+      currentData: { title: 'New' },
+    });
+  });
+
+  describe('FirestoreService integration', () => {
+    let db: InMemoryFirestore;
+    let service: FirestoreService;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      db = new InMemoryFirestore();
+      service = db.createService({ versioning: true });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should return the version with the document and change it on every write', async () => {
+      await service.setDocument('docs/d1', { title: 'Draft' });
+      const first = await service.getDocumentWithVersion<{ title: string }>('docs/d1');
+
+      await service.updateDocument('docs/d1', { title: 'Final' });
+      const second = await service.getDocumentWithVersion<{ title: string }>('docs/d1');
+
+      expect(first.data.title).toBe('Draft');
+      expect(first.version).toEqual(expect.any(String));
+      expect(second.version).not.toBe(first.version);
+    });
+
+    it('should apply updates when the version matches', async () => {
+      await service.setDocument('docs/d1', { title: 'Draft' });
+      const { version } = await service.getDocumentWithVersion('docs/d1');
+
+      await service.updateDocument('docs/d1', { title: 'Final' }, { expectedVersion: version });
+
+      expect(db.getDocumentData('docs/d1')?.title).toBe('Final');
+    });
+
+    it('should reject updates when someone else changed the document', async () => {
+      await service.setDocument('docs/d1', { title: 'Draft' });
+      const { version } = await service.getDocumentWithVersion('docs/d1');
+      await service.updateDocument('docs/d1', { title: 'Theirs' });
+
+      const error = await service
+        .updateDocument('docs/d1', { title: 'Mine' }, { expectedVersion: version })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(FirestoreConflictError);
+      expect(error.code).toBe('version-conflict');
+      expect(error.expectedVersion).toBe(version);
+      expect(error.currentVersion).toBe(db.getDocumentData('docs/d1')?._version);
+      expect(error.currentData).toMatchObject({ title: 'Theirs' });
+      expect(db.getDocumentData('docs/d1')?.title).toBe('Theirs');
+    });
+
+    it('should treat documents written without versioning as version null', async () => {
+      db.seed({ 'docs/legacy': { title: 'Old' } });
+
+      await expect(service.getDocumentWithVersion('docs/legacy')).resolves.toEqual({
+        data: { title: 'Old' },
+        version: null,
+      });
+      await service.updateDocument('docs/legacy', { title: 'New' }, { expectedVersion: null });
+      expect(db.getDocumentData('docs/legacy')?.title).toBe('New');
+    });
+
+    it('should fail versioned updates of missing documents with not-found', async () => {
+      await expect(
+        service.updateDocument('docs/missing', { title: 'x' }, { expectedVersion: null }),
+      ).rejects.toMatchObject({ code: 'not-found' });
+    });
+
+    it('should require the versioning option for versioned operations', async () => {
+      const plain = db.createService();
+      db.seed({ 'docs/d1': { title: 'Draft' } });
+
+      await expect(plain.getDocumentWithVersion('docs/d1')).rejects.toThrow(
+        'Versioning is not enabled',
+      );
+      await expect(
+        plain.updateDocument('docs/d1', { title: 'x' }, { expectedVersion: null }),
+      ).rejects.toThrow('Versioning is not enabled');
+    });
+
+    it('should pass expected versions through collection repositories', async () => {
+      const docs = service.collection<{ title: string }>('docs');
+      await docs.set('d1', { title: 'Draft' });
+
+      await expect(docs.update('d1', { title: 'x' }, { expectedVersion: 'stale' })).rejects.toThrow(
+        FirestoreConflictError,
+      );
+    });
+  });
+});
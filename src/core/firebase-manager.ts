@@ -1,12 +1,25 @@
 import { initializeApp, FirebaseApp, FirebaseOptions } from 'firebase/app';
-import { getFirestore, Firestore, enableIndexedDbPersistence } from 'firebase/firestore';
+import {
+  getFirestore,
+  Firestore,
+  enableIndexedDbPersistence,
+  connectFirestoreEmulator,
+} from 'firebase/firestore';
 import { getFunctions } from 'firebase/functions';
 
 // Import interfaces for our services (to be implemented)
-import { FirestoreService } from '../firestore/firestore-service';
+import { FirestoreService, FirestoreServiceOptions } from '../firestore/firestore-service';
 import { FunctionsService } from '../functions/functions-service';
 import { PubSubService } from '../pubsub/pubsub-service';
 
+/**
+ * Location of a local Firebase emulator
+ */
+export interface EmulatorConfig {
+  host: string;
+  port: number;
+}
+
 /**
  * Configuration options for FirebaseManager
  */
@@ -15,11 +28,21 @@ export interface FirebaseManagerConfig {
   firebaseOptions: FirebaseOptions;
   /** Whether to enable Firestore offline persistence */
   enablePersistence?: boolean;
+  /** Options for the FirestoreService (e.g., serialization) */
+  firestoreOptions?: FirestoreServiceOptions;
   /** Firebase Functions emulator configuration */
-  functionsEmulator?: {
-    host: string;
-    port: number;
-  };
+  functionsEmulator?: EmulatorConfig;
+  /**
+   * Firestore emulator configuration. Defaults to the FIRESTORE_EMULATOR_HOST
+   * environment variable ('host:port') when it is set.
+   */
+  firestoreEmulator?: EmulatorConfig;
+  /**
+   * Allow the Firestore emulator with a project id that doesn't start with
+   * 'demo-'. Off by default, so a misconfigured environment can't mix
+   * emulator and production settings.
+   */
+  allowEmulatorWithProductionProject?: boolean;
 }
 
 /**
@@ -34,15 +57,32 @@ export class FirebaseManager {
   private functionsService: FunctionsService | null = null;
   private pubSubService: PubSubService | null = null;
   private config: FirebaseManagerConfig;
+  private firestoreEmulator: EmulatorConfig | null;
   private initialized = false;
 
   /**
    * Creates a new FirebaseManager instance
    *
    * @param config - Configuration options for Firebase
+   * @throws Error if the Firestore emulator is combined with a production project id
    */
   constructor(config: FirebaseManagerConfig) {
     this.config = config;
+    this.firestoreEmulator = config.firestoreEmulator ?? getEmulatorFromEnvironment();
+
+    const projectId = config.firebaseOptions.projectId;
+    if (
+      this.firestoreEmulator &&
+      projectId &&
+      !projectId.startsWith('demo-') &&
+      !config.allowEmulatorWithProductionProject
+    ) {
+      throw new Error(
+        `Refusing to use the Firestore emulator with production project '${projectId}'. ` +
+          "Use a 'demo-' project id or set allowEmulatorWithProductionProject.",
+      );
+    }
+
     this.app = initializeApp(config.firebaseOptions);
     this.initialized = true;
   }
@@ -56,6 +96,15 @@ export class FirebaseManager {
     if (!this.firestoreInstance) {
       this.firestoreInstance = getFirestore(this.app);
 
+      // Connect to the emulator before the instance is used
+      if (this.firestoreEmulator) {
+        connectFirestoreEmulator(
+          this.firestoreInstance,
+          this.firestoreEmulator.host,
+          this.firestoreEmulator.port,
+        );
+      }
+
       // Enable persistence if specified in config
       if (this.config.enablePersistence) {
         enableIndexedDbPersistence(this.firestoreInstance).catch(error => {
@@ -67,6 +116,15 @@ export class FirebaseManager {
     return this.firestoreInstance;
   }
 
+  /**
+   * Gets the Firestore emulator the manager connects to
+   *
+   * @returns The emulator configuration, or null when connecting to production
+   */
+  public getFirestoreEmulator(): EmulatorConfig | null {
+    return this.firestoreEmulator;
+  }
+
   /**
    * Gets the FirestoreService instance
    *
@@ -76,7 +134,7 @@ export class FirebaseManager {
     if (!this.firestoreService) {
       // Get the Firestore instance and create a new FirestoreService
       const firestoreInstance = this.getFirestore();
-      this.firestoreService = new FirestoreService(firestoreInstance);
+      this.firestoreService = new FirestoreService(firestoreInstance, this.config.firestoreOptions);
     }
 
     return this.firestoreService;
@@ -118,11 +176,10 @@ export class FirebaseManager {
    * to prevent memory leaks and ensure proper cleanup
    */
   public async cleanup(): Promise<void> {
-    // Placeholder for cleanup logic
-    // This would typically include:
-    // - Unsubscribing from any active listeners
-    // - Closing any open connections
-    // - Terminating the Firebase app
+    // Detach any real-time listeners still attached through the service
+    if (this.firestoreService) {
+      this.firestoreService.cleanup();
+    }
 
     this.firestoreInstance = null;
     this.firestoreService = null;
@@ -142,3 +199,25 @@ export class FirebaseManager {
     return this.initialized;
   }
 }
+
+/**
+ * Reads the Firestore emulator location from FIRESTORE_EMULATOR_HOST
+ *
+ * @returns The emulator configuration, or null if the variable isn't set
+ * @throws Error if the variable isn't in 'host:port' form
+ */
+function getEmulatorFromEnvironment(): EmulatorConfig | null {
+  const value = typeof process !== 'undefined' ? process.env.FIRESTORE_EMULATOR_HOST : undefined;
+  if (!value) {
+    return null;
+  }
+
+  const separator = value.lastIndexOf(':');
+  const host = value.slice(0, separator);
+  const port = Number(value.slice(separator + 1));
+  if (separator <= 0 || !Number.isInteger(port) || port <= 0) {
+    throw new Error(`Invalid FIRESTORE_EMULATOR_HOST '${value}': expected 'host:port'`);
+  }
+
+  return { host, port };
+}
@@ -8,6 +8,7 @@
  * - Publish and subscribe to messages with PubSubService
  */
 
+import { where } from 'firebase/firestore';
 import { FirebaseManager, FirestoreService, FunctionsService, PubSubService } from '../index';
 
 async function main() {
@@ -81,15 +82,19 @@ async function main() {
     console.log(`Found ${youngUsers.length} young users`);
 
     // Subscribe to real-time updates
-    const unsubscribe = firestoreService.subscribe<User>(
+    const unsubscribe = firestoreService.subscribeQuery<User>(
       'users',
-      [{ field: 'age', operator: '>', value: 25 }],
-      users => {
-        console.log(`Real-time update: ${users.length} users over 25 years old`);
+      [where('age', '>', 25)],
+      ({ docs, changes }) => {
+        console.log(`Real-time update: ${docs.length} users over 25 years old`);
+        changes.forEach(change => console.log(`  ${change.type}: ${change.doc.id}`));
+      },
+      error => {
+        console.error('Listener error:', error.message);
       },
     );
 
-    // Don't forget to unsubscribe when done
+    // Don't forget to unsubscribe when done (firebaseManager.cleanup() also detaches it)
     // unsubscribe();
 
     // Delete a document
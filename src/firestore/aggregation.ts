@@ -0,0 +1,51 @@
+import { AggregateSpec, DocumentData, average, count, sum } from 'firebase/firestore';
+import { FieldPath } from './query-builder';
+
+/**
+ * A single aggregation over the documents matching a query
+ */
+export type Aggregation<T = DocumentData> =
+  | { type: 'count' }
+  | { type: 'sum'; field: FieldPath<T> }
+  | { type: 'average'; field: FieldPath<T> };
+
+/**
+ * Named aggregations computed together by FirestoreService.aggregate()
+ *
+ * @example
+ * { orders: { type: 'count' }, revenue: { type: 'sum', field: 'total' } }
+ */
+export interface AggregationSpec<T = DocumentData> {
+  [alias: string]: Aggregation<T>;
+}
+
+/**
+ * Results of an aggregation spec, keyed by alias
+ *
+ * Averages are null when no documents have a numeric value for the field.
+ */
+export type AggregationResult<S> = {
+  [K in keyof S]: S[K] extends { type: 'average' } ? number | null : number;
+};
+
+/**
+ * Compiles an aggregation spec to a Firestore AggregateSpec
+ *
+ * @param spec - Named aggregations
+ * @returns The equivalent Firestore AggregateSpec
+ */
+export function toAggregateSpec<T>(spec: AggregationSpec<T>): AggregateSpec {
+  const aggregateSpec: AggregateSpec = {};
+
+  Object.entries(spec).forEach(([alias, aggregation]) => {
+    if (aggregation.type === 'count') {
+      aggregateSpec[alias] = count();
+    } else if (aggregation.type === 'sum') {
+      aggregateSpec[alias] = sum(aggregation.field);
+    } else {
+      aggregateSpec[alias] = average(aggregation.field);
+    }
+  });
+
+  return aggregateSpec;
+}
@@ -0,0 +1,269 @@
+import { DocumentData, QueryConstraint, serverTimestamp, where } from 'firebase/firestore';
+
+/**
+ * Configuration for the audit fields FirestoreService stamps on writes
+ */
+export interface AuditOptions {
+  /** Field set when a document is created (default: 'createdAt') */
+  createdAtField?: string;
+  /** Field set on every write (default: 'updatedAt') */
+  updatedAtField?: string;
+  /** Field set to the current user id when a document is created (default: 'createdBy') */
+  createdByField?: string;
+  /** Field set to the current user id on every write (default: 'updatedBy') */
+  updatedByField?: string;
+  /** Returns the id of the user making the write; the *By fields are only set when it returns one */
+  getUserId?: () => string | null | undefined;
+}
+
+/**
+ * Configuration for soft delete
+ */
+export interface SoftDeleteOptions {
+  /** Field holding the deletion time, or null for live documents (default: 'deletedAt') */
+  field?: string;
+}
+
+/**
+ * Options for reading a single document
+ */
+export interface ReadOptions {
+  /** Return soft-deleted documents instead of treating them as missing (default: false) */
+  includeDeleted?: boolean;
+}
+
+/**
+ * Builds the audit and soft-delete fields FirestoreService adds to writes
+ *
+ * Audit fields are server timestamps, so they reflect Firestore's clock
+ * rather than the client's. They are always set by the service: values given
+ * in the written data are replaced or dropped.
+ */
+export class AuditFields {
+  private audit?: Required<Omit<AuditOptions, 'getUserId'>> & Pick<AuditOptions, 'getUserId'>;
+  private deletedAtField?: string;
+
+  /**
+   * Creates a new AuditFields instance
+   *
+   * @param audit - Audit options, true for the defaults, or undefined to disable auditing
+   * @param softDelete - Soft-delete options, true for the defaults, or undefined to disable soft delete
+   */
+  constructor(audit?: boolean | AuditOptions, softDelete?: boolean | SoftDeleteOptions) {
+    if (audit) {
+      const options = audit === true ? {} : audit;
+      this.audit = {
+        createdAtField: options.createdAtField ?? 'createdAt',
+        updatedAtField: options.updatedAtField ?? 'updatedAt',
+        createdByField: options.createdByField ?? 'createdBy',
+        updatedByField: options.updatedByField ?? 'updatedBy',
+        getUserId: options.getUserId,
+      };
+    }
+
+    if (softDelete) {
+      this.deletedAtField = (softDelete === true ? {} : softDelete).field ?? 'deletedAt';
+    }
+  }
+
+  /**
+   * Checks whether soft delete is enabled
+   *
+   * @returns Whether deletes mark documents instead of removing them
+   */
+  get softDeleteEnabled(): boolean {
+    return this.deletedAtField !== undefined;
+  }
+
+  /**
+   * Checks whether stamping a set needs the stored document
+   *
+   * @returns Whether sets must read the document first (auditing or soft delete is enabled)
+   */
+  get needsExistingData(): boolean {
+    return this.audit !== undefined || this.deletedAtField !== undefined;
+  }
+
+  /**
+   * Adds audit fields to the data of a set operation
+   *
+   * When the document doesn't exist yet the created* fields are stamped and,
+   * with soft delete enabled, the deletion field is set to null so the
+   * document shows up in queries. A set without merge replaces an existing
+   * document, so its created* fields are carried over from the stored data.
+   *
+   * @param data - The data being written
+   * @param isMerge - Whether the set merges into an existing document
+   * @param existing - The stored document data, or null if the document doesn't exist
+   * @returns The data with audit fields added
+   */
+  stampSet(data: DocumentData, isMerge: boolean, existing: DocumentData | null): DocumentData {
+    if (!this.needsExistingData) {
+      return data;
+    }
+
+    const stamped = this.withoutManagedFields(data);
+
+    if (existing === null) {
+      Object.assign(stamped, this.getCreateFields());
+    } else if (this.audit && !isMerge) {
+      const { createdAtField, createdByField } = this.audit;
+      [createdAtField, createdByField]
+        .filter(field => existing[field] !== undefined)
+        .forEach(field => (stamped[field] = existing[field]));
+    }
+
+    // Replaced documents, and documents stored before soft delete was enabled, become live
+    if (
+      this.deletedAtField &&
+      !(this.deletedAtField in stamped) &&
+      (existing === null || !isMerge || !(this.deletedAtField in existing))
+    ) {
+      stamped[this.deletedAtField] = null;
+    }
+
+    return Object.assign(stamped, this.getUpdateFields());
+  }
+
+  /**
+   * Adds audit fields to the data of an update operation
+   *
+   * @param data - The fields being updated
+   * @returns The data with audit fields added
+   */
+  stampUpdate(data: DocumentData): DocumentData {
+    if (!this.audit) {
+      return data;
+    }
+    return Object.assign(this.withoutManagedFields(data), this.getUpdateFields());
+  }
+
+  /**
+   * Gets the update that soft-deletes a document
+   *
+   * @returns The update data, or null if soft delete is disabled
+   */
+  getDeleteData(): DocumentData | null {
+    if (!this.deletedAtField) {
+      return null;
+    }
+    return { ...this.getUpdateFields(), [this.deletedAtField]: serverTimestamp() };
+  }
+
+  /**
+   * Gets the update that restores a soft-deleted document
+   *
+   * @returns The update data
+   * @throws Error if soft delete is disabled
+   */
+  getRestoreData(): DocumentData {
+    return { ...this.getUpdateFields(), [this.requireDeletedAtField()]: null };
+  }
+
+  /**
+   * Checks whether stored document data is soft-deleted
+   *
+   * @param data - The stored data
+   * @returns Whether the document is soft-deleted (always false when soft delete is disabled)
+   */
+  isDeleted(data: DocumentData | undefined): boolean {
+    const value = this.deletedAtField ? data?.[this.deletedAtField] : undefined;
+    return value !== undefined && value !== null;
+  }
+
+  /**
+   * Gets the fields that make a document match getLiveConstraints()
+   *
+   * @returns The deletion field set to null (empty when soft delete is disabled)
+   */
+  getLiveFields(): DocumentData {
+    return this.deletedAtField ? { [this.deletedAtField]: null } : {};
+  }
+
+  /**
+   * Gets the query constraints that leave out soft-deleted documents
+   *
+   * Documents without the deletion field don't match, so documents written
+   * before soft delete was enabled need the field set to null.
+   *
+   * @returns The constraints (empty when soft delete is disabled)
+   */
+  getLiveConstraints(): QueryConstraint[] {
+    return this.deletedAtField ? [where(this.deletedAtField, '==', null)] : [];
+  }
+
+  /**
+   * Gets the query constraint that selects documents deleted before a time
+   *
+   * @param olderThan - Only documents deleted before this time match
+   * @returns The constraint
+   * @throws Error if soft delete is disabled
+   */
+  getDeletedBeforeConstraint(olderThan: Date): QueryConstraint {
+    return where(this.requireDeletedAtField(), '<', olderThan);
+  }
+
+  /**
+   * Gets the fields stamped when a document is created
+   *
+   * @returns The fields
+   */
+  private getCreateFields(): DocumentData {
+    if (!this.audit) {
+      return {};
+    }
+    const fields: DocumentData = { [this.audit.createdAtField]: serverTimestamp() };
+    const userId = this.audit.getUserId?.();
+    if (userId) {
+      fields[this.audit.createdByField] = userId;
+    }
+    return fields;
+  }
+
+  /**
+   * Gets the fields stamped on every write
+   *
+   * @returns The fields
+   */
+  private getUpdateFields(): DocumentData {
+    if (!this.audit) {
+      return {};
+    }
+    const fields: DocumentData = { [this.audit.updatedAtField]: serverTimestamp() };
+    const userId = this.audit.getUserId?.();
+    if (userId) {
+      fields[this.audit.updatedByField] = userId;
+    }
+    return fields;
+  }
+
+  /**
+   * Copies write data without the audit fields
+   *
+   * @param data - The data being written
+   * @returns A copy of the data without the service-managed fields
+   */
+  private withoutManagedFields(data: DocumentData): DocumentData {
+    const copy = { ...data };
+    if (this.audit) {
+      delete copy[this.audit.createdAtField];
+      delete copy[this.audit.updatedAtField];
+      delete copy[this.audit.createdByField];
+      delete copy[this.audit.updatedByField];
+    }
+    return copy;
+  }
+
+  /**
+   * Gets the deletion field, which only exists when soft delete is enabled
+   *
+   * @returns The field name
+   * @throws Error if soft delete is disabled
+   */
+  private requireDeletedAtField(): string {
+    if (!this.deletedAtField) {
+      throw new Error('Soft delete is not enabled for this FirestoreService');
+    }
+    return this.deletedAtField;
+  }
+}
@@ -0,0 +1,324 @@
+import { DocumentData, SetOptions } from 'firebase/firestore';
+import { FirestoreError } from './firestore-error';
+import { FirestoreService } from './firestore-service';
+import { FirestoreBatch } from './firestore-transaction';
+import { sleep } from './internal-utils';
+import { TRANSIENT_ERROR_CODES, isIdempotentWrite } from './retry-policy';
+
+/** Maximum number of operations Firestore accepts in a single batch */
+export const MAX_BATCH_SIZE = 500;
+
+/**
+ * A single write for FirestoreService.bulkWrite()
+ */
+export type BulkWriteOperation =
+  | { type: 'set'; path: string; data: DocumentData; options?: SetOptions }
+  | { type: 'update'; path: string; data: DocumentData }
+  | { type: 'delete'; path: string };
+
+/**
+ * Options for bulk writes
+ */
+export interface BulkWriteOptions {
+  /** Operations per batch (default: 500, the Firestore maximum) */
+  batchSize?: number;
+  /** Maximum number of batches committed at the same time (default: 5) */
+  maxConcurrency?: number;
+  /** Starting write rate in operations per second (default: 500) */
+  initialOpsPerSecond?: number;
+  /** Upper bound for the write rate after ramp-up (default: 10000) */
+  maxOpsPerSecond?: number;
+  /** Interval after which the write rate grows by 50% (default: 5 minutes) */
+  rampUpIntervalMs?: number;
+  /** Retries for a batch that fails with a transient error (default: 3) */
+  maxRetries?: number;
+  /** Base delay before the first retry, doubled on each attempt (default: 1000) */
+  retryDelayMs?: number;
+  /** Called after each batch settles with the number of settled operations */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Outcome of a single operation in a bulk write
+ */
+export interface BulkWriteItemResult {
+  /** Position of the operation in the input array */
+  index: number;
+  path: string;
+  type: BulkWriteOperation['type'];
+  success: boolean;
+  error?: FirestoreError;
+}
+
+/**
+ * Report returned by a bulk write
+ */
+export interface BulkWriteResult {
+  /** One entry per input operation, in input order */
+  results: BulkWriteItemResult[];
+  successCount: number;
+  failureCount: number;
+}
+
+interface IndexedOperation {
+  index: number;
+  operation: BulkWriteOperation;
+}
+
+/**
+ * Writes large numbers of operations in Firestore-compliant batches
+ *
+ * Batches are committed with bounded concurrency under a write rate that
+ * starts at initialOpsPerSecond and grows by 50% every rampUpIntervalMs,
+ * following Firestore's "500/50/5" ramp-up guidance. Batches that fail with
+ * one of the service's retryable error codes are retried with exponential
+ * backoff, unless they contain writes that aren't safe to apply twice (such
+ * as increment()), since a failed commit may still have been applied.
+ * Batches that fail otherwise are split so every operation gets its own
+ * result.
+ */
+export class BulkWriter {
+  private options: Required<Omit<BulkWriteOptions, 'onProgress'>> &
+    Pick<BulkWriteOptions, 'onProgress'>;
+  private startTime = 0;
+  private nextSlotTime = 0;
+
+  /**
+   * Creates a new BulkWriter instance
+   *
+   * @param service - The FirestoreService used to create batches
+   * @param options - Optional chunking, throttling and retry settings
+   * @param retryableCodes - Error codes that make a batch worth retrying (default: transient codes)
+   * @throws FirestoreError if a count is less than 1 or a rate or interval isn't positive
+   */
+  constructor(
+    private service: FirestoreService,
+    options: BulkWriteOptions = {},
+    private retryableCodes: string[] = TRANSIENT_ERROR_CODES,
+  ) {
+    this.options = {
+      batchSize: Math.min(options.batchSize ?? MAX_BATCH_SIZE, MAX_BATCH_SIZE),
+      maxConcurrency: options.maxConcurrency ?? 5,
+      initialOpsPerSecond: options.initialOpsPerSecond ?? 500,
+      maxOpsPerSecond: options.maxOpsPerSecond ?? 10000,
+      rampUpIntervalMs: options.rampUpIntervalMs ?? 5 * 60 * 1000,
+      maxRetries: options.maxRetries ?? 3,
+      retryDelayMs: options.retryDelayMs ?? 1000,
+      onProgress: options.onProgress,
+    };
+    assertAtLeastOne('batchSize', this.options.batchSize);
+    assertAtLeastOne('maxConcurrency', this.options.maxConcurrency);
+    assertPositive('initialOpsPerSecond', this.options.initialOpsPerSecond);
+    assertPositive('maxOpsPerSecond', this.options.maxOpsPerSecond);
+    assertPositive('rampUpIntervalMs', this.options.rampUpIntervalMs);
+  }
+
+  /**
+   * Writes all operations and reports the outcome of each one
+   *
+   * @param operations - Operations to write
+   * @returns Promise resolving to a per-operation report; never rejects for write failures
+   */
+  async write(operations: BulkWriteOperation[]): Promise<BulkWriteResult> {
+    const results: BulkWriteItemResult[] = new Array(operations.length);
+    const chunks = this.chunk(operations.map((operation, index) => ({ index, operation })));
+    let completed = 0;
+
+    this.startTime = Date.now();
+    this.nextSlotTime = this.startTime;
+
+    const worker = async (): Promise<void> => {
+      let chunk = chunks.shift();
+      while (chunk) {
+        const chunkResults = await this.writeChunk(chunk);
+        chunkResults.forEach(result => (results[result.index] = result));
+
+        completed += chunk.length;
+        this.options.onProgress?.(completed, operations.length);
+        chunk = chunks.shift();
+      }
+    };
+
+    const workerCount = Math.min(this.options.maxConcurrency, chunks.length);
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+    const successCount = results.filter(result => result.success).length;
+    return { results, successCount, failureCount: results.length - successCount };
+  }
+
+  /**
+   * Commits one chunk, retrying transient failures and splitting on permanent ones
+   *
+   * @param chunk - Operations to commit together
+   * @returns Promise resolving to a result for each operation in the chunk
+   */
+  private async writeChunk(chunk: IndexedOperation[]): Promise<BulkWriteItemResult[]> {
+    let attempt = 0;
+
+    for (;;) {
+      await this.throttle(chunk.length);
+
+      try {
+        const batch = this.service.batch();
+        chunk.forEach(({ operation }) => this.addToBatch(batch, operation));
+        await batch.commit();
+
+        return chunk.map(item => this.toResult(item));
+      } catch (error: any) {
+        const firestoreError =
+          error instanceof FirestoreError
+            ? error
+            : new FirestoreError(error.message, undefined, error.code, error);
+
+        if (this.retryableCodes.includes(firestoreError.code ?? '')) {
+          if (attempt < this.options.maxRetries && chunk.every(isRepeatable)) {
+            await sleep(this.options.retryDelayMs * 2 ** attempt);
+            attempt++;
+            continue;
+          }
+        } else if (chunk.length > 1) {
+          // One bad operation fails the whole batch, so retry each operation on its own
+          const results: BulkWriteItemResult[] = [];
+          for (const item of chunk) {
+            results.push(...(await this.writeChunk([item])));
+          }
+          return results;
+        }
+
+        return chunk.map(item =>
+          this.toResult(item, this.errorForOperation(firestoreError, item.operation)),
+        );
+      }
+    }
+  }
+
+  /**
+   * Queues an operation on a batch
+   *
+   * @param batch - The batch to add the operation to
+   * @param operation - The operation to queue
+   */
+  private addToBatch(batch: FirestoreBatch, operation: BulkWriteOperation): void {
+    switch (operation.type) {
+      case 'set':
+        batch.setDocument(operation.path, operation.data, operation.options);
+        break;
+      case 'update':
+        batch.updateDocument(operation.path, operation.data);
+        break;
+      case 'delete':
+        batch.deleteDocument(operation.path);
+        break;
+    }
+  }
+
+  /**
+   * Waits until the current write rate allows another batch of the given size
+   *
+   * @param operationCount - Number of operations about to be written
+   */
+  private async throttle(operationCount: number): Promise<void> {
+    const now = Date.now();
+    const rampUps = Math.floor((now - this.startTime) / this.options.rampUpIntervalMs);
+    const opsPerSecond = Math.min(
+      this.options.initialOpsPerSecond * 1.5 ** rampUps,
+      this.options.maxOpsPerSecond,
+    );
+
+    const slotTime = Math.max(now, this.nextSlotTime);
+    this.nextSlotTime = slotTime + (operationCount / opsPerSecond) * 1000;
+
+    if (slotTime > now) {
+      await sleep(slotTime - now);
+    }
+  }
+
+  /**
+   * Splits operations into batch-sized chunks
+   *
+   * @param operations - Operations to split
+   * @returns Chunks of at most batchSize operations
+   */
+  private chunk(operations: IndexedOperation[]): IndexedOperation[][] {
+    const chunks: IndexedOperation[][] = [];
+    for (let i = 0; i < operations.length; i += this.options.batchSize) {
+      chunks.push(operations.slice(i, i + this.options.batchSize));
+    }
+    return chunks;
+  }
+
+  /**
+   * Builds the error reported for a single operation
+   *
+   * @param error - The error the batch failed with
+   * @param operation - The operation being reported
+   * @returns A FirestoreError carrying the operation's path
+   */
+  private errorForOperation(error: FirestoreError, operation: BulkWriteOperation): FirestoreError {
+    if (error.path === operation.path) {
+      return error;
+    }
+    return new FirestoreError(error.message, operation.path, error.code, error.originalError);
+  }
+
+  /**
+   * Builds the result entry for an operation
+   *
+   * @param item - The operation and its input index
+   * @param error - The error, if the operation failed
+   * @returns The result entry
+   */
+  private toResult(item: IndexedOperation, error?: FirestoreError): BulkWriteItemResult {
+    return {
+      index: item.index,
+      path: item.operation.path,
+      type: item.operation.type,
+      success: !error,
+      ...(error ? { error } : {}),
+    };
+  }
+}
+
+/**
+ * Checks whether an operation can be written again after a commit that may have been applied
+ *
+ * @param item - The operation
+ * @returns Whether writing it twice has the same effect as once
+ */
+function isRepeatable({ operation }: IndexedOperation): boolean {
+  return operation.type === 'delete' || isIdempotentWrite(operation.data);
+}
+
+/**
+ * Checks that a count option is a whole number of at least 1
+ *
+ * @param name - Name of the option, for the error
+ * @param value - The option's value
+ * @throws FirestoreError if the value is invalid
+ */
+function assertAtLeastOne(name: string, value: number): void {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new FirestoreError(
+      `${name} must be a whole number of at least 1, got ${value}`,
+      undefined,
+      'invalid-argument',
+    );
+  }
+}
+
+/**
+ * Checks that a rate or interval option is a positive number
+ *
+ * @param name - Name of the option, for the error
+ * @param value - The option's value
+ * @throws FirestoreError if the value is invalid
+ */
+function assertPositive(name: string, value: number): void {
+  if (!(value > 0)) {
+    throw new FirestoreError(
+      `${name} must be a positive number, got ${value}`,
+      undefined,
+      'invalid-argument',
+    );
+  }
+}
@@ -0,0 +1,173 @@
+import { DocumentData, FirestoreDataConverter, SetOptions } from 'firebase/firestore';
+import { FirestoreService, WithId } from './firestore-service';
+import { QueryInput } from './query-builder';
+import { UpdateOptions } from './versioning';
+
+/**
+ * Document handed to RepositoryConverter.fromFirestore()
+ *
+ * The service has already deserialized and decrypted the data, so this is
+ * not an SDK snapshot: it has no ref or metadata.
+ */
+export interface RepositorySnapshot {
+  /** ID of the document */
+  id: string;
+  /** Returns the processed document data */
+  data(): DocumentData;
+  /** Returns the value at a dotted field path, or undefined if absent */
+  get(field: string): unknown;
+}
+
+/**
+ * Converter between a model and stored data for a CollectionRepository
+ *
+ * Same as a FirestoreDataConverter, except that fromFirestore() receives a
+ * RepositorySnapshot.
+ */
+export type RepositoryConverter<T> = Omit<FirestoreDataConverter<T>, 'fromFirestore'> & {
+  fromFirestore(snapshot: RepositorySnapshot): T;
+};
+
+/**
+ * Typed repository for a single Firestore collection
+ *
+ * Wraps the path-based FirestoreService methods so callers work with document
+ * ids and a model type instead of raw paths. Obtain one through
+ * FirestoreService.collection().
+ *
+ * A converter is applied at the edge of the repository: models are converted
+ * before the service prepares a write (validation, serialization, audit
+ * fields), and stored data after the service has processed a read. Its
+ * fromFirestore() receives a RepositorySnapshot.
+ */
+export class CollectionRepository<T> {
+  /**
+   * Creates a new CollectionRepository instance
+   *
+   * @param service - The FirestoreService used for all reads and writes
+   * @param collectionPath - Path to the collection (e.g., 'users')
+   * @param converter - Optional converter between T and Firestore data
+   */
+  constructor(
+    private service: FirestoreService,
+    public readonly collectionPath: string,
+    private converter?: RepositoryConverter<T>,
+  ) {}
+
+  /**
+   * Gets the full path of a document in this collection
+   *
+   * @param id - ID of the document
+   * @returns Path to the document (e.g., 'users/123')
+   */
+  docPath(id: string): string {
+    return `${this.collectionPath}/${id}`;
+  }
+
+  /**
+   * Gets a document by ID
+   *
+   * @param id - ID of the document
+   * @returns Promise resolving to the document data with its ID
+   * @throws Error if document doesn't exist or there's a Firestore error
+   */
+  async get(id: string): Promise<WithId<T>> {
+    const data = await this.service.getDocument<DocumentData>(this.docPath(id));
+    return this.fromStored({ id, ...data });
+  }
+
+  /**
+   * Gets several documents by ID
+   *
+   * @param ids - IDs of the documents
+   * @returns Promise resolving to a document or null for each ID, in the same order
+   */
+  async getMany(ids: string[]): Promise<Array<WithId<T> | null>> {
+    const docs = await this.service.getDocuments<DocumentData>(this.collectionPath, ids);
+    return docs.map(doc => doc && this.fromStored(doc));
+  }
+
+  /**
+   * Creates or replaces a document
+   *
+   * @param id - ID of the document
+   * @param data - Data to store in the document
+   * @param options - Optional SetOptions (e.g., { merge: true })
+   * @returns Promise that resolves when the operation is complete
+   */
+  async set(id: string, data: T, options?: SetOptions): Promise<void> {
+    const stored = this.converter
+      ? options
+        ? this.converter.toFirestore(data, options)
+        : this.converter.toFirestore(data)
+      : data;
+    await this.service.setDocument(this.docPath(id), stored, options);
+  }
+
+  /**
+   * Updates an existing document
+   *
+   * @param id - ID of the document
+   * @param data - Fields to update in the document
+   * @param options - Optional update options (e.g., { expectedVersion })
+   * @returns Promise that resolves when the operation is complete
+   */
+  async update(id: string, data: Partial<T>, options?: UpdateOptions): Promise<void> {
+    const stored = this.converter ? this.converter.toFirestore(data, { merge: true }) : data;
+    await this.service.updateDocument(this.docPath(id), stored, options);
+  }
+
+  /**
+   * Deletes a document
+   *
+   * @param id - ID of the document
+   * @returns Promise that resolves when the operation is complete
+   */
+  async delete(id: string): Promise<void> {
+    await this.service.deleteDocument(this.docPath(id));
+  }
+
+  /**
+   * Queries the collection with the given constraints
+   *
+   * @param queryConstraints - Constraints (e.g., where, limit), QueryBuilders or arrays of filters
+   * @returns Promise resolving to an array of documents matching the query
+   */
+  async query(...queryConstraints: Array<QueryInput<T>>): Promise<Array<WithId<T>>> {
+    const docs = await this.service.query<DocumentData>(
+      this.collectionPath,
+      ...(queryConstraints as Array<QueryInput<DocumentData>>),
+    );
+    return docs.map(doc => this.fromStored(doc));
+  }
+
+  /**
+   * Checks whether a document exists
+   *
+   * @param id - ID of the document
+   * @returns Promise resolving to true if the document exists
+   */
+  async exists(id: string): Promise<boolean> {
+    return this.service.documentExists(this.docPath(id));
+  }
+
+  /**
+   * Converts stored data read by the service into a model
+   *
+   * @param doc - The processed document data with its id
+   * @returns The model with its id
+   */
+  private fromStored({ id, ...data }: WithId<DocumentData>): WithId<T> {
+    if (!this.converter) {
+      return { id, ...data } as WithId<T>;
+    }
+
+    const snapshot: RepositorySnapshot = {
+      id,
+      data: () => data,
+      get: field => field.split('.').reduce<any>((value, key) => value?.[key], data),
+    };
+    const model = this.converter.fromFirestore(snapshot);
+    return { id, ...model } as WithId<T>;
+  }
+}
@@ -0,0 +1,530 @@
+import {
+  Bytes,
+  DocumentData,
+  DocumentReference,
+  Firestore,
+  GeoPoint,
+  QueryDocumentSnapshot,
+  Timestamp,
+  limit,
+  startAfter,
+} from 'firebase/firestore';
+import { FirestoreError } from './firestore-error';
+import { FirestoreBackend, firebaseBackend } from './firestore-backend';
+import { MAX_BATCH_SIZE } from './bulk-writer';
+import { splitPath } from './path-pattern';
+
+/** Key that marks an encoded Firestore value in exported JSON */
+const TYPE_KEY = '__type';
+
+/**
+ * File format written by exportCollection()
+ *
+ * - 'ndjson': one JSON record per line; can be streamed on import
+ * - 'json': a single JSON array of records; read into memory on import
+ */
+export type ExportFormat = 'ndjson' | 'json';
+
+/**
+ * Options for collection exports
+ */
+export interface ExportOptions {
+  /** Output format (default: 'ndjson') */
+  format?: ExportFormat;
+  /** Documents read per request (default: 500) */
+  pageSize?: number;
+  /** Called after each page with the number of documents exported so far */
+  onProgress?: (exported: number) => void;
+}
+
+/**
+ * Report returned by a collection export
+ */
+export interface ExportResult {
+  /** Number of documents written to the stream */
+  exported: number;
+}
+
+/**
+ * What an import does with a document id that already exists
+ *
+ * - 'skip': keep the existing document
+ * - 'overwrite': replace the existing document
+ * - 'merge': merge the imported fields into the existing document
+ */
+export type ImportConflictMode = 'skip' | 'overwrite' | 'merge';
+
+/**
+ * Options for collection imports
+ */
+export interface ImportOptions {
+  /** Handling of documents that already exist (default: 'overwrite') */
+  onConflict?: ImportConflictMode;
+  /** Documents written per batch (default: 500, the Firestore maximum) */
+  batchSize?: number;
+  /** Called after each batch with the counts so far */
+  onProgress?: (progress: ImportResult) => void;
+}
+
+/**
+ * Report returned by a collection import
+ */
+export interface ImportResult {
+  /** Number of records read from the stream */
+  processed: number;
+  /** Number of documents written */
+  written: number;
+  /** Number of existing documents left alone with onConflict: 'skip' */
+  skipped: number;
+}
+
+/**
+ * A single exported document
+ */
+export interface ExportRecord {
+  id: string;
+  data: DocumentData;
+}
+
+/**
+ * Destination of an export, such as a file stream or process.stdout
+ */
+export type ExportSink = Pick<NodeJS.WritableStream, 'write' | 'once'>;
+
+/**
+ * Source of an import, such as a file stream or an array of strings
+ */
+export type ImportSource = AsyncIterable<string | Uint8Array> | Iterable<string>;
+
+/**
+ * Encodes a Firestore value as JSON-compatible data
+ *
+ * Timestamps, GeoPoints, document references, bytes and non-finite numbers
+ * become objects tagged with a '__type' key; maps that happen to contain a
+ * '__type' key are wrapped so they decode unchanged.
+ *
+ * @param value - A value read from Firestore
+ * @returns The JSON-compatible encoding
+ */
+export function encodeFirestoreValue(value: unknown): unknown {
+  if (value instanceof Timestamp) {
+    return { [TYPE_KEY]: 'timestamp', seconds: value.seconds, nanoseconds: value.nanoseconds };
+  }
+  if (value instanceof GeoPoint) {
+    return { [TYPE_KEY]: 'geopoint', latitude: value.latitude, longitude: value.longitude };
+  }
+  if (value instanceof Bytes) {
+    return { [TYPE_KEY]: 'bytes', base64: value.toBase64() };
+  }
+  if (value instanceof DocumentReference) {
+    return { [TYPE_KEY]: 'reference', path: value.path };
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return { [TYPE_KEY]: 'number', value: String(value) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeFirestoreValue);
+  }
+  if (value !== null && typeof value === 'object') {
+    const encoded: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, item]) => {
+      encoded[key] = encodeFirestoreValue(item);
+    });
+    return TYPE_KEY in encoded ? { [TYPE_KEY]: 'map', value: encoded } : encoded;
+  }
+  return value;
+}
+
+/**
+ * Decodes a value encoded by encodeFirestoreValue()
+ *
+ * @param value - The JSON-compatible encoding
+ * @param toReference - Creates a document reference from a path
+ * @returns The Firestore value
+ * @throws Error if a tagged value has an unknown type
+ */
+export function decodeFirestoreValue(
+  value: unknown,
+  toReference: (path: string) => DocumentReference,
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => decodeFirestoreValue(item, toReference));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const tagged = value as Record<string, any>;
+  if (!(TYPE_KEY in tagged)) {
+    return decodeMap(tagged, toReference);
+  }
+
+  switch (tagged[TYPE_KEY]) {
+    case 'timestamp':
+      return new Timestamp(tagged.seconds, tagged.nanoseconds);
+    case 'geopoint':
+      return new GeoPoint(tagged.latitude, tagged.longitude);
+    case 'bytes':
+      return Bytes.fromBase64String(tagged.base64);
+    case 'reference':
+      return toReference(tagged.path);
+    case 'number':
+      return Number(tagged.value);
+    case 'map':
+      return decodeMap(tagged.value, toReference);
+    default:
+      throw new Error(`Unknown encoded value type: ${tagged[TYPE_KEY]}`);
+  }
+}
+
+/**
+ * Decodes every value of an encoded map
+ *
+ * @param map - The encoded map
+ * @param toReference - Creates a document reference from a path
+ * @returns The decoded map
+ */
+function decodeMap(
+  map: Record<string, unknown>,
+  toReference: (path: string) => DocumentReference,
+): DocumentData {
+  const decoded: DocumentData = {};
+  Object.entries(map).forEach(([key, item]) => {
+    decoded[key] = decodeFirestoreValue(item, toReference);
+  });
+  return decoded;
+}
+
+/**
+ * Exports and imports collections as NDJSON or JSON
+ *
+ * Documents are read and written as stored: no converters, validators,
+ * serialization or audit fields are applied, so an export followed by an
+ * import reproduces the original data. The only exception are live fields
+ * (such as a null soft-delete field), which imported documents get when they
+ * lack them so queries keep finding them. Subcollections are not included.
+ */
+export class CollectionTransfer {
+  /**
+   * Creates a new CollectionTransfer instance
+   *
+   * @param firestore - Firestore instance
+   * @param backend - Backend that performs the Firestore operations (default: the Firebase SDK)
+   * @param liveFields - Fields added to imported documents that don't have them
+   */
+  constructor(
+    private firestore: Firestore,
+    private backend: FirestoreBackend = firebaseBackend,
+    private liveFields: DocumentData = {},
+  ) {}
+
+  /**
+   * Writes every document of a collection to a stream
+   *
+   * The stream is not ended, so the caller decides when to close it.
+   *
+   * @param collectionPath - Path to the collection (e.g., 'users')
+   * @param sink - Stream to write to
+   * @param options - Format, page size and progress callback
+   * @returns Promise resolving to the number of documents exported
+   * @throws FirestoreError if the path isn't a collection
+   */
+  async exportCollection(
+    collectionPath: string,
+    sink: ExportSink,
+    options: ExportOptions = {},
+  ): Promise<ExportResult> {
+    assertCollectionPath(collectionPath);
+    const format = options.format ?? 'ndjson';
+    const pageSize = options.pageSize ?? MAX_BATCH_SIZE;
+    const collectionRef = this.backend.collection(this.firestore, collectionPath);
+    let after: QueryDocumentSnapshot | undefined;
+    let exported = 0;
+
+    if (format === 'json') {
+      await write(sink, '[');
+    }
+
+    for (;;) {
+      const constraints = after ? [startAfter(after), limit(pageSize)] : [limit(pageSize)];
+      const snapshot = await this.backend.getDocs(
+        this.backend.query(collectionRef, ...constraints),
+      );
+
+      for (const doc of snapshot.docs) {
+        const record: ExportRecord = { id: doc.id, data: doc.data() };
+        const line = JSON.stringify(encodeFirestoreValue(record));
+        if (format === 'json') {
+          await write(sink, `${exported === 0 ? '' : ','}\n${line}`);
+        } else {
+          await write(sink, `${line}\n`);
+        }
+        exported++;
+      }
+
+      if (snapshot.docs.length > 0 && options.onProgress) {
+        options.onProgress(exported);
+      }
+      if (snapshot.docs.length < pageSize) {
+        break;
+      }
+      after = snapshot.docs[snapshot.docs.length - 1];
+    }
+
+    if (format === 'json') {
+      await write(sink, exported === 0 ? ']\n' : '\n]\n');
+    }
+
+    return { exported };
+  }
+
+  /**
+   * Writes documents read from a stream into a collection
+   *
+   * The format is detected from the content: a JSON array, or NDJSON with one
+   * record per line. Blank lines are ignored.
+   *
+   * @param collectionPath - Path to the collection (e.g., 'users')
+   * @param source - Stream or iterable of text chunks
+   * @param options - Conflict handling, batch size and progress callback
+   * @returns Promise resolving to the number of documents processed, written and skipped
+   * @throws FirestoreError if a record is malformed or a batch fails
+   */
+  async importCollection(
+    collectionPath: string,
+    source: ImportSource,
+    options: ImportOptions = {},
+  ): Promise<ImportResult> {
+    assertCollectionPath(collectionPath);
+    const batchSize = Math.min(options.batchSize ?? MAX_BATCH_SIZE, MAX_BATCH_SIZE);
+    const result: ImportResult = { processed: 0, written: 0, skipped: 0 };
+    let pending: ExportRecord[] = [];
+
+    const flush = async () => {
+      await this.writeRecords(collectionPath, pending, options.onConflict ?? 'overwrite', result);
+      pending = [];
+      if (options.onProgress) {
+        options.onProgress({ ...result });
+      }
+    };
+
+    for await (const { record, line } of readRecords(source)) {
+      pending.push(this.toRecord(collectionPath, record, line));
+      if (pending.length >= batchSize) {
+        await flush();
+      }
+    }
+    if (pending.length > 0) {
+      await flush();
+    }
+
+    return result;
+  }
+
+  /**
+   * Validates and decodes one imported record
+   *
+   * @param collectionPath - Path to the collection being imported into
+   * @param record - The parsed JSON record
+   * @param line - Line (NDJSON) or array position (JSON) of the record, for error messages
+   * @returns The decoded record
+   * @throws FirestoreError if the record is malformed
+   */
+  private toRecord(collectionPath: string, record: unknown, line: number): ExportRecord {
+    const { id, data } = (record ?? {}) as { id?: unknown; data?: unknown };
+
+    if (typeof id !== 'string' || id.length === 0 || id.includes('/')) {
+      throw new FirestoreError(
+        `Invalid record ${line}: 'id' must be a non-empty document id`,
+        collectionPath,
+        'invalid-argument',
+      );
+    }
+    if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+      throw new FirestoreError(
+        `Invalid record ${line}: 'data' must be an object`,
+        `${collectionPath}/${id}`,
+        'invalid-argument',
+      );
+    }
+
+    try {
+      const decoded = decodeFirestoreValue(data, path => this.backend.doc(this.firestore, path));
+      return { id, data: decoded as DocumentData };
+    } catch (error: any) {
+      throw new FirestoreError(
+        `Invalid record ${line}: ${error.message}`,
+        `${collectionPath}/${id}`,
+        'invalid-argument',
+        error,
+      );
+    }
+  }
+
+  /**
+   * Writes a batch of imported records
+   *
+   * @param collectionPath - Path to the collection being imported into
+   * @param records - The records to write
+   * @param onConflict - Handling of documents that already exist
+   * @param result - Counts to update
+   * @throws FirestoreError if the batch fails
+   */
+  private async writeRecords(
+    collectionPath: string,
+    records: ExportRecord[],
+    onConflict: ImportConflictMode,
+    result: ImportResult,
+  ): Promise<void> {
+    const refs = records.map(record =>
+      this.backend.doc(this.firestore, `${collectionPath}/${record.id}`),
+    );
+    // Merged records only get live fields when they create the document
+    const checkExists =
+      onConflict === 'skip' || (onConflict === 'merge' && Object.keys(this.liveFields).length > 0);
+    const exists = checkExists
+      ? await Promise.all(refs.map(async ref => (await this.backend.getDoc(ref)).exists()))
+      : records.map(() => false);
+
+    const batch = this.backend.writeBatch(this.firestore);
+    let written = 0;
+    records.forEach((record, index) => {
+      if (onConflict === 'merge') {
+        const data = exists[index] ? record.data : { ...this.liveFields, ...record.data };
+        batch.set(refs[index], data, { merge: true });
+      } else if (!exists[index]) {
+        batch.set(refs[index], { ...this.liveFields, ...record.data });
+      } else {
+        return;
+      }
+      written++;
+    });
+
+    if (written > 0) {
+      try {
+        await batch.commit();
+      } catch (error: any) {
+        console.error(`Error committing batch of ${written} imported documents:`, error);
+        throw new FirestoreError(
+          error.message || `Failed to commit batch of ${written} imported documents`,
+          collectionPath,
+          error.code,
+          error,
+        );
+      }
+    }
+
+    result.processed += records.length;
+    result.written += written;
+    result.skipped += records.length - written;
+  }
+}
+
+/**
+ * Writes a chunk to a stream, waiting for it to drain when its buffer is full
+ *
+ * @param sink - The stream
+ * @param chunk - Text to write
+ */
+async function write(sink: ExportSink, chunk: string): Promise<void> {
+  if (!sink.write(chunk)) {
+    await new Promise(resolve => sink.once('drain', resolve));
+  }
+}
+
+/**
+ * Parses records from NDJSON or a JSON array
+ *
+ * @param source - Stream or iterable of text chunks
+ * @returns Async iterable over the parsed records and their line or array position
+ * @throws FirestoreError if the content isn't valid JSON
+ */
+async function* readRecords(
+  source: ImportSource,
+): AsyncIterable<{ record: unknown; line: number }> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let format: ExportFormat | undefined;
+  let line = 0;
+
+  for await (const chunk of source) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    format = format ?? detectFormat(buffer);
+
+    if (format === 'ndjson') {
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const text of lines) {
+        line++;
+        if (text.trim()) {
+          yield { record: parseJson(text, line), line };
+        }
+      }
+    }
+  }
+  buffer += decoder.decode();
+
+  if (format === 'json') {
+    const records = parseJson(buffer, 1);
+    if (!Array.isArray(records)) {
+      throw new FirestoreError(
+        'Invalid import: expected a JSON array',
+        undefined,
+        'invalid-argument',
+      );
+    }
+    for (let i = 0; i < records.length; i++) {
+      yield { record: records[i], line: i + 1 };
+    }
+  } else if (buffer.trim()) {
+    line++;
+    yield { record: parseJson(buffer, line), line };
+  }
+}
+
+/**
+ * Works out the format of import content from its first character
+ *
+ * @param buffer - Content read so far
+ * @returns The format, or undefined if only whitespace has been read
+ */
+function detectFormat(buffer: string): ExportFormat | undefined {
+  const first = buffer.trimStart()[0];
+  if (first === undefined) {
+    return undefined;
+  }
+  return first === '[' ? 'json' : 'ndjson';
+}
+
+/**
+ * Parses JSON, reporting where invalid content was found
+ *
+ * @param text - The JSON text
+ * @param line - Line number of the text, for error messages
+ * @returns The parsed value
+ * @throws FirestoreError if the text isn't valid JSON
+ */
+function parseJson(text: string, line: number): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error: any) {
+    throw new FirestoreError(
+      `Invalid JSON on line ${line}: ${error.message}`,
+      undefined,
+      'invalid-argument',
+      error,
+    );
+  }
+}
+
+/**
+ * Checks that a path points to a collection
+ *
+ * @param path - The path to check
+ * @throws FirestoreError if the path has an even number of segments
+ */
+function assertCollectionPath(path: string): void {
+  if (splitPath(path).length % 2 !== 1) {
+    throw new FirestoreError(`Expected a collection path, got: ${path}`, path, 'invalid-argument');
+  }
+}
@@ -0,0 +1,250 @@
+import { DocumentData } from 'firebase/firestore';
+import { isPlainObject } from './internal-utils';
+import { documentMatchesPattern, splitPath } from './path-pattern';
+
+/**
+ * Configuration for the FirestoreService document cache
+ */
+export interface DocumentCacheOptions {
+  /** Maximum number of cached documents; the least recently used are evicted first (default: 1000) */
+  maxEntries?: number;
+  /** Time to live in ms for documents that match no pattern in ttls; 0 disables caching them (default: 60000) */
+  defaultTtlMs?: number;
+  /**
+   * Time to live in ms per collection or document path pattern
+   * (e.g., { 'config/{id}': 300000, 'users/{uid}/sessions': 0 }).
+   * The first matching pattern wins; 0 disables caching.
+   */
+  ttls?: Record<string, number>;
+}
+
+/**
+ * Counters describing how well the cache is working
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), or 0 before the first lookup */
+  hitRate: number;
+  /** Entries dropped to stay within maxEntries */
+  evictions: number;
+  /** Entries dropped because their TTL ran out */
+  expirations: number;
+  /** Number of documents currently cached */
+  size: number;
+}
+
+interface CacheEntry {
+  data: DocumentData;
+  expiresAt: number;
+}
+
+/**
+ * LRU cache of document data with per-pattern TTLs
+ *
+ * Used by FirestoreService.getDocument() when the cache option is set. Entries
+ * hold the data as read from Firestore, before deserialization and
+ * validation, and are invalidated by the service's own writes. Writes made by
+ * other clients are only picked up once an entry expires. Data is copied on
+ * the way in and out, so callers can't change an entry through the objects
+ * they hold.
+ */
+export class DocumentCache {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+  private defaultTtlMs: number;
+  private ttls: Array<[string, number]>;
+  private generation = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  /**
+   * Creates a new DocumentCache instance
+   *
+   * @param options - Optional size limit and TTLs
+   * @throws Error if maxEntries is less than 1 or a TTL is negative
+   */
+  constructor(options: DocumentCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.defaultTtlMs = options.defaultTtlMs ?? 60000;
+    this.ttls = Object.entries(options.ttls ?? {});
+
+    if (this.maxEntries < 1) {
+      throw new Error('Cache maxEntries must be at least 1');
+    }
+    if ([this.defaultTtlMs, ...this.ttls.map(([, ttl]) => ttl)].some(ttl => ttl < 0)) {
+      throw new Error('Cache TTLs must not be negative');
+    }
+  }
+
+  /**
+   * Gets the cached data of a document, counting a hit or a miss
+   *
+   * @param path - Path to the document
+   * @returns A copy of the cached data, or undefined if it isn't cached or has expired
+   */
+  get(path: string): DocumentData | undefined {
+    const key = this.toKey(path);
+    const entry = this.entries.get(key);
+
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.expirations++;
+    } else if (entry) {
+      // Re-insert so the Map's insertion order tracks recency
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.hits++;
+      return copyData(entry.data);
+    }
+
+    if (this.getTtl(key) > 0) {
+      this.misses++;
+    }
+    return undefined;
+  }
+
+  /**
+   * Gets a token to pass to set() after reading a document from Firestore
+   *
+   * A read that overlaps an invalidation may have returned the old data, so
+   * set() ignores data read before the most recent invalidation.
+   *
+   * @returns The current invalidation generation
+   */
+  getGeneration(): number {
+    return this.generation;
+  }
+
+  /**
+   * Caches the data of a document
+   *
+   * @param path - Path to the document
+   * @param data - The document data as read from Firestore
+   * @param generation - Value of getGeneration() taken before the read started
+   */
+  set(path: string, data: DocumentData, generation: number): void {
+    const key = this.toKey(path);
+    const ttl = this.getTtl(key);
+
+    if (ttl === 0 || generation !== this.generation) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { data: copyData(data), expiresAt: Date.now() + ttl });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Removes a document from the cache
+   *
+   * @param path - Path to the document
+   */
+  invalidate(path: string): void {
+    this.generation++;
+    this.entries.delete(this.toKey(path));
+  }
+
+  /**
+   * Removes a document or collection and everything below it from the cache
+   *
+   * @param path - Path to a document or collection
+   */
+  invalidateTree(path: string): void {
+    const prefix = this.toKey(path);
+    this.generation++;
+
+    [...this.entries.keys()].forEach(key => {
+      if (key === prefix || key.startsWith(`${prefix}/`)) {
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Removes every document from the cache
+   */
+  clear(): void {
+    this.generation++;
+    this.entries.clear();
+  }
+
+  /**
+   * Gets the cache's hit/miss counters
+   *
+   * @returns The current statistics
+   */
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      size: this.entries.size,
+    };
+  }
+
+  /**
+   * Resets the hit/miss counters without clearing cached documents
+   */
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+    this.expirations = 0;
+  }
+
+  /**
+   * Gets the TTL that applies to a document
+   *
+   * @param path - Normalized path to the document
+   * @returns The TTL in ms; 0 means the document isn't cached
+   */
+  private getTtl(path: string): number {
+    const match = this.ttls.find(([pattern]) => documentMatchesPattern(pattern, path));
+    return match ? match[1] : this.defaultTtlMs;
+  }
+
+  /**
+   * Normalizes a path so 'users/1' and '/users/1/' share an entry
+   *
+   * @param path - Path to a document or collection
+   * @returns The normalized path
+   */
+  private toKey(path: string): string {
+    return splitPath(path).join('/');
+  }
+}
+
+/**
+ * Deep-copies document data
+ *
+ * Maps and arrays are copied; Timestamps, GeoPoints, references and other
+ * class instances are immutable and kept as they are.
+ *
+ * @param value - Document data or a field value
+ * @returns An independent copy
+ */
+function copyData<V>(value: V): V {
+  if (Array.isArray(value)) {
+    return value.map(copyData) as V;
+  }
+  if (isPlainObject(value)) {
+    const copy: DocumentData = {};
+    Object.entries(value).forEach(([key, item]) => {
+      copy[key] = copyData(item);
+    });
+    return copy as V;
+  }
+  return value;
+}
@@ -0,0 +1,362 @@
+import {
+  DocumentData,
+  Firestore,
+  QueryDocumentSnapshot,
+  limit,
+  startAfter,
+} from 'firebase/firestore';
+import { FirestoreError } from './firestore-error';
+import { FirestoreBackend, firebaseBackend } from './firestore-backend';
+import { MAX_BATCH_SIZE } from './bulk-writer';
+import { splitPath } from './path-pattern';
+
+/**
+ * Names of the subcollections under a document, each with its own nested subcollections
+ *
+ * The client SDK can't list a document's subcollections, so tree operations
+ * only visit the subcollections described here.
+ *
+ * @example
+ * // users/{uid}/posts/{postId}/comments and users/{uid}/settings
+ * const tree: SubcollectionTree = { posts: { comments: {} }, settings: {} };
+ */
+export interface SubcollectionTree {
+  [name: string]: SubcollectionTree;
+}
+
+/**
+ * Options for recursive deletes
+ */
+export interface RecursiveDeleteOptions {
+  /** Subcollections to delete under each document (default: none) */
+  subcollections?: SubcollectionTree;
+  /** Documents read per page and deleted per batch (default: 500, the Firestore maximum) */
+  batchSize?: number;
+  /** Report what would be deleted without deleting anything */
+  dryRun?: boolean;
+  /** Called after each batch with the number of documents processed so far */
+  onProgress?: (processed: number, lastPath: string) => void;
+}
+
+/**
+ * Report returned by a recursive delete
+ */
+export interface RecursiveDeleteResult {
+  /** Number of documents deleted (or that would be deleted in a dry run) */
+  deleted: number;
+  /** Paths of the documents that would be deleted; only filled in a dry run */
+  paths: string[];
+}
+
+/**
+ * Options for copying document trees
+ */
+export interface CopyTreeOptions {
+  /** Subcollections to copy under each document (default: none) */
+  subcollections?: SubcollectionTree;
+  /** Documents read per page and written per batch (default: 500, the Firestore maximum) */
+  batchSize?: number;
+  /** Called after each batch with the number of documents copied so far */
+  onProgress?: (processed: number, lastPath: string) => void;
+}
+
+/**
+ * Report returned by a tree copy
+ */
+export interface CopyTreeResult {
+  /** Number of documents copied */
+  copied: number;
+}
+
+type TreeWrite =
+  { type: 'set'; path: string; data: DocumentData } | { type: 'delete'; path: string };
+
+/**
+ * Walks documents and their subcollections to delete or copy whole trees
+ *
+ * Reads and writes use raw document data: no converters, validators or
+ * serialization are applied, so copies are exact. Documents are deleted
+ * children-first, so an interrupted delete can be re-run from the same root.
+ */
+export class DocumentTree {
+  private pending: TreeWrite[] = [];
+  private processed = 0;
+  private paths: string[] = [];
+  private batchSize = MAX_BATCH_SIZE;
+  private dryRun = false;
+  private onProgress?: (processed: number, lastPath: string) => void;
+
+  /**
+   * Creates a new DocumentTree instance
+   *
+   * @param firestore - Firestore instance
+   * @param backend - Backend that performs the Firestore operations (default: the Firebase SDK)
+   */
+  constructor(
+    private firestore: Firestore,
+    private backend: FirestoreBackend = firebaseBackend,
+  ) {}
+
+  /**
+   * Finds which of the candidate subcollections of a document contain documents
+   *
+   * @param path - Path to the document (e.g., 'users/123')
+   * @param candidates - Subcollection names to check
+   * @returns Promise resolving to the non-empty subcollection names, in candidate order
+   */
+  async listSubcollections(path: string, candidates: string[]): Promise<string[]> {
+    const found = await Promise.all(
+      candidates.map(async name => {
+        const snapshot = await this.backend.getDocs(
+          this.backend.query(this.backend.collection(this.firestore, `${path}/${name}`), limit(1)),
+        );
+        return snapshot.empty ? null : name;
+      }),
+    );
+    return found.filter((name): name is string => name !== null);
+  }
+
+  /**
+   * Deletes a document or collection together with the given subcollections
+   *
+   * @param path - Path to a document (e.g., 'users/123') or collection (e.g., 'users')
+   * @param options - Subcollections to include, batch size, dry run and progress callback
+   * @returns Promise resolving to the number of documents deleted
+   * @throws FirestoreError if a batch fails
+   */
+  async deleteRecursive(
+    path: string,
+    options: RecursiveDeleteOptions = {},
+  ): Promise<RecursiveDeleteResult> {
+    this.reset(options.batchSize, options.onProgress);
+    this.dryRun = options.dryRun ?? false;
+    const subcollections = options.subcollections ?? {};
+
+    if (isDocumentPath(path)) {
+      await this.deleteDocumentTree(path, subcollections);
+    } else {
+      await this.deleteCollectionTree(path, subcollections);
+    }
+    await this.flush();
+
+    return { deleted: this.processed, paths: this.paths };
+  }
+
+  /**
+   * Copies a document and the given subcollections to another path
+   *
+   * Document ids are kept, so 'tenants/a/users/1/posts/x' copied to
+   * 'tenants/b/users/1' becomes 'tenants/b/users/1/posts/x'. Existing
+   * documents at the destination are overwritten. DocumentReference fields
+   * are copied as-is and still point at the source tree.
+   *
+   * @param sourcePath - Path to the document to copy (e.g., 'tenants/a/users/1')
+   * @param destinationPath - Path to copy the document to (e.g., 'tenants/b/users/1')
+   * @param options - Subcollections to include, batch size and progress callback
+   * @returns Promise resolving to the number of documents copied
+   * @throws FirestoreError if the paths aren't documents, overlap, or a batch fails
+   */
+  async copyDocumentTree(
+    sourcePath: string,
+    destinationPath: string,
+    options: CopyTreeOptions = {},
+  ): Promise<CopyTreeResult> {
+    if (!isDocumentPath(sourcePath) || !isDocumentPath(destinationPath)) {
+      throw new FirestoreError(
+        `Cannot copy ${sourcePath} to ${destinationPath}: both paths must be documents`,
+        sourcePath,
+        'invalid-argument',
+      );
+    }
+    if (
+      destinationPath === sourcePath ||
+      destinationPath.startsWith(`${sourcePath}/`) ||
+      sourcePath.startsWith(`${destinationPath}/`)
+    ) {
+      throw new FirestoreError(
+        `Cannot copy ${sourcePath} to ${destinationPath}: the trees overlap`,
+        sourcePath,
+        'invalid-argument',
+      );
+    }
+
+    this.reset(options.batchSize, options.onProgress);
+    this.dryRun = false;
+
+    const snapshot = await this.backend.getDoc(this.backend.doc(this.firestore, sourcePath));
+    if (snapshot.exists()) {
+      await this.queue({ type: 'set', path: destinationPath, data: snapshot.data() });
+    }
+    await this.copySubcollections(sourcePath, destinationPath, options.subcollections ?? {});
+    await this.flush();
+
+    return { copied: this.processed };
+  }
+
+  /**
+   * Deletes a document after deleting its subcollections
+   *
+   * @param path - Path to the document
+   * @param subcollections - Subcollections under the document
+   */
+  private async deleteDocumentTree(path: string, subcollections: SubcollectionTree): Promise<void> {
+    for (const name of Object.keys(subcollections)) {
+      await this.deleteCollectionTree(`${path}/${name}`, subcollections[name]);
+    }
+    await this.queue({ type: 'delete', path });
+  }
+
+  /**
+   * Deletes every document in a collection, each with its subcollections
+   *
+   * @param collectionPath - Path to the collection
+   * @param subcollections - Subcollections under each document
+   */
+  private async deleteCollectionTree(
+    collectionPath: string,
+    subcollections: SubcollectionTree,
+  ): Promise<void> {
+    await this.forEachDocument(collectionPath, docSnap =>
+      this.deleteDocumentTree(docSnap.ref.path, subcollections),
+    );
+  }
+
+  /**
+   * Copies the documents of each subcollection, with their own subcollections
+   *
+   * @param sourcePath - Path to the source document
+   * @param destinationPath - Path to the destination document
+   * @param subcollections - Subcollections under the document
+   */
+  private async copySubcollections(
+    sourcePath: string,
+    destinationPath: string,
+    subcollections: SubcollectionTree,
+  ): Promise<void> {
+    for (const name of Object.keys(subcollections)) {
+      await this.forEachDocument(`${sourcePath}/${name}`, async docSnap => {
+        const target = `${destinationPath}/${name}/${docSnap.id}`;
+        await this.queue({ type: 'set', path: target, data: docSnap.data() });
+        await this.copySubcollections(docSnap.ref.path, target, subcollections[name]);
+      });
+    }
+  }
+
+  /**
+   * Visits every document in a collection, one page at a time
+   *
+   * Pages continue after the previous page's last snapshot, which stays valid
+   * even if that document has since been deleted.
+   *
+   * @param collectionPath - Path to the collection
+   * @param visit - Called for each document, in order
+   */
+  private async forEachDocument(
+    collectionPath: string,
+    visit: (docSnap: QueryDocumentSnapshot<DocumentData>) => Promise<void>,
+  ): Promise<void> {
+    const collectionRef = this.backend.collection(this.firestore, collectionPath);
+    let after: QueryDocumentSnapshot<DocumentData> | undefined;
+
+    for (;;) {
+      const constraints = after
+        ? [startAfter(after), limit(this.batchSize)]
+        : [limit(this.batchSize)];
+      const snapshot = await this.backend.getDocs(
+        this.backend.query(collectionRef, ...constraints),
+      );
+
+      for (const docSnap of snapshot.docs) {
+        await visit(docSnap);
+      }
+
+      if (snapshot.docs.length < this.batchSize) {
+        return;
+      }
+      after = snapshot.docs[snapshot.docs.length - 1];
+    }
+  }
+
+  /**
+   * Queues a write, committing the pending batch once it is full
+   *
+   * @param write - The write to queue
+   */
+  private async queue(write: TreeWrite): Promise<void> {
+    this.pending.push(write);
+    if (this.pending.length >= this.batchSize) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Commits the pending writes as one batch (or records them in a dry run)
+   *
+   * @throws FirestoreError if the batch fails
+   */
+  private async flush(): Promise<void> {
+    const writes = this.pending;
+    if (writes.length === 0) {
+      return;
+    }
+    this.pending = [];
+
+    if (this.dryRun) {
+      this.paths.push(...writes.map(write => write.path));
+    } else {
+      const batch = this.backend.writeBatch(this.firestore);
+      writes.forEach(write => {
+        const docRef = this.backend.doc(this.firestore, write.path);
+        if (write.type === 'set') {
+          batch.set(docRef, write.data);
+        } else {
+          batch.delete(docRef);
+        }
+      });
+
+      try {
+        await batch.commit();
+      } catch (error: any) {
+        console.error(`Error committing batch of ${writes.length} tree operations:`, error);
+        throw new FirestoreError(
+          error.message || `Failed to commit batch of ${writes.length} tree operations`,
+          writes.length === 1 ? writes[0].path : undefined,
+          error.code,
+          error,
+        );
+      }
+    }
+
+    this.processed += writes.length;
+    if (this.onProgress) {
+      this.onProgress(this.processed, writes[writes.length - 1].path);
+    }
+  }
+
+  /**
+   * Clears the state left by a previous operation
+   *
+   * @param batchSize - Requested batch size
+   * @param onProgress - Progress callback for the new operation
+   */
+  private reset(
+    batchSize: number | undefined,
+    onProgress: ((processed: number, lastPath: string) => void) | undefined,
+  ): void {
+    this.pending = [];
+    this.processed = 0;
+    this.paths = [];
+    this.batchSize = Math.max(1, Math.min(batchSize ?? MAX_BATCH_SIZE, MAX_BATCH_SIZE));
+    this.onProgress = onProgress;
+  }
+}
+
+/**
+ * Checks whether a path points to a document (an even number of segments)
+ *
+ * @param path - The path to check
+ * @returns Whether the path is a document path
+ */
+function isDocumentPath(path: string): boolean {
+  return splitPath(path).length % 2 === 0;
+}
@@ -0,0 +1,360 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'crypto';
+import { DocumentData, DocumentReference, FieldValue } from 'firebase/firestore';
+import { FirestoreError } from './firestore-error';
+import { decodeFirestoreValue, encodeFirestoreValue } from './collection-transfer';
+import { isPlainObject } from './internal-utils';
+import { documentMatchesPattern } from './path-pattern';
+
+/** Prefix (with format version) of encrypted field values */
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+/** Cipher used for field values */
+const ALGORITHM = 'aes-256-gcm';
+
+/** AES-256 key length in bytes */
+const KEY_LENGTH = 32;
+
+/** GCM nonce length in bytes */
+const IV_LENGTH = 12;
+
+/** GCM authentication tag length in bytes */
+const TAG_LENGTH = 16;
+
+/**
+ * Supplies the keys used for field encryption
+ *
+ * Every encrypted value records the id of its key, so keys can be rotated by
+ * changing the current key id while keeping older keys available for reads.
+ */
+export interface EncryptionKeyProvider {
+  /** Id of the key new values are encrypted with (must not contain ':') */
+  getCurrentKeyId(): string;
+  /** Gets the 32-byte AES-256 key with the given id */
+  getKey(keyId: string): Uint8Array;
+}
+
+/**
+ * An encrypted field declaration
+ */
+export interface EncryptedFieldSpec {
+  /** Field path, with dots for nested fields (e.g., 'contact.email') */
+  field: string;
+  /**
+   * Encrypt equal values to equal ciphertexts, so the field can be used in
+   * equality queries via encryptForQuery(). This reveals which documents
+   * share a value, so only use it for fields that need to be queried.
+   */
+  deterministic?: boolean;
+}
+
+/**
+ * Configuration for field-level encryption
+ */
+export interface EncryptionOptions {
+  /** Source of encryption keys */
+  keyProvider: EncryptionKeyProvider;
+  /**
+   * Encrypted fields by collection or document path pattern
+   * (e.g., { users: ['email', { field: 'phone', deterministic: true }] })
+   */
+  fields: Record<string, Array<string | EncryptedFieldSpec>>;
+}
+
+/**
+ * Key provider backed by a fixed set of keys
+ */
+export class StaticKeyProvider implements EncryptionKeyProvider {
+  private keys = new Map<string, Uint8Array>();
+
+  /**
+   * Creates a new StaticKeyProvider
+   *
+   * @param keys - Keys by id, as bytes or base64 strings
+   * @param currentKeyId - Id of the key used for new values
+   * @throws FirestoreError if the current key is missing
+   */
+  constructor(
+    keys: Record<string, Uint8Array | string>,
+    private currentKeyId: string,
+  ) {
+    Object.entries(keys).forEach(([keyId, key]) => {
+      this.keys.set(keyId, typeof key === 'string' ? Buffer.from(key, 'base64') : key);
+    });
+    this.getKey(currentKeyId);
+  }
+
+  getCurrentKeyId(): string {
+    return this.currentKeyId;
+  }
+
+  getKey(keyId: string): Uint8Array {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new FirestoreError(`Unknown encryption key '${keyId}'`, undefined, 'not-found');
+    }
+    return key;
+  }
+}
+
+/**
+ * Encrypts and decrypts declared document fields with AES-256-GCM
+ *
+ * Values are encoded like collection exports (so Timestamps, references and
+ * other Firestore types survive), encrypted, and stored as strings of the
+ * form 'enc:v1:<keyId>:<r|d>:<iv>:<ciphertext>'. The field path is bound to
+ * the ciphertext, so an encrypted value can't be moved to another field.
+ * Null values and FieldValue sentinels are stored as they are.
+ */
+export class FieldEncryption {
+  private fields: Array<{ pattern: string; specs: EncryptedFieldSpec[] }>;
+
+  /**
+   * Creates a new FieldEncryption instance
+   *
+   * @param options - Encryption options, or undefined to disable encryption
+   * @param toReference - Creates a document reference from a path, for decoding references
+   */
+  constructor(
+    private options: EncryptionOptions | undefined,
+    private toReference: (path: string) => DocumentReference,
+  ) {
+    this.fields = Object.entries(options?.fields ?? {}).map(([pattern, specs]) => ({
+      pattern,
+      specs: specs.map(spec => (typeof spec === 'string' ? { field: spec } : spec)),
+    }));
+  }
+
+  /**
+   * Encrypts the declared fields in the data of a write
+   *
+   * Works for both nested set data and update data with dotted field paths.
+   * An encrypted field is stored as a single value, so update paths inside
+   * it (e.g., 'contact.email' when 'contact' is encrypted) are rejected.
+   *
+   * @param path - Path to the document
+   * @param data - The data being written
+   * @returns The data with declared fields encrypted, or the original data if none apply
+   * @throws FirestoreError if a field path points inside an encrypted field
+   */
+  encrypt(path: string, data: DocumentData): DocumentData {
+    const specs = this.getSpecs(path);
+    if (specs.length === 0) {
+      return data;
+    }
+
+    Object.keys(data).forEach(key => {
+      const spec = specs.find(s => key.startsWith(`${s.field}.`));
+      if (spec) {
+        throw new FirestoreError(
+          `Can't write '${key}' inside encrypted field '${spec.field}'; write the whole field instead`,
+          path,
+          'invalid-argument',
+        );
+      }
+    });
+
+    return specs.reduce(
+      (result, spec) => transformField(result, spec.field, value => this.encryptValue(spec, value)),
+      data,
+    );
+  }
+
+  /**
+   * Decrypts the declared fields in document data that has been read
+   *
+   * Values that aren't encrypted (e.g., written before the field was
+   * declared) are returned as they are.
+   *
+   * @param path - Path to the document
+   * @param data - The document data
+   * @returns The data with declared fields decrypted
+   * @throws FirestoreError if a value can't be decrypted
+   */
+  decrypt(path: string, data: unknown): unknown {
+    const specs = this.getSpecs(path);
+    if (specs.length === 0 || data === null || typeof data !== 'object') {
+      return data;
+    }
+
+    return specs.reduce(
+      (result, spec) =>
+        transformField(result, spec.field, value => this.decryptValue(path, spec, value)),
+      data as DocumentData,
+    );
+  }
+
+  /**
+   * Encrypts a value for an equality query on a deterministic field
+   *
+   * Only matches documents written with the current key.
+   *
+   * @param collectionPath - Path to the collection being queried
+   * @param field - The encrypted field
+   * @param value - The plain value to match
+   * @returns The ciphertext to compare the field with
+   * @throws FirestoreError if the field isn't declared as deterministic
+   */
+  encryptForQuery(collectionPath: string, field: string, value: unknown): string {
+    const spec = this.getSpecs(`${collectionPath}/_`).find(item => item.field === field);
+    if (!spec?.deterministic) {
+      throw new FirestoreError(
+        `Field '${field}' is not a deterministic encrypted field of ${collectionPath}`,
+        collectionPath,
+        'invalid-argument',
+      );
+    }
+    return this.encryptValue(spec, value) as string;
+  }
+
+  /**
+   * Gets the encrypted fields declared for a document
+   *
+   * @param path - Path to the document
+   * @returns The field specs of every matching pattern
+   */
+  private getSpecs(path: string): EncryptedFieldSpec[] {
+    return this.fields
+      .filter(({ pattern }) => documentMatchesPattern(pattern, path))
+      .flatMap(({ specs }) => specs);
+  }
+
+  /**
+   * Encrypts a single field value
+   *
+   * @param spec - The field declaration
+   * @param value - The plain value
+   * @returns The encrypted string, or the value itself for null and sentinels
+   */
+  private encryptValue(spec: EncryptedFieldSpec, value: unknown): unknown {
+    if (value === null || value instanceof FieldValue || !this.options) {
+      return value;
+    }
+
+    const keyProvider = this.options.keyProvider;
+    const keyId = keyProvider.getCurrentKeyId();
+    if (keyId.includes(':')) {
+      throw new FirestoreError(
+        `Invalid encryption key id '${keyId}': must not contain ':'`,
+        undefined,
+        'invalid-argument',
+      );
+    }
+
+    const key = getAesKey(keyProvider, keyId);
+    const plaintext = Buffer.from(JSON.stringify(encodeFirestoreValue(value)), 'utf8');
+    const iv = spec.deterministic
+      ? createHmac('sha256', createHmac('sha256', key).update('deterministic-iv').digest())
+          .update(spec.field)
+          .update('\0')
+          .update(plaintext)
+          .digest()
+          .subarray(0, IV_LENGTH)
+      : randomBytes(IV_LENGTH);
+
+    const cipher = createCipheriv(ALGORITHM, key, iv, { authTagLength: TAG_LENGTH });
+    cipher.setAAD(Buffer.from(spec.field, 'utf8'));
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]);
+
+    const mode = spec.deterministic ? 'd' : 'r';
+    return `${ENCRYPTED_PREFIX}${keyId}:${mode}:${iv.toString('base64')}:${ciphertext.toString('base64')}`;
+  }
+
+  /**
+   * Decrypts a single field value
+   *
+   * @param path - Path to the document, for error messages
+   * @param spec - The field declaration
+   * @param value - The stored value
+   * @returns The plain value, or the value itself if it isn't encrypted
+   * @throws FirestoreError if the value can't be decrypted
+   */
+  private decryptValue(path: string, spec: EncryptedFieldSpec, value: unknown): unknown {
+    if (typeof value !== 'string' || !value.startsWith(ENCRYPTED_PREFIX) || !this.options) {
+      return value;
+    }
+
+    try {
+      const [keyId, , iv, data] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+      const key = getAesKey(this.options.keyProvider, keyId);
+      const ciphertext = Buffer.from(data, 'base64');
+
+      const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'), {
+        authTagLength: TAG_LENGTH,
+      });
+      decipher.setAAD(Buffer.from(spec.field, 'utf8'));
+      decipher.setAuthTag(ciphertext.subarray(ciphertext.length - TAG_LENGTH));
+      const plaintext = Buffer.concat([
+        decipher.update(ciphertext.subarray(0, ciphertext.length - TAG_LENGTH)),
+        decipher.final(),
+      ]);
+
+      return decodeFirestoreValue(JSON.parse(plaintext.toString('utf8')), this.toReference);
+    } catch (error: any) {
+      throw new FirestoreError(
+        `Failed to decrypt field '${spec.field}': ${error.message}`,
+        path,
+        'data-loss',
+        error,
+      );
+    }
+  }
+}
+
+/**
+ * Gets a key from a provider and checks that it is an AES-256 key
+ *
+ * @param keyProvider - The key provider
+ * @param keyId - Id of the key
+ * @returns The key
+ * @throws FirestoreError if the key has the wrong length
+ */
+function getAesKey(keyProvider: EncryptionKeyProvider, keyId: string): Buffer {
+  const key = Buffer.from(keyProvider.getKey(keyId));
+  if (key.length !== KEY_LENGTH) {
+    throw new FirestoreError(
+      `Encryption key '${keyId}' must be ${KEY_LENGTH} bytes, got ${key.length}`,
+      undefined,
+      'invalid-argument',
+    );
+  }
+  return key;
+}
+
+/**
+ * Applies a function to a field of document data without modifying the data
+ *
+ * The field is found either under its full dotted path (as in update data)
+ * or by walking nested maps one segment at a time.
+ *
+ * @param data - The document data
+ * @param field - Dotted field path
+ * @param transform - Produces the new value of the field
+ * @returns A copy of the data with the field transformed, or the original if the field is absent
+ */
+function transformField(
+  data: DocumentData,
+  field: string,
+  transform: (value: unknown) => unknown,
+): DocumentData {
+  if (field in data) {
+    return data[field] === undefined ? data : { ...data, [field]: transform(data[field]) };
+  }
+
+  const separator = field.indexOf('.');
+  if (separator < 0) {
+    return data;
+  }
+
+  const key = field.slice(0, separator);
+  const value = data[key];
+  if (!isPlainObject(value)) {
+    return data;
+  }
+
+  const transformed = transformField(value, field.slice(separator + 1), transform);
+  return transformed === value ? data : { ...data, [key]: transformed };
+}
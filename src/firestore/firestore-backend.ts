@@ -0,0 +1,99 @@
+import {
+  AggregateQuerySnapshot,
+  AggregateSpec,
+  CollectionReference,
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  Firestore,
+  FirestoreError as FirebaseFirestoreError,
+  Query,
+  QueryConstraint,
+  QuerySnapshot,
+  SetOptions,
+  Transaction,
+  TransactionOptions,
+  Unsubscribe,
+  UpdateData,
+  WithFieldValue,
+  WriteBatch,
+  collection,
+  collectionGroup,
+  deleteDoc,
+  doc,
+  getAggregateFromServer,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  runTransaction,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+
+/**
+ * The Firestore operations FirestoreService relies on
+ *
+ * The default backend is the Firebase SDK itself. Alternative backends, such
+ * as the in-memory store in the testing module, implement the same functions
+ * so the service can run without a Firestore server. Query constraints,
+ * FieldValue sentinels and aggregate fields are still created with the SDK's
+ * own factories (where(), increment(), sum(), ...) and must be understood by
+ * every backend.
+ */
+export interface FirestoreBackend {
+  doc(firestore: Firestore, path: string): DocumentReference<DocumentData>;
+  collection(firestore: Firestore, path: string): CollectionReference<DocumentData>;
+  collectionGroup(firestore: Firestore, collectionId: string): Query<DocumentData>;
+  query<T>(query: Query<T>, ...queryConstraints: QueryConstraint[]): Query<T>;
+  getDoc<T>(reference: DocumentReference<T>): Promise<DocumentSnapshot<T>>;
+  getDocs<T>(query: Query<T>): Promise<QuerySnapshot<T>>;
+  setDoc<T>(reference: DocumentReference<T>, data: WithFieldValue<T>): Promise<void>;
+  setDoc<T>(
+    reference: DocumentReference<T>,
+    data: WithFieldValue<T>,
+    options: SetOptions,
+  ): Promise<void>;
+  updateDoc<T>(reference: DocumentReference<T>, data: UpdateData<T>): Promise<void>;
+  deleteDoc<T>(reference: DocumentReference<T>): Promise<void>;
+  onSnapshot<T>(
+    reference: DocumentReference<T>,
+    onNext: (snapshot: DocumentSnapshot<T>) => void,
+    onError?: (error: FirebaseFirestoreError) => void,
+  ): Unsubscribe;
+  onSnapshot<T>(
+    query: Query<T>,
+    onNext: (snapshot: QuerySnapshot<T>) => void,
+    onError?: (error: FirebaseFirestoreError) => void,
+  ): Unsubscribe;
+  runTransaction<T>(
+    firestore: Firestore,
+    updateFunction: (transaction: Transaction) => Promise<T>,
+    options?: TransactionOptions,
+  ): Promise<T>;
+  writeBatch(firestore: Firestore): WriteBatch;
+  getAggregateFromServer<S extends AggregateSpec, T>(
+    query: Query<T>,
+    aggregateSpec: S,
+  ): Promise<AggregateQuerySnapshot<S, T>>;
+}
+
+/**
+ * Backend that talks to Firestore through the Firebase SDK
+ */
+export const firebaseBackend: FirestoreBackend = {
+  doc,
+  collection,
+  collectionGroup,
+  query,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  onSnapshot,
+  runTransaction,
+  writeBatch,
+  getAggregateFromServer,
+};
@@ -0,0 +1,152 @@
+/**
+ * How a mapped property is stored in Firestore
+ */
+export type FieldKind = 'field' | 'timestamp';
+
+/**
+ * Mapping between a model property and a Firestore field
+ */
+export interface FieldMetadata {
+  /** Name of the property on the model class */
+  propertyKey: string;
+  /** Name of the field in the Firestore document */
+  fieldName: string;
+  kind: FieldKind;
+}
+
+/**
+ * Everything the decorators record about a model class
+ */
+export interface ModelMetadata {
+  /** Path to the collection the model is stored in */
+  collectionPath?: string;
+  /** Property that receives the document id (default: 'id') */
+  idProperty: string;
+  fields: FieldMetadata[];
+}
+
+/**
+ * Options for field decorators
+ */
+export interface FirestoreFieldOptions {
+  /** Name of the field in Firestore, if different from the property name */
+  name?: string;
+}
+
+/**
+ * Metadata recorded directly on each decorated class (inherited entries are merged on lookup)
+ */
+const metadataByClass = new WeakMap<object, Partial<ModelMetadata> & { fields: FieldMetadata[] }>();
+
+/**
+ * Gets or creates the metadata recorded directly on a class
+ *
+ * @param target - The class constructor
+ * @returns The class's own metadata
+ */
+function ownMetadata(target: object): Partial<ModelMetadata> & { fields: FieldMetadata[] } {
+  let metadata = metadataByClass.get(target);
+  if (!metadata) {
+    metadata = { fields: [] };
+    metadataByClass.set(target, metadata);
+  }
+  return metadata;
+}
+
+/**
+ * Records a field mapping for a decorated property
+ *
+ * @param prototype - The class prototype the decorator was applied to
+ * @param propertyKey - The decorated property
+ * @param kind - How the property is stored
+ * @param options - Optional field options
+ */
+function addField(
+  prototype: object,
+  propertyKey: string | symbol,
+  kind: FieldKind,
+  options: FirestoreFieldOptions = {},
+): void {
+  const key = String(propertyKey);
+  const metadata = ownMetadata(prototype.constructor);
+  metadata.fields = metadata.fields.filter(field => field.propertyKey !== key);
+  metadata.fields.push({ propertyKey: key, fieldName: options.name ?? key, kind });
+}
+
+/**
+ * Gets the metadata for a model class, including mappings inherited from base classes
+ *
+ * @param model - The model class
+ * @returns The model metadata
+ */
+export function getModelMetadata(model: object): ModelMetadata {
+  const chain: object[] = [];
+  for (let current = model; current && current !== Function.prototype;) {
+    chain.unshift(current);
+    current = Object.getPrototypeOf(current);
+  }
+
+  const metadata: ModelMetadata = { idProperty: 'id', fields: [] };
+  chain.forEach(target => {
+    const own = metadataByClass.get(target);
+    if (!own) {
+      return;
+    }
+    metadata.collectionPath = own.collectionPath ?? metadata.collectionPath;
+    metadata.idProperty = own.idProperty ?? metadata.idProperty;
+    own.fields.forEach(field => {
+      metadata.fields = metadata.fields.filter(f => f.propertyKey !== field.propertyKey);
+      metadata.fields.push(field);
+    });
+  });
+
+  return metadata;
+}
+
+/**
+ * Marks a class as a model stored in a Firestore collection
+ *
+ * @param collectionPath - Path to the collection (e.g., 'users')
+ */
+export function FirestoreCollection(collectionPath: string) {
+  return (target: object): void => {
+    ownMetadata(target).collectionPath = collectionPath;
+  };
+}
+
+/**
+ * Marks the property that receives the document id
+ *
+ * The id is injected on load and used as the document id on save; it is not
+ * stored as a field. Models without this decorator use an `id` property.
+ */
+export function FirestoreId() {
+  return (prototype: object, propertyKey: string | symbol): void => {
+    ownMetadata(prototype.constructor).idProperty = String(propertyKey);
+  };
+}
+
+/**
+ * Maps a property to a Firestore field
+ *
+ * Only decorated properties are persisted; any other properties on the model
+ * are ignored on save, and unmapped fields in the document are ignored on load.
+ *
+ * @param options - Optional field options (e.g., { name: 'display_name' })
+ */
+export function FirestoreField(options?: FirestoreFieldOptions) {
+  return (prototype: object, propertyKey: string | symbol): void => {
+    addField(prototype, propertyKey, 'field', options);
+  };
+}
+
+/**
+ * Maps a Date property to a Firestore Timestamp field
+ *
+ * @param options - Optional field options (e.g., { name: 'created_at' })
+ */
+export function FirestoreTimestamp(options?: FirestoreFieldOptions) {
+  return (prototype: object, propertyKey: string | symbol): void => {
+    addField(prototype, propertyKey, 'timestamp', options);
+  };
+}
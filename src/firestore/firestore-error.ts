@@ -0,0 +1,24 @@
+/**
+ * Custom error class for Firestore-related errors
+ */
+export class FirestoreError extends Error {
+  /** Number of attempts made, when the operation ran under a retry policy */
+  public attempts?: number;
+  /** Paths of all documents written, when a multi-document write such as a batch failed */
+  public paths?: string[];
+
+  constructor(
+    message: string,
+    public path?: string,
+    public code?: string,
+    public originalError?: Error,
+  ) {
+    super(message);
+    this.name = 'FirestoreError';
+
+    // Ensures proper prototype chain for instanceof checks
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, FirestoreError);
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import { Bytes, DocumentData, DocumentReference, GeoPoint, Timestamp } from 'firebase/firestore';
+import { FirestoreError } from './firestore-error';
+import { isPlainObject } from './internal-utils';
+
+/**
+ * Options for converting between application values and Firestore values
+ */
+export interface SerializationOptions {
+  /** Convert Date to Timestamp on write and Timestamp to Date on read (default: true) */
+  dates?: boolean;
+  /** Remove undefined properties on write ('strip', default) or throw ('reject') */
+  undefinedValues?: 'strip' | 'reject';
+  /**
+   * Read GeoPoints as GeoPoint instances ('geopoint', default) or as plain
+   * { latitude, longitude } objects ('object'), which are written back as GeoPoints
+   */
+  geoPoints?: 'geopoint' | 'object';
+  /**
+   * Read Bytes as Bytes instances ('bytes', default) or as Uint8Array
+   * ('uint8array'), which are written back as Bytes
+   */
+  bytes?: 'bytes' | 'uint8array';
+  /**
+   * Read DocumentReferences as references ('reference', default) or as their
+   * path strings ('path'). Paths can't be told apart from other strings, so
+   * they are written back as plain strings.
+   */
+  references?: 'reference' | 'path';
+}
+
+/**
+ * Converts document data between application values and Firestore values
+ *
+ * Plain objects and arrays are converted recursively; FieldValue sentinels
+ * and other class instances are passed through unchanged.
+ */
+export class FirestoreSerializer {
+  private options: Required<SerializationOptions>;
+
+  /**
+   * Creates a new FirestoreSerializer instance
+   *
+   * @param options - Optional conversion settings
+   */
+  constructor(options: SerializationOptions = {}) {
+    this.options = {
+      dates: options.dates ?? true,
+      undefinedValues: options.undefinedValues ?? 'strip',
+      geoPoints: options.geoPoints ?? 'geopoint',
+      bytes: options.bytes ?? 'bytes',
+      references: options.references ?? 'reference',
+    };
+  }
+
+  /**
+   * Converts application data to the values sent to Firestore
+   *
+   * @param data - Data about to be written
+   * @param path - Path to the document, used in error messages
+   * @returns The converted data
+   * @throws FirestoreError if data contains undefined values in 'reject' mode
+   */
+  serialize(data: DocumentData, path?: string): DocumentData {
+    return this.serializeValue(data, path, []) as DocumentData;
+  }
+
+  /**
+   * Converts data read from Firestore to application values
+   *
+   * @param data - Data that was read
+   * @returns The converted data
+   */
+  deserialize<T>(data: T): T {
+    return this.deserializeValue(data) as T;
+  }
+
+  /**
+   * Converts a single value for writing
+   *
+   * @param value - The value to convert
+   * @param path - Path to the document, used in error messages
+   * @param fieldPath - Path to the value within the document
+   * @returns The converted value
+   */
+  private serializeValue(value: unknown, path: string | undefined, fieldPath: string[]): unknown {
+    if (value instanceof Date) {
+      return this.options.dates ? Timestamp.fromDate(value) : value;
+    }
+
+    if (value instanceof Uint8Array) {
+      return this.options.bytes === 'uint8array' ? Bytes.fromUint8Array(value) : value;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) => {
+        if (item === undefined) {
+          this.checkUndefined(path, [...fieldPath, String(index)]);
+          // Array elements can't be removed without shifting the rest, so store null instead
+          return null;
+        }
+        return this.serializeValue(item, path, [...fieldPath, String(index)]);
+      });
+    }
+
+    if (isPlainObject(value)) {
+      if (this.options.geoPoints === 'object' && isLatLng(value)) {
+        return new GeoPoint(value.latitude, value.longitude);
+      }
+
+      const result: DocumentData = {};
+      Object.entries(value).forEach(([key, fieldValue]) => {
+        if (fieldValue === undefined) {
+          this.checkUndefined(path, [...fieldPath, key]);
+          return;
+        }
+        result[key] = this.serializeValue(fieldValue, path, [...fieldPath, key]);
+      });
+      return result;
+    }
+
+    return value;
+  }
+
+  /**
+   * Converts a single value that was read
+   *
+   * @param value - The value to convert
+   * @returns The converted value
+   */
+  private deserializeValue(value: unknown): unknown {
+    if (value instanceof Timestamp) {
+      return this.options.dates ? value.toDate() : value;
+    }
+
+    if (value instanceof GeoPoint) {
+      return this.options.geoPoints === 'object'
+        ? { latitude: value.latitude, longitude: value.longitude }
+        : value;
+    }
+
+    if (value instanceof Bytes) {
+      return this.options.bytes === 'uint8array' ? value.toUint8Array() : value;
+    }
+
+    if (value instanceof DocumentReference) {
+      return this.options.references === 'path' ? value.path : value;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.deserializeValue(item));
+    }
+
+    if (isPlainObject(value)) {
+      const result: DocumentData = {};
+      Object.entries(value).forEach(([key, fieldValue]) => {
+        result[key] = this.deserializeValue(fieldValue);
+      });
+      return result;
+    }
+
+    return value;
+  }
+
+  /**
+   * Throws for an undefined value when undefined values are rejected
+   *
+   * @param path - Path to the document
+   * @param fieldPath - Path to the undefined value within the document
+   * @throws FirestoreError in 'reject' mode
+   */
+  private checkUndefined(path: string | undefined, fieldPath: string[]): void {
+    if (this.options.undefinedValues === 'reject') {
+      throw new FirestoreError(
+        `Undefined value for field '${fieldPath.join('.')}'${path ? ` at ${path}` : ''}`,
+        path,
+        'invalid-argument',
+      );
+    }
+  }
+}
+
+/**
+ * Checks whether a plain object is exactly a { latitude, longitude } pair
+ *
+ * @param value - The object to check
+ * @returns Whether the object is a coordinate pair
+ */
+function isLatLng(
+  value: Record<string, unknown>,
+): value is { latitude: number; longitude: number } {
+  const keys = Object.keys(value);
+  return (
+    keys.length === 2 && typeof value.latitude === 'number' && typeof value.longitude === 'number'
+  );
+}
@@ -1,19 +1,74 @@
 import {
   Firestore,
-  doc,
-  getDoc,
-  setDoc,
-  updateDoc,
-  deleteDoc,
-  collection,
-  query as firestoreQuery,
-  getDocs,
   QueryConstraint,
   DocumentReference,
   DocumentData,
   WithFieldValue,
   SetOptions,
+  CollectionReference,
+  Unsubscribe,
+  TransactionOptions,
+  startAfter,
+  limit,
+  DocumentSnapshot,
+  QueryDocumentSnapshot,
+  documentId,
+  where,
 } from 'firebase/firestore';
+import { FirestoreError } from './firestore-error';
+import { FirestoreBackend, firebaseBackend } from './firestore-backend';
+import { CollectionRepository, RepositoryConverter } from './collection-repository';
+import { DocumentContext, FirestoreBatch, FirestoreTransaction } from './firestore-transaction';
+import { BulkWriteOperation, BulkWriteOptions, BulkWriteResult, BulkWriter } from './bulk-writer';
+import { Page, PageRequest, decodeCursor, encodeCursor } from './pagination';
+import { DocumentSchema, SchemaOptions, SchemaValidator } from './schema-validation';
+import { FirestoreSerializer, SerializationOptions } from './firestore-serializer';
+import {
+  FieldPath,
+  QueryArgs,
+  QueryInput,
+  splitQueryArgs,
+  toQueryConstraints,
+} from './query-builder';
+import { parseParentIds } from './path-pattern';
+import { AggregationResult, AggregationSpec, toAggregateSpec } from './aggregation';
+import { CacheStats, DocumentCache, DocumentCacheOptions } from './document-cache';
+import {
+  CollectionTransfer,
+  ExportOptions,
+  ExportResult,
+  ExportSink,
+  ImportOptions,
+  ImportResult,
+  ImportSource,
+} from './collection-transfer';
+import { EncryptionOptions, FieldEncryption } from './field-encryption';
+import { ShardedCounter } from './sharded-counter';
+import { DEFAULT_OUTBOX_COLLECTION, Outbox } from './outbox';
+import { RetryCallOptions, RetryOptions, RetryPolicy, isIdempotentWrite } from './retry-policy';
+import { AuditFields, AuditOptions, ReadOptions, SoftDeleteOptions } from './audit-fields';
+import {
+  DocumentVersioning,
+  FirestoreConflictError,
+  UpdateOptions,
+  VersionedDocument,
+  VersioningOptions,
+} from './versioning';
+import {
+  CopyTreeOptions,
+  CopyTreeResult,
+  DocumentTree,
+  RecursiveDeleteOptions,
+  RecursiveDeleteResult,
+} from './document-tree';
+
+export { FirestoreError, FirestoreConflictError };
+
+/** Documents deleted per batch by purgeDeleted() */
+const PURGE_BATCH_SIZE = 500;
+
+/** Maximum number of values in a Firestore 'in' filter */
+const IN_FILTER_LIMIT = 30;
 
 /**
  * Adds an 'id' field to any type
@@ -21,25 +76,118 @@ import {
 export type WithId<T> = T & { id: string };
 
 /**
- * Custom error class for Firestore-related errors
+ * A collection group query result with the location of the document
+ *
+ * The location fields are added after the document data, so they take
+ * precedence over stored fields with the same names.
+ */
+export type GroupDocument<T> = WithId<T> & {
+  /** Full path to the document (e.g., 'posts/p1/comments/c1') */
+  path: string;
+  /** Path to the collection containing the document (e.g., 'posts/p1/comments') */
+  parentPath: string;
+  /** Ancestor document ids keyed by collection name (e.g., { posts: 'p1' }) */
+  parentIds: Record<string, string>;
+};
+
+/**
+ * Options for FirestoreService.getDocuments()
  */
-export class FirestoreError extends Error {
-  constructor(
-    message: string,
-    public path?: string,
-    public code?: string,
-    public originalError?: Error,
-  ) {
-    super(message);
-    this.name = 'FirestoreError';
+export interface GetDocumentsOptions extends ReadOptions, RetryCallOptions {
+  /** Maximum number of 'in' queries running at the same time (default: 5) */
+  maxConcurrency?: number;
+}
 
-    // Ensures proper prototype chain for instanceof checks
-    if (Error.captureStackTrace) {
-      Error.captureStackTrace(this, FirestoreError);
-    }
-  }
+/**
+ * Configuration options for FirestoreService
+ */
+export interface FirestoreServiceOptions {
+  /**
+   * Convert application values (Dates, etc.) to and from Firestore values.
+   * Pass true for the defaults or an options object to customize.
+   */
+  serialization?: boolean | SerializationOptions;
+  /**
+   * Backend that performs the Firestore operations (default: the Firebase SDK).
+   * Use InMemoryFirestore from the testing module to run without a server.
+   */
+  backend?: FirestoreBackend;
+  /**
+   * Cache documents read with getDocument() and documentExists(), with LRU
+   * eviction and per-pattern TTLs. Writes made through this service
+   * invalidate cached documents; writes from elsewhere show up on expiry.
+   * Data is copied into and out of the cache, so returned documents can be
+   * modified freely.
+   */
+  cache?: DocumentCacheOptions;
+  /**
+   * Stamp createdAt/updatedAt (and createdBy/updatedBy when a user id is
+   * available) with server timestamps on every write. Pass true for the
+   * defaults or an options object to rename fields or supply the user id.
+   */
+  audit?: boolean | AuditOptions;
+  /**
+   * Make deleteDocument() set deletedAt instead of removing the document, and
+   * leave soft-deleted documents out of reads and queries. Pass true for the
+   * defaults or an options object to rename the field.
+   */
+  softDelete?: boolean | SoftDeleteOptions;
+  /**
+   * Store a version token (in '_version' by default) on every write, for
+   * optimistic concurrency control with getDocumentWithVersion() and
+   * updateDocument(path, data, { expectedVersion }).
+   */
+  versioning?: boolean | VersioningOptions;
+  /**
+   * Encrypt declared fields with AES-256-GCM on every write and decrypt them
+   * on every read. Fields are declared per collection or document pattern.
+   */
+  encryption?: EncryptionOptions;
+  /**
+   * Retry reads and writes that fail with transient errors (e.g.,
+   * 'unavailable'), with exponential backoff and jitter. Writes containing
+   * sentinels other than serverTimestamp() and deleteField() (such as
+   * increment()) are never retried. Pass true for the defaults or an options
+   * object; individual calls can override it with their retry option.
+   */
+  retry?: boolean | RetryOptions;
 }
 
+/**
+ * A single document change reported by a query listener
+ */
+export interface DocumentChangeEvent<T> {
+  type: 'added' | 'modified' | 'removed';
+  doc: WithId<T>;
+  oldIndex: number;
+  newIndex: number;
+}
+
+/**
+ * Result delivered to query listeners on every snapshot
+ */
+export interface QuerySnapshotResult<T> {
+  /** All documents currently matching the query */
+  docs: Array<WithId<T>>;
+  /** Changes since the previous snapshot (all documents are 'added' on the first one) */
+  changes: Array<DocumentChangeEvent<T>>;
+}
+
+/**
+ * Listener for document snapshots; receives null when the document doesn't exist
+ */
+export type DocumentListener<T> = (data: WithId<T> | null) => void;
+
+/**
+ * Listener for query snapshots
+ */
+export type QueryListener<T> = (result: QuerySnapshotResult<T>) => void;
+
+/**
+ * Handler for errors raised by a real-time listener
+ */
+export type ListenerErrorHandler = (error: FirestoreError) => void;
+
 /**
  * Service for Firestore database operations
  *
@@ -47,116 +195,646 @@ export class FirestoreError extends Error {
  */
 export class FirestoreService {
   private firestore: Firestore;
+  private backend: FirestoreBackend;
+  private listeners: Set<Unsubscribe> = new Set();
+  private schemaValidator = new SchemaValidator();
+  private serializer?: FirestoreSerializer;
+  private documentCache?: DocumentCache;
+  private auditFields: AuditFields;
+  private versioning: DocumentVersioning;
+  private fieldEncryption: FieldEncryption;
+  private retryPolicy: RetryPolicy;
 
   /**
    * Creates a new FirestoreService instance
    *
    * @param firestore - The Firestore instance to use
+   * @param options - Optional service configuration
    */
-  constructor(firestore: Firestore) {
+  constructor(firestore: Firestore, options: FirestoreServiceOptions = {}) {
     if (!firestore) {
       throw new Error('FirestoreService requires a valid Firestore instance');
     }
     this.firestore = firestore;
+    this.backend = options.backend ?? firebaseBackend;
+
+    if (options.serialization) {
+      this.serializer = new FirestoreSerializer(
+        options.serialization === true ? {} : options.serialization,
+      );
+    }
+
+    this.auditFields = new AuditFields(options.audit, options.softDelete);
+    this.versioning = new DocumentVersioning(options.versioning);
+    this.retryPolicy = new RetryPolicy(options.retry);
+    this.fieldEncryption = new FieldEncryption(options.encryption, path =>
+      this.backend.doc(this.firestore, path),
+    );
+
+    if (options.cache) {
+      this.documentCache = new DocumentCache(options.cache);
+    }
+  }
+
+  /**
+   * Gets a typed repository for a collection
+   *
+   * A converter given here only applies to the returned repository: it turns
+   * models into stored data before writes and stored data into models after
+   * reads. Other calls on the same collection see the stored data.
+   *
+   * @param collectionPath - Path to the collection (e.g., 'users')
+   * @param converter - Optional converter between T and Firestore data
+   * @returns A repository bound to the collection
+   */
+  collection<T>(
+    collectionPath: string,
+    converter?: RepositoryConverter<T>,
+  ): CollectionRepository<T> {
+    return new CollectionRepository<T>(this, collectionPath, converter);
+  }
+
+  /**
+   * Registers a schema that documents under a path pattern must satisfy
+   *
+   * setDocument and updateDocument reject invalid payloads before sending
+   * them, and reads either reject or report invalid stored documents
+   * depending on options.readMode.
+   *
+   * @param pattern - Collection or document path pattern (e.g., 'users' or 'users/{uid}/posts')
+   * @param schema - Schema with a zod-compatible safeParse()
+   * @param options - Optional handling for invalid reads
+   */
+  registerValidator(pattern: string, schema: DocumentSchema, options?: SchemaOptions): void {
+    this.schemaValidator.register(pattern, schema, options);
+  }
+
+  /**
+   * Removes the schema registered for a path pattern
+   *
+   * @param pattern - The pattern the schema was registered with
+   */
+  unregisterValidator(pattern: string): void {
+    this.schemaValidator.unregister(pattern);
   }
 
   /**
    * Gets a document from Firestore
    *
    * @param path - Path to the document (e.g., 'users/123')
+   * @param options - Optional read options (e.g., { includeDeleted: true, retry: false })
    * @returns Promise resolving to the document data
-   * @throws Error if document doesn't exist or there's a Firestore error
+   * @throws Error if document doesn't exist (or is soft-deleted) or there's a Firestore error
+   */
+  async getDocument<T>(path: string, options?: ReadOptions & RetryCallOptions): Promise<T> {
+    try {
+      const data = await this.readDocumentData(path, options?.retry);
+
+      if (data === undefined || (!options?.includeDeleted && this.auditFields.isDeleted(data))) {
+        throw new Error(`Document does not exist at path: ${path}`);
+      }
+
+      return this.processRead<T>(path, data);
+    } catch (error) {
+      console.error(`Error getting document at ${path}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a document together with its version token
+   *
+   * Pass the version to updateDocument() as expectedVersion to make sure
+   * nobody else has changed the document in the meantime.
+   *
+   * @param path - Path to the document (e.g., 'users/123')
+   * @param options - Optional read options (e.g., { includeDeleted: true })
+   * @returns Promise resolving to the document data and version
+   * @throws Error if versioning isn't enabled or the document doesn't exist
    */
-  async getDocument<T>(path: string): Promise<T> {
+  async getDocumentWithVersion<T>(
+    path: string,
+    options?: ReadOptions & RetryCallOptions,
+  ): Promise<VersionedDocument<T>> {
     try {
-      const docRef = doc(this.firestore, path);
-      const docSnap = await getDoc(docRef);
+      const field = this.versioning.getField();
+      const data = await this.readDocumentData(path, options?.retry);
 
-      if (!docSnap.exists()) {
+      if (data === undefined || (!options?.includeDeleted && this.auditFields.isDeleted(data))) {
         throw new Error(`Document does not exist at path: ${path}`);
       }
 
-      return docSnap.data() as T;
+      return { data: this.processRead<T>(path, data), version: data[field] ?? null };
     } catch (error) {
       console.error(`Error getting document at ${path}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Gets several documents from a collection by id
+   *
+   * Ids are deduplicated and fetched with 'in' queries of up to 30 ids each,
+   * a few queries at a time. Missing (and soft-deleted) documents come back
+   * as null instead of failing the whole call.
+   *
+   * @param collectionPath - Path to the collection (e.g., 'users')
+   * @param ids - Document ids; repeated ids are fetched once
+   * @param options - Optional read options (e.g., { includeDeleted: true, maxConcurrency: 2 })
+   * @returns Promise resolving to a document or null for each id, in the order of ids
+   * @throws FirestoreError if maxConcurrency is less than 1
+   */
+  async getDocuments<T>(
+    collectionPath: string,
+    ids: string[],
+    options: GetDocumentsOptions = {},
+  ): Promise<Array<WithId<T> | null>> {
+    try {
+      const maxConcurrency = options.maxConcurrency ?? 5;
+      if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+        throw new FirestoreError(
+          `maxConcurrency must be a whole number of at least 1, got ${maxConcurrency}`,
+          collectionPath,
+          'invalid-argument',
+        );
+      }
+
+      const uniqueIds = Array.from(new Set(ids));
+      const chunks: string[][] = [];
+      for (let i = 0; i < uniqueIds.length; i += IN_FILTER_LIMIT) {
+        chunks.push(uniqueIds.slice(i, i + IN_FILTER_LIMIT));
+      }
+
+      const collectionRef = this.getCollectionRef(collectionPath);
+      const found = new Map<string, WithId<T>>();
+      // Once a chunk fails the call rejects, so the other workers stop taking chunks
+      let failed = false;
+
+      const worker = async (): Promise<void> => {
+        let chunk = chunks.shift();
+        while (chunk && !failed) {
+          const q = this.backend.query(collectionRef, where(documentId(), 'in', chunk));
+          try {
+            const querySnapshot = await this.retryPolicy.run(() => this.backend.getDocs(q), {
+              path: collectionPath,
+              override: options.retry,
+            });
+
+            querySnapshot.forEach(doc => {
+              if (options.includeDeleted || !this.auditFields.isDeleted(doc.data())) {
+                found.set(doc.id, this.toWithId<T>(collectionPath, doc));
+              }
+            });
+          } catch (error) {
+            failed = true;
+            throw error;
+          }
+          chunk = chunks.shift();
+        }
+      };
+
+      const workerCount = Math.min(maxConcurrency, chunks.length);
+      await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+      return ids.map(id => found.get(id) ?? null);
+    } catch (error) {
+      console.error(`Error getting documents from ${collectionPath}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Creates or replaces a document in Firestore
    *
+   * With the audit or softDelete option the write runs in a transaction that
+   * reads the document first, so replacing a document keeps its created*
+   * fields and creating one (even with merge) stamps them.
+   *
    * @param path - Path to the document (e.g., 'users/123')
    * @param data - Data to store in the document
-   * @param options - Optional SetOptions (e.g., { merge: true })
+   * @param options - Optional SetOptions and retry override (e.g., { merge: true })
    * @returns Promise that resolves when the operation is complete
    */
-  async setDocument<T>(path: string, data: T, options?: SetOptions): Promise<void> {
+  async setDocument<T>(
+    path: string,
+    data: T,
+    options?: SetOptions & RetryCallOptions,
+  ): Promise<void> {
     try {
-      const docRef = doc(this.firestore, path);
-      if (options) {
-        await setDoc(docRef, data as WithFieldValue<DocumentData>, options);
-      } else {
-        await setDoc(docRef, data as WithFieldValue<DocumentData>);
+      const docRef = this.getDocumentRef(path);
+      const { retry, ...rest } = options ?? {};
+      const setOptions = options ? (rest as SetOptions) : undefined;
+      const setData = this.toSetData(path, data as DocumentData, setOptions);
+      const context = { path, idempotent: isIdempotentWrite(setData), override: retry };
+
+      if (this.auditFields.needsExistingData) {
+        await this.retryPolicy.run(
+          () =>
+            this.backend.runTransaction(this.firestore, async transaction => {
+              const docSnap = await transaction.get(docRef);
+              const existing = docSnap.exists() ? docSnap.data() : null;
+              const stamped = this.stampSetData(setData, setOptions, existing);
+              if (setOptions) {
+                transaction.set(docRef, stamped as WithFieldValue<DocumentData>, setOptions);
+              } else {
+                transaction.set(docRef, stamped as WithFieldValue<DocumentData>);
+              }
+            }),
+          context,
+        );
+        return;
       }
+
+      const stamped = this.stampSetData(setData, setOptions, null);
+      await this.retryPolicy.run(
+        () =>
+          setOptions
+            ? this.backend.setDoc(docRef, stamped as WithFieldValue<DocumentData>, setOptions)
+            : this.backend.setDoc(docRef, stamped as WithFieldValue<DocumentData>),
+        context,
+      );
     } catch (error) {
       console.error(`Error setting document at ${path}:`, error);
       throw error;
+    } finally {
+      this.documentCache?.invalidate(path);
+    }
+  }
+
+  /**
+   * Checks whether a document exists in Firestore
+   *
+   * @param path - Path to the document (e.g., 'users/123')
+   * @param options - Optional read options (e.g., { includeDeleted: true, retry: false })
+   * @returns Promise resolving to true if the document exists and isn't soft-deleted
+   */
+  async documentExists(path: string, options?: ReadOptions & RetryCallOptions): Promise<boolean> {
+    try {
+      const data = await this.readDocumentData(path, options?.retry);
+      return data !== undefined && (!!options?.includeDeleted || !this.auditFields.isDeleted(data));
+    } catch (error) {
+      console.error(`Error checking document at ${path}:`, error);
+      throw error;
     }
   }
 
   /**
    * Updates an existing document in Firestore
    *
+   * With options.expectedVersion the update runs in a transaction and is
+   * only applied if the document's version still matches; such updates are
+   * not retried by the retry policy.
+   *
    * @param path - Path to the document (e.g., 'users/123')
    * @param data - Fields to update in the document
+   * @param options - Optional update options (e.g., { expectedVersion })
    * @returns Promise that resolves when the operation is complete
+   * @throws FirestoreConflictError if the document's version has changed
    */
-  async updateDocument(path: string, data: Partial<any>): Promise<void> {
+  async updateDocument(path: string, data: Partial<any>, options?: UpdateOptions): Promise<void> {
     try {
-      const docRef = doc(this.firestore, path);
-      await updateDoc(docRef, data);
+      const docRef = this.getDocumentRef(path);
+
+      if (options?.expectedVersion === undefined) {
+        const updateData = this.toUpdateData(path, data);
+        await this.retryPolicy.run(() => this.backend.updateDoc(docRef, updateData), {
+          path,
+          idempotent: isIdempotentWrite(updateData),
+          override: options?.retry,
+        });
+        return;
+      }
+
+      const { expectedVersion } = options;
+      const field = this.versioning.getField();
+      await this.backend.runTransaction(this.firestore, async transaction => {
+        const docSnap = await transaction.get(docRef);
+        if (!docSnap.exists()) {
+          throw new FirestoreError(`No document to update: ${path}`, path, 'not-found');
+        }
+
+        const currentVersion = docSnap.get(field) ?? null;
+        if (currentVersion !== expectedVersion) {
+          throw new FirestoreConflictError(
+            `Document at ${path} has version ${currentVersion}, expected ${expectedVersion}`,
+            path,
+            expectedVersion,
+            currentVersion,
+            this.processRead(path, docSnap.data()),
+          );
+        }
+
+        transaction.update(docRef, this.toUpdateData(path, data));
+      });
     } catch (error) {
       console.error(`Error updating document at ${path}:`, error);
       throw error;
+    } finally {
+      this.documentCache?.invalidate(path);
     }
   }
 
   /**
    * Deletes a document from Firestore
    *
+   * With the softDelete option the document is kept and its deletedAt field
+   * is set instead; the document must exist in that case.
+   *
    * @param path - Path to the document (e.g., 'users/123')
+   * @param options - Optional retry override (e.g., { retry: false })
    * @returns Promise that resolves when the operation is complete
    */
-  async deleteDocument(path: string): Promise<void> {
+  async deleteDocument(path: string, options?: RetryCallOptions): Promise<void> {
     try {
-      const docRef = doc(this.firestore, path);
-      await deleteDoc(docRef);
+      const docRef = this.getDocumentRef(path);
+      const deleteData = this.getDeleteData();
+      await this.retryPolicy.run(
+        () =>
+          deleteData ? this.backend.updateDoc(docRef, deleteData) : this.backend.deleteDoc(docRef),
+        { path, override: options?.retry },
+      );
     } catch (error) {
       console.error(`Error deleting document at ${path}:`, error);
       throw error;
+    } finally {
+      this.documentCache?.invalidate(path);
+    }
+  }
+
+  /**
+   * Restores a soft-deleted document
+   *
+   * @param path - Path to the document (e.g., 'users/123')
+   * @param options - Optional retry override (e.g., { retry: false })
+   * @returns Promise that resolves when the operation is complete
+   * @throws Error if soft delete isn't enabled or the document doesn't exist
+   */
+  async restoreDocument(path: string, options?: RetryCallOptions): Promise<void> {
+    try {
+      const docRef = this.getDocumentRef(path);
+      const restoreData = this.versioning.stamp(this.auditFields.getRestoreData());
+      await this.retryPolicy.run(() => this.backend.updateDoc(docRef, restoreData), {
+        path,
+        override: options?.retry,
+      });
+    } catch (error) {
+      console.error(`Error restoring document at ${path}:`, error);
+      throw error;
+    } finally {
+      this.documentCache?.invalidate(path);
+    }
+  }
+
+  /**
+   * Permanently deletes documents that were soft-deleted before a given time
+   *
+   * Subcollections of purged documents are left in place; use
+   * deleteRecursive() for documents that have them.
+   *
+   * @param collectionPath - Path to the collection (e.g., 'users')
+   * @param olderThan - Purge documents deleted before this time
+   * @param options - Optional retry override (e.g., { retry: false })
+   * @returns Promise resolving to the number of documents purged
+   * @throws Error if soft delete isn't enabled
+   */
+  async purgeDeleted(
+    collectionPath: string,
+    olderThan: Date,
+    options?: RetryCallOptions,
+  ): Promise<number> {
+    let purged = 0;
+
+    try {
+      const q = this.backend.query(
+        this.backend.collection(this.firestore, collectionPath),
+        this.auditFields.getDeletedBeforeConstraint(olderThan),
+        limit(PURGE_BATCH_SIZE),
+      );
+
+      const context = { path: collectionPath, override: options?.retry };
+
+      for (;;) {
+        const querySnapshot = await this.retryPolicy.run(() => this.backend.getDocs(q), context);
+        if (querySnapshot.empty) {
+          return purged;
+        }
+
+        // A batch can only be committed once, so each attempt builds a new one
+        await this.retryPolicy.run(() => {
+          const batch = this.backend.writeBatch(this.firestore);
+          querySnapshot.docs.forEach(doc => batch.delete(doc.ref));
+          return batch.commit();
+        }, context);
+
+        purged += querySnapshot.size;
+        querySnapshot.docs.forEach(doc => this.documentCache?.invalidate(doc.ref.path));
+
+        if (querySnapshot.size < PURGE_BATCH_SIZE) {
+          return purged;
+        }
+      }
+    } catch (error) {
+      console.error(
+        `Error purging deleted documents in ${collectionPath} (${purged} purged):`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a document or collection together with its subcollections
+   *
+   * deleteDocument() leaves subcollections behind. The client SDK can't list
+   * them, so pass the subcollections to delete in options.subcollections.
+   *
+   * @param path - Path to a document (e.g., 'users/123') or collection (e.g., 'users')
+   * @param options - Subcollections to include, batch size, dry run and progress callback
+   * @returns Promise resolving to the number of documents deleted
+   */
+  async deleteRecursive(
+    path: string,
+    options?: RecursiveDeleteOptions,
+  ): Promise<RecursiveDeleteResult> {
+    try {
+      return await new DocumentTree(this.firestore, this.backend).deleteRecursive(path, options);
+    } catch (error) {
+      console.error(`Error deleting tree at ${path}:`, error);
+      throw error;
+    } finally {
+      this.documentCache?.invalidateTree(path);
+    }
+  }
+
+  /**
+   * Finds which of the candidate subcollections of a document contain documents
+   *
+   * @param path - Path to the document (e.g., 'users/123')
+   * @param candidates - Subcollection names to check (e.g., ['posts', 'settings'])
+   * @returns Promise resolving to the non-empty subcollection names
+   */
+  async listSubcollections(path: string, candidates: string[]): Promise<string[]> {
+    try {
+      return await new DocumentTree(this.firestore, this.backend).listSubcollections(
+        path,
+        candidates,
+      );
+    } catch (error) {
+      console.error(`Error listing subcollections of ${path}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copies a document and its subcollections to another path
+   *
+   * Data is copied exactly as stored, bypassing converters, validators and
+   * serialization.
+   *
+   * @param sourcePath - Path to the document to copy (e.g., 'tenants/a/users/1')
+   * @param destinationPath - Path to copy it to (e.g., 'tenants/b/users/1')
+   * @param options - Subcollections to include, batch size and progress callback
+   * @returns Promise resolving to the number of documents copied
+   */
+  async copyDocumentTree(
+    sourcePath: string,
+    destinationPath: string,
+    options?: CopyTreeOptions,
+  ): Promise<CopyTreeResult> {
+    try {
+      return await new DocumentTree(this.firestore, this.backend).copyDocumentTree(
+        sourcePath,
+        destinationPath,
+        options,
+      );
+    } catch (error) {
+      console.error(`Error copying ${sourcePath} to ${destinationPath}:`, error);
+      throw error;
+    } finally {
+      this.documentCache?.invalidateTree(destinationPath);
+    }
+  }
+
+  /**
+   * Writes every document of a collection to a stream as NDJSON (or JSON)
+   *
+   * Values are written with type tags, so Timestamps, GeoPoints, references
+   * and bytes survive a round trip through importCollection(). Data is
+   * exported as stored, bypassing converters, validators and serialization;
+   * subcollections are not included.
+   *
+   * @param collectionPath - Path to the collection (e.g., 'users')
+   * @param stream - Writable stream (e.g., fs.createWriteStream('users.ndjson')); it is not ended
+   * @param options - Format, page size and progress callback
+   * @returns Promise resolving to the number of documents exported
+   */
+  async exportCollection(
+    collectionPath: string,
+    stream: ExportSink,
+    options?: ExportOptions,
+  ): Promise<ExportResult> {
+    try {
+      return await new CollectionTransfer(this.firestore, this.backend).exportCollection(
+        collectionPath,
+        stream,
+        options,
+      );
+    } catch (error) {
+      console.error(`Error exporting collection ${collectionPath}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Writes documents from an NDJSON (or JSON) stream created by exportCollection() into a collection
+   *
+   * Data is written as given, bypassing converters, validators, serialization,
+   * audit fields and versioning. With the softDelete option, documents without
+   * the deletion field get it set to null, so queries include them.
+   *
+   * @param collectionPath - Path to the collection (e.g., 'users')
+   * @param stream - Readable stream (e.g., fs.createReadStream('users.ndjson')) or iterable of text
+   * @param options - Conflict handling ('skip', 'overwrite' or 'merge'), batch size and progress callback
+   * @returns Promise resolving to the number of documents processed, written and skipped
+   * @throws FirestoreError if a record is malformed or a batch fails; earlier batches stay written
+   */
+  async importCollection(
+    collectionPath: string,
+    stream: ImportSource,
+    options?: ImportOptions,
+  ): Promise<ImportResult> {
+    try {
+      return await new CollectionTransfer(
+        this.firestore,
+        this.backend,
+        this.auditFields.getLiveFields(),
+      ).importCollection(collectionPath, stream, options);
+    } catch (error) {
+      console.error(`Error importing into collection ${collectionPath}:`, error);
+      throw error;
+    } finally {
+      this.documentCache?.invalidateTree(collectionPath);
     }
   }
 
   /**
    * Queries a collection with the given constraints
    *
+   * With the softDelete option, soft-deleted documents are left out.
+   *
    * @param collectionPath - Path to the collection (e.g., 'users')
-   * @param queryConstraints - Query constraints (e.g., where, orderBy, limit)
+   * @param queryConstraints - Constraints (e.g., where, limit), QueryBuilders or arrays of filters,
+   *   optionally preceded by a retry override (e.g., { retry: false })
    * @returns Promise resolving to an array of documents matching the query
    */
   async query<T>(
     collectionPath: string,
-    ...queryConstraints: QueryConstraint[]
+    ...queryConstraints: QueryArgs<T>
+  ): Promise<Array<WithId<T>>> {
+    const { options, inputs } = splitQueryArgs(queryConstraints);
+    return this.queryCollection<T>(collectionPath, this.toLiveConstraints(inputs), options.retry);
+  }
+
+  /**
+   * Queries a collection, including soft-deleted documents
+   *
+   * @param collectionPath - Path to the collection (e.g., 'users')
+   * @param queryConstraints - Constraints (e.g., where, limit), QueryBuilders or arrays of filters,
+   *   optionally preceded by a retry override (e.g., { retry: false })
+   * @returns Promise resolving to an array of documents matching the query
+   */
+  async queryIncludingDeleted<T>(
+    collectionPath: string,
+    ...queryConstraints: QueryArgs<T>
+  ): Promise<Array<WithId<T>>> {
+    const { options, inputs } = splitQueryArgs(queryConstraints);
+    return this.queryCollection<T>(collectionPath, toQueryConstraints(inputs), options.retry);
+  }
+
+  /**
+   * Runs a collection query and processes the results
+   *
+   * @param collectionPath - Path to the collection
+   * @param queryConstraints - Compiled query constraints
+   * @param retry - Optional per-call retry override
+   * @returns Promise resolving to the matching documents
+   */
+  private async queryCollection<T>(
+    collectionPath: string,
+    queryConstraints: QueryConstraint[],
+    retry?: boolean | RetryOptions,
   ): Promise<Array<WithId<T>>> {
     try {
-      const collectionRef = collection(this.firestore, collectionPath);
-      const q = firestoreQuery(collectionRef, ...queryConstraints);
-      const querySnapshot = await getDocs(q);
+      const collectionRef = this.getCollectionRef(collectionPath);
+      const q = this.backend.query(collectionRef, ...queryConstraints);
+      const querySnapshot = await this.retryPolicy.run(() => this.backend.getDocs(q), {
+        path: collectionPath,
+        override: retry,
+      });
 
       const results: Array<WithId<T>> = [];
       querySnapshot.forEach(doc => {
-        results.push({ id: doc.id, ...doc.data() } as WithId<T>);
+        results.push(this.toWithId<T>(collectionPath, doc));
       });
 
       return results;
@@ -165,4 +843,864 @@ export class FirestoreService {
       throw error;
     }
   }
+
+  /**
+   * Queries every collection with the given id, wherever it is nested
+   *
+   * Each result carries its full path and its ancestors' ids, so callers can
+   * tell which parent it belongs to. Validators and serialization apply by
+   * document path as usual.
+   *
+   * @param collectionId - Id of the collections to query (e.g., 'comments')
+   * @param queryConstraints - Constraints (e.g., where, limit), QueryBuilders or arrays of filters,
+   *   optionally preceded by a retry override (e.g., { retry: false })
+   * @returns Promise resolving to the matching documents with their locations
+   */
+  async queryGroup<T>(
+    collectionId: string,
+    ...queryConstraints: QueryArgs<T>
+  ): Promise<Array<GroupDocument<T>>> {
+    const { options, inputs } = splitQueryArgs(queryConstraints);
+
+    try {
+      const q = this.backend.query(
+        this.backend.collectionGroup(this.firestore, collectionId),
+        ...this.toLiveConstraints(inputs),
+      );
+      const querySnapshot = await this.retryPolicy.run(() => this.backend.getDocs(q), {
+        path: collectionId,
+        override: options.retry,
+      });
+
+      const results: Array<GroupDocument<T>> = [];
+      querySnapshot.forEach(doc => {
+        const path = doc.ref.path;
+        const parentPath = this.getParentPath(path);
+        results.push({
+          ...this.toWithId<T>(parentPath, doc),
+          path,
+          parentPath,
+          parentIds: parseParentIds(path),
+        });
+      });
+
+      return results;
+    } catch (error) {
+      console.error(`Error querying collection group ${collectionId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Counts the documents matching a query without downloading them
+   *
+   * @param collectionPath - Path to the collection (e.g., 'users')
+   * @param queryConstraints - Constraints (e.g., where), QueryBuilders or arrays of filters,
+   *   optionally preceded by a retry override (e.g., { retry: false })
+   * @returns Promise resolving to the number of matching documents
+   * @throws FirestoreError if the aggregation fails
+   */
+  async count<T = DocumentData>(
+    collectionPath: string,
+    ...queryConstraints: QueryArgs<T>
+  ): Promise<number> {
+    const result = await this.aggregate<T, { count: { type: 'count' } }>(
+      collectionPath,
+      { count: { type: 'count' } },
+      ...queryConstraints,
+    );
+    return result.count;
+  }
+
+  /**
+   * Sums a numeric field over the documents matching a query
+   *
+   * @param collectionPath - Path to the collection (e.g., 'orders')
+   * @param field - Path to the numeric field (e.g., 'total')
+   * @param queryConstraints - Constraints (e.g., where), QueryBuilders or arrays of filters,
+   *   optionally preceded by a retry override (e.g., { retry: false })
+   * @returns Promise resolving to the sum (0 if nothing matches)
+   * @throws FirestoreError if the aggregation fails
+   */
+  async sum<T = DocumentData>(
+    collectionPath: string,
+    field: FieldPath<T>,
+    ...queryConstraints: QueryArgs<T>
+  ): Promise<number> {
+    const result = await this.aggregate<T, { sum: { type: 'sum'; field: FieldPath<T> } }>(
+      collectionPath,
+      { sum: { type: 'sum', field } },
+      ...queryConstraints,
+    );
+    return result.sum;
+  }
+
+  /**
+   * Averages a numeric field over the documents matching a query
+   *
+   * @param collectionPath - Path to the collection (e.g., 'users')
+   * @param field - Path to the numeric field (e.g., 'age')
+   * @param queryConstraints - Constraints (e.g., where), QueryBuilders or arrays of filters,
+   *   optionally preceded by a retry override (e.g., { retry: false })
+   * @returns Promise resolving to the average, or null if no document has a numeric value
+   * @throws FirestoreError if the aggregation fails
+   */
+  async average<T = DocumentData>(
+    collectionPath: string,
+    field: FieldPath<T>,
+    ...queryConstraints: QueryArgs<T>
+  ): Promise<number | null> {
+    const result = await this.aggregate<T, { average: { type: 'average'; field: FieldPath<T> } }>(
+      collectionPath,
+      { average: { type: 'average', field } },
+      ...queryConstraints,
+    );
+    return result.average;
+  }
+
+  /**
+   * Computes several aggregations over the documents matching a query in one request
+   *
+   * @param collectionPath - Path to the collection (e.g., 'orders')
+   * @param spec - Named aggregations (e.g., { orders: { type: 'count' } })
+   * @param queryConstraints - Constraints (e.g., where), QueryBuilders or arrays of filters,
+   *   optionally preceded by a retry override (e.g., { retry: false })
+   * @returns Promise resolving to the results, keyed by the spec's aliases
+   * @throws FirestoreError if the aggregation fails
+   */
+  async aggregate<T = DocumentData, S extends AggregationSpec<T> = AggregationSpec<T>>(
+    collectionPath: string,
+    spec: S,
+    ...queryConstraints: QueryArgs<T>
+  ): Promise<AggregationResult<S>> {
+    const { options, inputs } = splitQueryArgs(queryConstraints);
+
+    try {
+      const q = this.backend.query(
+        this.getCollectionRef(collectionPath),
+        ...this.toLiveConstraints(inputs),
+      );
+      const snapshot = await this.retryPolicy.run(
+        () => this.backend.getAggregateFromServer(q, toAggregateSpec(spec)),
+        { path: collectionPath, override: options.retry },
+      );
+      return snapshot.data() as AggregationResult<S>;
+    } catch (error: any) {
+      console.error(`Error aggregating collection ${collectionPath}:`, error);
+
+      if (error instanceof FirestoreError) {
+        throw error;
+      }
+
+      throw new FirestoreError(
+        error.message || `Failed to aggregate collection ${collectionPath}`,
+        collectionPath,
+        error.code,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Gets one page of query results
+   *
+   * Pass the returned nextCursor back in a PageRequest to get the following
+   * page. Cursors are opaque, URL-safe strings that reference the last
+   * document of the page, so that document must still exist when the next
+   * page is requested.
+   *
+   * @param collectionPath - Path to the collection (e.g., 'users')
+   * @param page - Page size, or a PageRequest with a page size and cursor
+   * @param queryConstraints - Query constraints (e.g., where, orderBy); don't include limit or cursors
+   * @returns Promise resolving to the page of documents and the cursor for the next page
+   * @throws FirestoreError if the cursor is invalid or its document no longer exists
+   */
+  async paginate<T>(
+    collectionPath: string,
+    page: number | PageRequest,
+    ...queryConstraints: Array<QueryInput<T>>
+  ): Promise<Page<T>> {
+    const { pageSize, cursor, includeDeleted, retry }: PageRequest =
+      typeof page === 'number' ? { pageSize: page } : page;
+
+    try {
+      const after = cursor ? await this.resolveCursor(collectionPath, cursor, retry) : undefined;
+      const docs = await this.getPageSnapshots(
+        collectionPath,
+        pageSize,
+        includeDeleted
+          ? toQueryConstraints(queryConstraints)
+          : this.toLiveConstraints(queryConstraints),
+        after,
+        retry,
+      );
+      const pageDocs = docs.slice(0, pageSize);
+
+      return {
+        items: pageDocs.map(doc => this.toWithId<T>(collectionPath, doc)),
+        nextCursor:
+          docs.length > pageSize ? encodeCursor(pageDocs[pageDocs.length - 1].ref.path) : null,
+      };
+    } catch (error) {
+      console.error(`Error paginating collection ${collectionPath}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Iterates over every document matching a query, fetching one page at a time
+   *
+   * With a PageRequest, iteration starts after its cursor, and its
+   * includeDeleted and retry settings apply to every page.
+   *
+   * @param collectionPath - Path to the collection (e.g., 'users')
+   * @param page - Number of documents fetched per request, or a PageRequest
+   * @param queryConstraints - Query constraints (e.g., where, orderBy); don't include limit or cursors
+   * @returns Async iterable over the matching documents
+   * @throws FirestoreError if the cursor is invalid or its document no longer exists
+   */
+  async *iterate<T>(
+    collectionPath: string,
+    page: number | PageRequest,
+    ...queryConstraints: Array<QueryInput<T>>
+  ): AsyncIterable<WithId<T>> {
+    const { pageSize, cursor, includeDeleted, retry }: PageRequest =
+      typeof page === 'number' ? { pageSize: page } : page;
+    const constraints = includeDeleted
+      ? toQueryConstraints(queryConstraints)
+      : this.toLiveConstraints(queryConstraints);
+    let after: DocumentSnapshot | undefined;
+
+    for (;;) {
+      let docs: QueryDocumentSnapshot[];
+      try {
+        if (cursor && !after) {
+          after = await this.resolveCursor(collectionPath, cursor, retry);
+        }
+        docs = await this.getPageSnapshots(collectionPath, pageSize, constraints, after, retry);
+      } catch (error) {
+        console.error(`Error iterating collection ${collectionPath}:`, error);
+        throw error;
+      }
+
+      for (const doc of docs.slice(0, pageSize)) {
+        yield this.toWithId<T>(collectionPath, doc);
+      }
+
+      if (docs.length <= pageSize) {
+        return;
+      }
+      after = docs[pageSize - 1];
+    }
+  }
+
+  /**
+   * Runs a function inside a Firestore transaction
+   *
+   * Firestore retries the function when the transaction is contended, so it
+   * must be safe to run more than once.
+   *
+   * @param updateFunction - Function that performs reads and writes through the transaction
+   * @param options - Optional TransactionOptions (e.g., { maxAttempts: 3 })
+   * @returns Promise resolving to the value returned by updateFunction
+   * @throws FirestoreError carrying the path of the last document touched if the transaction fails
+   */
+  async runTransaction<R>(
+    updateFunction: (transaction: FirestoreTransaction) => Promise<R>,
+    options?: TransactionOptions,
+  ): Promise<R> {
+    let currentTransaction: FirestoreTransaction | undefined;
+    let attempts = 0;
+
+    try {
+      return await this.backend.runTransaction(
+        this.firestore,
+        async transaction => {
+          attempts++;
+          const handle = new FirestoreTransaction(transaction, this.getDocumentContext());
+          currentTransaction = handle;
+          const result = await updateFunction(handle);
+          await handle.applyWrites();
+          return result;
+        },
+        options,
+      );
+    } catch (error: any) {
+      const path = currentTransaction?.getLastPath();
+      console.error(`Error running transaction (last path: ${path}):`, error);
+
+      if (error instanceof FirestoreError) {
+        throw error;
+      }
+
+      throw new FirestoreError(
+        `Transaction failed after ${attempts} attempt(s): ${error.message}`,
+        path,
+        error.code,
+        error,
+      );
+    } finally {
+      currentTransaction?.getWrittenPaths().forEach(path => this.documentCache?.invalidate(path));
+    }
+  }
+
+  /**
+   * Creates a write batch for atomic multi-document writes
+   *
+   * @returns A batch handle; call commit() to apply its operations
+   */
+  batch(): FirestoreBatch {
+    return new FirestoreBatch(this.backend.writeBatch(this.firestore), this.getDocumentContext());
+  }
+
+  /**
+   * Writes many operations in chunked, throttled batches
+   *
+   * Unlike the single-document methods this never throws for write failures;
+   * inspect the returned report for the outcome of each operation.
+   *
+   * @param operations - Set, update and delete operations to write
+   * @param options - Optional chunking, throttling and retry settings
+   * @returns Promise resolving to a per-operation success/failure report
+   */
+  async bulkWrite(
+    operations: BulkWriteOperation[],
+    options?: BulkWriteOptions,
+  ): Promise<BulkWriteResult> {
+    return new BulkWriter(this, options, this.retryPolicy.retryableCodes).write(operations);
+  }
+
+  /**
+   * Creates a sharded counter starting at zero
+   *
+   * Use sharded counters for values incremented more often than a single
+   * document allows (about once per second), such as likes or views.
+   *
+   * @param path - Path to the counter document (e.g., 'posts/p1/counters/likes')
+   * @param shards - Number of shards; each sustains about one increment per second (default: 10)
+   * @returns Promise that resolves when the counter has been created
+   * @throws FirestoreError if the counter already exists or the shard count is invalid
+   */
+  async createCounter(path: string, shards = 10): Promise<void> {
+    return new ShardedCounter(this).create(path, shards);
+  }
+
+  /**
+   * Adds to a sharded counter
+   *
+   * @param path - Path to the counter document
+   * @param delta - Amount to add; negative to subtract (default: 1)
+   * @returns Promise that resolves when the increment has been written
+   * @throws FirestoreError if the counter doesn't exist
+   */
+  async incrementCounter(path: string, delta = 1): Promise<void> {
+    return new ShardedCounter(this).increment(path, delta);
+  }
+
+  /**
+   * Gets the value of a sharded counter
+   *
+   * @param path - Path to the counter document
+   * @returns Promise resolving to the counter's value
+   * @throws FirestoreError if the counter doesn't exist
+   */
+  async getCounter(path: string): Promise<number> {
+    return new ShardedCounter(this).get(path);
+  }
+
+  /**
+   * Changes the number of shards of a counter, keeping its value
+   *
+   * @param path - Path to the counter document
+   * @param shards - The new number of shards
+   * @returns Promise that resolves when the counter has been re-sharded
+   * @throws FirestoreError if the counter doesn't exist or the shard count is invalid
+   */
+  async reshardCounter(path: string, shards: number): Promise<void> {
+    return new ShardedCounter(this).reshard(path, shards);
+  }
+
+  /**
+   * Gets a transactional outbox for publishing domain events
+   *
+   * Writes made through the outbox store an event record in the same
+   * transaction; publish the records with outbox.createRelay(pubsub).
+   *
+   * @param collectionPath - Collection holding the outbox records (default: 'outbox')
+   * @returns An outbox bound to the collection
+   */
+  outbox(collectionPath: string = DEFAULT_OUTBOX_COLLECTION): Outbox {
+    return new Outbox(this, collectionPath);
+  }
+
+  /**
+   * Listens for real-time updates to a document
+   *
+   * Soft-deleted documents are delivered as null, like missing ones, unless
+   * includeDeleted is set.
+   *
+   * @param path - Path to the document (e.g., 'users/123')
+   * @param onNext - Called with the document data on every change
+   * @param onError - Optional handler for listener errors
+   * @param options - Optional read options (e.g., { includeDeleted: true })
+   * @returns Function that detaches the listener
+   */
+  subscribeDocument<T>(
+    path: string,
+    onNext: DocumentListener<T>,
+    onError?: ListenerErrorHandler,
+    options?: ReadOptions,
+  ): Unsubscribe {
+    const docRef = this.getDocumentRef(path);
+
+    const unsubscribe = this.backend.onSnapshot(
+      docRef,
+      docSnap => {
+        let data: WithId<T> | null;
+        try {
+          const visible =
+            docSnap.exists() &&
+            (!!options?.includeDeleted || !this.auditFields.isDeleted(docSnap.data()));
+          data = visible ? this.toWithId<T>(this.getParentPath(path), docSnap) : null;
+        } catch (error: any) {
+          this.handleListenerError(error, path, onError);
+          return;
+        }
+        onNext(data);
+      },
+      error => {
+        this.listeners.delete(unsubscribe);
+        this.handleListenerError(error, path, onError);
+      },
+    );
+
+    return this.trackListener(unsubscribe);
+  }
+
+  /**
+   * Listens for real-time updates to the results of a query
+   *
+   * @param collectionPath - Path to the collection (e.g., 'users')
+   * @param queryConstraints - Query constraints (e.g., where, orderBy, limit)
+   * @param onNext - Called with the matching documents and changes on every snapshot
+   * @param onError - Optional handler for listener errors
+   * @returns Function that detaches the listener
+   */
+  subscribeQuery<T>(
+    collectionPath: string,
+    queryConstraints: Array<QueryInput<T>>,
+    onNext: QueryListener<T>,
+    onError?: ListenerErrorHandler,
+  ): Unsubscribe {
+    const q = this.backend.query(
+      this.getCollectionRef(collectionPath),
+      ...this.toLiveConstraints(queryConstraints),
+    );
+
+    const unsubscribe = this.backend.onSnapshot(
+      q,
+      querySnapshot => {
+        const docs: Array<WithId<T>> = [];
+        let changes: Array<DocumentChangeEvent<T>>;
+        try {
+          querySnapshot.forEach(doc => {
+            docs.push(this.toWithId<T>(collectionPath, doc));
+          });
+
+          changes = querySnapshot.docChanges().map(change => ({
+            type: change.type,
+            doc: this.toWithId<T>(collectionPath, change.doc),
+            oldIndex: change.oldIndex,
+            newIndex: change.newIndex,
+          }));
+        } catch (error: any) {
+          this.handleListenerError(error, collectionPath, onError);
+          return;
+        }
+
+        onNext({ docs, changes });
+      },
+      error => {
+        this.listeners.delete(unsubscribe);
+        this.handleListenerError(error, collectionPath, onError);
+      },
+    );
+
+    return this.trackListener(unsubscribe);
+  }
+
+  /**
+   * Encrypts a value for an equality query on a deterministic encrypted field
+   *
+   * Only documents written with the current encryption key will match.
+   *
+   * @example
+   * ```typescript
+   * const phone = service.encryptForQuery('users', 'phone', '+4712345678');
+   * const users = await service.query('users', where('phone', '==', phone));
+   * ```
+   *
+   * @param collectionPath - Path to the collection being queried (e.g., 'users')
+   * @param field - The encrypted field (e.g., 'phone')
+   * @param value - The plain value to match
+   * @returns The ciphertext to compare the field with
+   * @throws FirestoreError if the field isn't declared with deterministic: true
+   */
+  encryptForQuery(collectionPath: string, field: string, value: unknown): string {
+    return this.fieldEncryption.encryptForQuery(collectionPath, field, value);
+  }
+
+  /**
+   * Gets the document cache's hit/miss statistics
+   *
+   * @returns The statistics, or null if the cache option isn't enabled
+   */
+  getCacheStats(): CacheStats | null {
+    return this.documentCache?.getStats() ?? null;
+  }
+
+  /**
+   * Removes documents from the cache so the next read goes to Firestore
+   *
+   * Use this after documents are changed outside this service (e.g., by
+   * another process) and waiting for their TTL isn't acceptable.
+   *
+   * @param path - Optional document or collection path; everything below it is dropped.
+   *               Omit to clear the whole cache.
+   */
+  invalidateCache(path?: string): void {
+    if (path === undefined) {
+      this.documentCache?.clear();
+    } else {
+      this.documentCache?.invalidateTree(path);
+    }
+  }
+
+  /**
+   * Gets the number of real-time listeners that are still attached
+   *
+   * @returns The number of active listeners
+   */
+  getActiveListenerCount(): number {
+    return this.listeners.size;
+  }
+
+  /**
+   * Cleans up resources used by the FirestoreService
+   *
+   * Detaches every real-time listener created through this service
+   */
+  cleanup(): void {
+    this.listeners.forEach(unsubscribe => unsubscribe());
+    this.listeners.clear();
+  }
+
+  /**
+   * Registers a listener so it can be detached by cleanup()
+   *
+   * @param unsubscribe - The unsubscribe function returned by onSnapshot
+   * @returns Function that detaches the listener and stops tracking it
+   */
+  private trackListener(unsubscribe: Unsubscribe): Unsubscribe {
+    this.listeners.add(unsubscribe);
+
+    return () => {
+      if (this.listeners.delete(unsubscribe)) {
+        unsubscribe();
+      }
+    };
+  }
+
+  /**
+   * Wraps a listener error in a FirestoreError and reports it
+   *
+   * @param error - The error raised by onSnapshot
+   * @param path - Path the listener was attached to
+   * @param onError - Optional handler supplied by the caller
+   */
+  private handleListenerError(
+    error: Error & { code?: string },
+    path: string,
+    onError?: ListenerErrorHandler,
+  ): void {
+    const firestoreError =
+      error instanceof FirestoreError
+        ? error
+        : new FirestoreError(
+            error.message || `Error listening at ${path}`,
+            path,
+            error.code,
+            error,
+          );
+
+    if (onError) {
+      onError(firestoreError);
+    } else {
+      console.error(`Error listening at ${path}:`, error);
+    }
+  }
+
+  /**
+   * Fetches a page of snapshots plus one extra to tell whether more pages follow
+   *
+   * @param collectionPath - Path to the collection
+   * @param pageSize - Number of documents in a page
+   * @param queryConstraints - Caller-supplied query constraints
+   * @param after - Snapshot of the document to start after, if not the first page
+   * @param retry - Optional per-call retry override
+   * @returns Promise resolving to up to pageSize + 1 snapshots
+   */
+  private async getPageSnapshots(
+    collectionPath: string,
+    pageSize: number,
+    queryConstraints: QueryConstraint[],
+    after?: DocumentSnapshot,
+    retry?: boolean | RetryOptions,
+  ): Promise<QueryDocumentSnapshot[]> {
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new FirestoreError(
+        `Page size must be a positive integer, got ${pageSize}`,
+        collectionPath,
+        'invalid-argument',
+      );
+    }
+
+    const constraints = after
+      ? [...queryConstraints, startAfter(after), limit(pageSize + 1)]
+      : [...queryConstraints, limit(pageSize + 1)];
+    const q = this.backend.query(this.getCollectionRef(collectionPath), ...constraints);
+    const querySnapshot = await this.retryPolicy.run(() => this.backend.getDocs(q), {
+      path: collectionPath,
+      override: retry,
+    });
+
+    return querySnapshot.docs;
+  }
+
+  /**
+   * Resolves a cursor token to the snapshot of the document it points after
+   *
+   * @param collectionPath - Path to the collection being paginated
+   * @param cursor - Cursor token from a previous page
+   * @param retry - Optional per-call retry override
+   * @returns Promise resolving to the document snapshot
+   * @throws FirestoreError if the cursor is malformed, belongs to another collection or its document is gone
+   */
+  private async resolveCursor(
+    collectionPath: string,
+    cursor: string,
+    retry?: boolean | RetryOptions,
+  ): Promise<DocumentSnapshot> {
+    const path = decodeCursor(cursor);
+
+    if (!path || this.getParentPath(path) !== collectionPath) {
+      throw new FirestoreError(
+        `Invalid pagination cursor for collection: ${collectionPath}`,
+        collectionPath,
+        'invalid-argument',
+      );
+    }
+
+    const docRef = this.getDocumentRef(path);
+    const docSnap = await this.retryPolicy.run(() => this.backend.getDoc(docRef), {
+      path,
+      override: retry,
+    });
+    if (!docSnap.exists()) {
+      throw new FirestoreError(
+        `Pagination cursor document no longer exists: ${path}`,
+        path,
+        'not-found',
+      );
+    }
+
+    return docSnap;
+  }
+
+  /**
+   * Gets the document hooks shared with transaction and batch handles
+   *
+   * @returns The document context for this service
+   */
+  private getDocumentContext(): DocumentContext {
+    return {
+      getDocumentRef: path => this.getDocumentRef(path),
+      toSetData: (path, data, options) => this.toSetData(path, data, options),
+      stampSetData: (data, options, existing) => this.stampSetData(data, options, existing),
+      needsExistingData: () => this.auditFields.needsExistingData,
+      runTransaction: updateFunction => this.backend.runTransaction(this.firestore, updateFunction),
+      toUpdateData: (path, data) => this.toUpdateData(path, data),
+      processRead: (path, data) => this.processRead(path, data),
+      invalidate: paths => paths.forEach(path => this.documentCache?.invalidate(path)),
+      getDeleteData: () => this.getDeleteData(),
+      isDeleted: data => this.auditFields.isDeleted(data),
+    };
+  }
+
+  /**
+   * Gets the update that soft-deletes a document
+   *
+   * @returns The update data, or null when deletes remove documents
+   */
+  private getDeleteData(): DocumentData | null {
+    const deleteData = this.auditFields.getDeleteData();
+    return deleteData && this.versioning.stamp(deleteData);
+  }
+
+  /**
+   * Compiles query inputs, leaving out soft-deleted documents when soft delete is enabled
+   *
+   * @param queryConstraints - Constraints, QueryBuilders or arrays of filters
+   * @returns The compiled query constraints
+   */
+  private toLiveConstraints<T>(queryConstraints: Array<QueryInput<T>>): QueryConstraint[] {
+    return [...this.auditFields.getLiveConstraints(), ...toQueryConstraints(queryConstraints)];
+  }
+
+  /**
+   * Reads a document's data, going through the cache when it's enabled
+   *
+   * @param path - Path to the document
+   * @param retry - Optional per-call retry override
+   * @returns The data as read from Firestore, or undefined if the document doesn't exist
+   */
+  private async readDocumentData(
+    path: string,
+    retry?: boolean | RetryOptions,
+  ): Promise<DocumentData | undefined> {
+    const cached = this.documentCache?.get(path);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const generation = this.documentCache?.getGeneration() ?? 0;
+    const docRef = this.getDocumentRef(path);
+    const docSnap = await this.retryPolicy.run(() => this.backend.getDoc(docRef), {
+      path,
+      override: retry,
+    });
+    if (!docSnap.exists()) {
+      return undefined;
+    }
+
+    const data = docSnap.data();
+    this.documentCache?.set(path, data, generation);
+    return data;
+  }
+
+  /**
+   * Prepares data for a set operation
+   *
+   * Audit, soft-delete and version fields are added afterwards by
+   * stampSetData(), once it is known whether the document exists.
+   *
+   * @param path - Path to the document
+   * @param data - Data to store in the document
+   * @param options - SetOptions the write will use
+   * @returns The validated, serialized and encrypted data
+   * @throws FirestoreValidationError if the data doesn't satisfy the registered schema
+   */
+  private toSetData(path: string, data: DocumentData, options?: SetOptions): DocumentData {
+    this.schemaValidator.validateWrite(path, data, isMergeSet(options) ? 'merge' : 'set');
+    const serialized = this.serializer ? this.serializer.serialize(data, path) : data;
+    return this.fieldEncryption.encrypt(path, serialized);
+  }
+
+  /**
+   * Adds audit, soft-delete and version fields to prepared set data
+   *
+   * @param data - Data prepared by toSetData()
+   * @param options - SetOptions the write will use
+   * @param existing - The stored document data, or null if the document doesn't exist
+   * @returns The data to send to Firestore
+   */
+  private stampSetData(
+    data: DocumentData,
+    options: SetOptions | undefined,
+    existing: DocumentData | null,
+  ): DocumentData {
+    return this.versioning.stamp(this.auditFields.stampSet(data, isMergeSet(options), existing));
+  }
+
+  /**
+   * Processes document data that has been read
+   *
+   * @param path - Path to the document
+   * @param data - The document data
+   * @returns The data to hand to the caller
+   * @throws FirestoreValidationError if the data doesn't satisfy the registered schema
+   */
+  private processRead<T>(path: string, data: unknown): T {
+    const decrypted = this.fieldEncryption.decrypt(path, data);
+    const deserialized = this.serializer ? this.serializer.deserialize(decrypted) : decrypted;
+    this.schemaValidator.validateRead(path, deserialized);
+    return deserialized as T;
+  }
+
+  /**
+   * Builds a result object with its id from a document snapshot
+   *
+   * @param collectionPath - Path to the collection containing the document
+   * @param docSnap - The document snapshot
+   * @returns The processed document data with its id
+   */
+  private toWithId<T>(collectionPath: string, docSnap: DocumentSnapshot): WithId<T> {
+    const data = this.processRead<T>(`${collectionPath}/${docSnap.id}`, docSnap.data());
+    return { id: docSnap.id, ...data } as WithId<T>;
+  }
+
+  /**
+   * Prepares data for an update operation
+   *
+   * @param path - Path to the document
+   * @param data - Fields to update
+   * @returns The data to send to Firestore
+   */
+  private toUpdateData(path: string, data: DocumentData): DocumentData {
+    this.schemaValidator.validateWrite(path, data, 'update');
+
+    const serialized = this.serializer ? this.serializer.serialize(data, path) : data;
+    const encrypted = this.fieldEncryption.encrypt(path, serialized);
+    return this.versioning.stamp(this.auditFields.stampUpdate(encrypted));
+  }
+
+  /**
+   * Gets a document reference
+   *
+   * @param path - Path to the document
+   * @returns The document reference
+   */
+  private getDocumentRef(path: string): DocumentReference<DocumentData> {
+    return this.backend.doc(this.firestore, path);
+  }
+
+  /**
+   * Gets a collection reference
+   *
+   * @param collectionPath - Path to the collection
+   * @returns The collection reference
+   */
+  private getCollectionRef(collectionPath: string): CollectionReference<DocumentData> {
+    return this.backend.collection(this.firestore, collectionPath);
+  }
+
+  /**
+   * Gets the path of the collection containing a document
+   *
+   * @param path - Path to the document
+   * @returns The parent collection path
+   */
+  private getParentPath(path: string): string {
+    return path.split('/').slice(0, -1).join('/');
+  }
+}
+
+/**
+ * Checks whether SetOptions make a set merge into the existing document
+ *
+ * @param options - The SetOptions, if any
+ * @returns Whether the set merges
+ */
+function isMergeSet(options?: SetOptions): boolean {
+  return !!options && (('merge' in options && !!options.merge) || 'mergeFields' in options);
 }
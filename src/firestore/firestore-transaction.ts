@@ -0,0 +1,440 @@
+import {
+  Transaction,
+  WriteBatch,
+  DocumentReference,
+  DocumentData,
+  WithFieldValue,
+  SetOptions,
+} from 'firebase/firestore';
+import { FirestoreError } from './firestore-error';
+import { ReadOptions } from './audit-fields';
+
+/**
+ * Hooks the FirestoreService hands to transaction and batch handles so that
+ * their writes are prepared exactly like the service's own
+ */
+export interface DocumentContext {
+  getDocumentRef(path: string): DocumentReference<DocumentData>;
+  /** Validates, serializes and encrypts the data of a set */
+  toSetData(path: string, data: DocumentData, options?: SetOptions): DocumentData;
+  /** Adds audit, soft-delete and version fields to data prepared by toSetData() */
+  stampSetData(
+    data: DocumentData,
+    options: SetOptions | undefined,
+    existing: DocumentData | null,
+  ): DocumentData;
+  /** Whether stampSetData() needs the stored document, so sets must read it first */
+  needsExistingData(): boolean;
+  /** Runs a function in a new Firestore transaction */
+  runTransaction(updateFunction: (transaction: Transaction) => Promise<void>): Promise<void>;
+  toUpdateData(path: string, data: DocumentData): DocumentData;
+  processRead(path: string, data: unknown): any;
+  /** Called once written documents may have changed, so cached copies are dropped */
+  invalidate(paths: string[]): void;
+  /** Update that soft-deletes a document, or null when deletes remove documents */
+  getDeleteData(): DocumentData | null;
+  isDeleted(data: DocumentData | undefined): boolean;
+}
+
+/**
+ * A prepared write held back until the stored documents it depends on are known
+ */
+interface QueuedWrite {
+  /** Path of the document written */
+  path: string;
+  /** Whether the write is a set, whose audit fields depend on the stored document */
+  isSet: boolean;
+  /** Adds the write to a transaction, given the stored document data (or null) */
+  apply(transaction: Transaction, existing: DocumentData | null): void;
+}
+
+/**
+ * Path-based handle for a Firestore transaction
+ *
+ * Passed to the function given to FirestoreService.runTransaction(). All reads
+ * must happen before any writes, as required by Firestore.
+ */
+export class FirestoreTransaction {
+  private lastPath?: string;
+  private writtenPaths: string[] = [];
+  private storedData = new Map<string, DocumentData | null>();
+  private queuedWrites: QueuedWrite[] = [];
+
+  /**
+   * Creates a new FirestoreTransaction instance
+   *
+   * @param transaction - The underlying Firestore transaction
+   * @param context - Document hooks provided by the FirestoreService
+   */
+  constructor(
+    private transaction: Transaction,
+    private context: DocumentContext,
+  ) {}
+
+  /**
+   * Gets the path of the last document read or written in this transaction
+   *
+   * @returns The document path, if any operation has run
+   */
+  getLastPath(): string | undefined {
+    return this.lastPath;
+  }
+
+  /**
+   * Gets the paths of the documents written in this transaction
+   *
+   * @returns The document paths, in the order they were written
+   */
+  getWrittenPaths(): string[] {
+    return [...this.writtenPaths];
+  }
+
+  /**
+   * Gets a document within the transaction
+   *
+   * @param path - Path to the document (e.g., 'users/123')
+   * @param options - Optional read options (e.g., { includeDeleted: true })
+   * @returns Promise resolving to the document data
+   * @throws FirestoreError if the document doesn't exist (or is soft-deleted)
+   */
+  async getDocument<T>(path: string, options?: ReadOptions): Promise<T> {
+    this.lastPath = path;
+    const docSnap = await this.transaction.get(this.context.getDocumentRef(path));
+    this.storedData.set(path, docSnap.exists() ? docSnap.data() : null);
+
+    if (!docSnap.exists() || (!options?.includeDeleted && this.context.isDeleted(docSnap.data()))) {
+      throw new FirestoreError(`Document does not exist at path: ${path}`, path, 'not-found');
+    }
+
+    return this.context.processRead(path, docSnap.data()) as T;
+  }
+
+  /**
+   * Checks whether a document exists within the transaction
+   *
+   * @param path - Path to the document (e.g., 'users/123')
+   * @param options - Optional read options (e.g., { includeDeleted: true })
+   * @returns Promise resolving to true if the document exists and isn't soft-deleted
+   */
+  async documentExists(path: string, options?: ReadOptions): Promise<boolean> {
+    this.lastPath = path;
+    const docSnap = await this.transaction.get(this.context.getDocumentRef(path));
+    this.storedData.set(path, docSnap.exists() ? docSnap.data() : null);
+    return (
+      docSnap.exists() && (!!options?.includeDeleted || !this.context.isDeleted(docSnap.data()))
+    );
+  }
+
+  /**
+   * Creates or replaces a document within the transaction
+   *
+   * @param path - Path to the document (e.g., 'users/123')
+   * @param data - Data to store in the document
+   * @param options - Optional SetOptions (e.g., { merge: true })
+   * @returns This transaction, for chaining
+   */
+  setDocument<T>(path: string, data: T, options?: SetOptions): this {
+    this.lastPath = path;
+    this.writtenPaths.push(path);
+    this.write(toSetWrite(this.context, path, data as DocumentData, options));
+    return this;
+  }
+
+  /**
+   * Updates an existing document within the transaction
+   *
+   * @param path - Path to the document (e.g., 'users/123')
+   * @param data - Fields to update in the document
+   * @returns This transaction, for chaining
+   */
+  updateDocument(path: string, data: Partial<any>): this {
+    this.lastPath = path;
+    this.writtenPaths.push(path);
+    this.write(toUpdateWrite(this.context, path, data));
+    return this;
+  }
+
+  /**
+   * Deletes a document within the transaction
+   *
+   * With the service's softDelete option the document is marked deleted instead.
+   *
+   * @param path - Path to the document (e.g., 'users/123')
+   * @returns This transaction, for chaining
+   */
+  deleteDocument(path: string): this {
+    this.lastPath = path;
+    this.writtenPaths.push(path);
+    this.write(toDeleteWrite(this.context, path));
+    return this;
+  }
+
+  /**
+   * Adds the writes that were held back to the underlying transaction
+   *
+   * Called by FirestoreService.runTransaction() once the transaction function
+   * has finished. Documents that were set without being read first are read
+   * here, since Firestore requires all reads to come before the writes.
+   *
+   * @returns Promise that resolves when all writes have been added
+   */
+  async applyWrites(): Promise<void> {
+    const writes = this.queuedWrites;
+    this.queuedWrites = [];
+    await applyQueuedWrites(this.transaction, writes, this.context, this.storedData);
+  }
+
+  /**
+   * Adds a write now, or holds it back when sets depend on stored documents
+   *
+   * All writes are held back in that case, so they keep their order and
+   * come after the reads applyWrites() makes.
+   *
+   * @param write - The prepared write
+   */
+  private write(write: QueuedWrite): void {
+    if (this.context.needsExistingData()) {
+      this.queuedWrites.push(write);
+    } else {
+      write.apply(this.transaction, null);
+    }
+  }
+}
+
+/**
+ * Path-based handle for a Firestore write batch
+ *
+ * Obtained from FirestoreService.batch(). Writes are applied atomically when
+ * commit() is called.
+ */
+export class FirestoreBatch {
+  private paths: string[] = [];
+  private queuedWrites: QueuedWrite[] = [];
+
+  /**
+   * Creates a new FirestoreBatch instance
+   *
+   * @param batch - The underlying Firestore write batch
+   * @param context - Document hooks provided by the FirestoreService
+   */
+  constructor(
+    private batch: WriteBatch,
+    private context: DocumentContext,
+  ) {}
+
+  /**
+   * Gets the number of operations queued in the batch
+   *
+   * @returns The number of queued operations
+   */
+  get size(): number {
+    return this.paths.length;
+  }
+
+  /**
+   * Queues a set operation
+   *
+   * @param path - Path to the document (e.g., 'users/123')
+   * @param data - Data to store in the document
+   * @param options - Optional SetOptions (e.g., { merge: true })
+   * @returns This batch, for chaining
+   */
+  setDocument<T>(path: string, data: T, options?: SetOptions): this {
+    this.paths.push(path);
+    if (this.context.needsExistingData()) {
+      this.queuedWrites.push(toSetWrite(this.context, path, data as DocumentData, options));
+      return this;
+    }
+
+    const docRef = this.context.getDocumentRef(path);
+    const setData = this.context.stampSetData(
+      this.context.toSetData(path, data as DocumentData, options),
+      options,
+      null,
+    );
+    if (options) {
+      this.batch.set(docRef, setData as WithFieldValue<DocumentData>, options);
+    } else {
+      this.batch.set(docRef, setData as WithFieldValue<DocumentData>);
+    }
+    return this;
+  }
+
+  /**
+   * Queues an update operation
+   *
+   * @param path - Path to the document (e.g., 'users/123')
+   * @param data - Fields to update in the document
+   * @returns This batch, for chaining
+   */
+  updateDocument(path: string, data: Partial<any>): this {
+    this.paths.push(path);
+    if (this.context.needsExistingData()) {
+      this.queuedWrites.push(toUpdateWrite(this.context, path, data));
+    } else {
+      this.batch.update(this.context.getDocumentRef(path), this.context.toUpdateData(path, data));
+    }
+    return this;
+  }
+
+  /**
+   * Queues a delete operation
+   *
+   * With the service's softDelete option the document is marked deleted instead.
+   *
+   * @param path - Path to the document (e.g., 'users/123')
+   * @returns This batch, for chaining
+   */
+  deleteDocument(path: string): this {
+    this.paths.push(path);
+    if (this.context.needsExistingData()) {
+      this.queuedWrites.push(toDeleteWrite(this.context, path));
+      return this;
+    }
+
+    const deleteData = this.context.getDeleteData();
+    if (deleteData) {
+      this.batch.update(this.context.getDocumentRef(path), deleteData);
+    } else {
+      this.batch.delete(this.context.getDocumentRef(path));
+    }
+    return this;
+  }
+
+  /**
+   * Commits all queued operations atomically
+   *
+   * When sets depend on stored documents (auditing or soft delete is
+   * enabled), the operations are written in a transaction that reads those
+   * documents first.
+   *
+   * @returns Promise that resolves when the batch has been written
+   * @throws FirestoreError listing the batch's document paths in paths if the batch fails
+   */
+  async commit(): Promise<void> {
+    try {
+      if (this.queuedWrites.length > 0) {
+        await this.context.runTransaction(transaction =>
+          applyQueuedWrites(transaction, this.queuedWrites, this.context, new Map()),
+        );
+      } else {
+        await this.batch.commit();
+      }
+    } catch (error: any) {
+      console.error(`Error committing batch of ${this.paths.length} operations:`, error);
+
+      // A batch fails as a whole, so only a single-document batch has a definite failing path
+      const paths = [...new Set(this.paths)];
+      const batchError = new FirestoreError(
+        error.message || `Failed to commit batch of ${this.paths.length} operations`,
+        paths.length === 1 ? paths[0] : undefined,
+        error.code,
+        error,
+      );
+      batchError.paths = paths;
+      throw batchError;
+    } finally {
+      this.context.invalidate(this.paths);
+    }
+  }
+}
+
+/**
+ * Prepares a set operation
+ *
+ * The data is validated right away; audit fields are added once the stored
+ * document is known.
+ *
+ * @param context - Document hooks provided by the FirestoreService
+ * @param path - Path to the document
+ * @param data - Data to store in the document
+ * @param options - Optional SetOptions
+ * @returns The prepared write
+ */
+function toSetWrite(
+  context: DocumentContext,
+  path: string,
+  data: DocumentData,
+  options?: SetOptions,
+): QueuedWrite {
+  const docRef = context.getDocumentRef(path);
+  const setData = context.toSetData(path, data, options);
+
+  return {
+    path,
+    isSet: true,
+    apply: (transaction, existing) => {
+      const stamped = context.stampSetData(setData, options, existing);
+      if (options) {
+        transaction.set(docRef, stamped as WithFieldValue<DocumentData>, options);
+      } else {
+        transaction.set(docRef, stamped as WithFieldValue<DocumentData>);
+      }
+    },
+  };
+}
+
+/**
+ * Prepares an update operation
+ *
+ * @param context - Document hooks provided by the FirestoreService
+ * @param path - Path to the document
+ * @param data - Fields to update
+ * @returns The prepared write
+ */
+function toUpdateWrite(context: DocumentContext, path: string, data: DocumentData): QueuedWrite {
+  const docRef = context.getDocumentRef(path);
+  const updateData = context.toUpdateData(path, data);
+  return { path, isSet: false, apply: transaction => transaction.update(docRef, updateData) };
+}
+
+/**
+ * Prepares a delete operation, which soft-deletes with the softDelete option
+ *
+ * @param context - Document hooks provided by the FirestoreService
+ * @param path - Path to the document
+ * @returns The prepared write
+ */
+function toDeleteWrite(context: DocumentContext, path: string): QueuedWrite {
+  const docRef = context.getDocumentRef(path);
+  const deleteData = context.getDeleteData();
+  return {
+    path,
+    isSet: false,
+    apply: transaction => {
+      if (deleteData) {
+        transaction.update(docRef, deleteData);
+      } else {
+        transaction.delete(docRef);
+      }
+    },
+  };
+}
+
+/**
+ * Reads the documents that queued sets depend on, then adds all queued writes
+ *
+ * @param transaction - The transaction to write in
+ * @param writes - The queued writes, in order
+ * @param context - Document hooks provided by the FirestoreService
+ * @param storedData - Stored data of documents already read; filled in for the rest
+ * @returns Promise that resolves when all writes have been added
+ */
+async function applyQueuedWrites(
+  transaction: Transaction,
+  writes: QueuedWrite[],
+  context: DocumentContext,
+  storedData: Map<string, DocumentData | null>,
+): Promise<void> {
+  const unread = [
+    ...new Set(writes.filter(write => write.isSet && !storedData.has(write.path)).map(w => w.path)),
+  ];
+  const snapshots = await Promise.all(
+    unread.map(path => transaction.get(context.getDocumentRef(path))),
+  );
+  snapshots.forEach((docSnap, index) => {
+    storedData.set(unread[index], docSnap.exists() ? docSnap.data() : null);
+  });
+
+  writes.forEach(write => write.apply(transaction, storedData.get(write.path) ?? null));
+}
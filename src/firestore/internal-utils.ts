@@ -0,0 +1,25 @@
+import { DocumentData } from 'firebase/firestore';
+
+/**
+ * Checks whether a value is a plain object (not an array, class instance or sentinel)
+ *
+ * @param value - The value to check
+ * @returns Whether the value is a plain object
+ */
+export function isPlainObject(value: unknown): value is DocumentData {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Waits for the given number of milliseconds
+ *
+ * @param ms - Milliseconds to wait
+ * @returns Promise that resolves after the delay
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,562 @@
+import { DocumentData, documentId, where } from 'firebase/firestore';
+import { FirestoreError } from './firestore-error';
+import { FirestoreService, WithId } from './firestore-service';
+import { FirestoreTransaction } from './firestore-transaction';
+import { MAX_BATCH_SIZE } from './bulk-writer';
+import { Page, decodeCursor } from './pagination';
+
+/**
+ * Changes a migration makes to one document: fields to update, or undefined to leave it as is
+ */
+export type MigrationChange = DocumentData | undefined;
+
+/**
+ * Transforms one document of a migration's collection
+ */
+export type MigrationTransform<T = DocumentData> = (
+  doc: WithId<T>,
+) => MigrationChange | Promise<MigrationChange>;
+
+/**
+ * A named, ordered change to the documents of a collection
+ *
+ * Transforms return the fields to update (FieldValue sentinels such as
+ * deleteField() are allowed), or undefined to skip the document. A failed
+ * page is retried when the run is resumed, so transforms must be safe to
+ * apply to a document more than once.
+ */
+export interface Migration<T = DocumentData> {
+  /** Unique name recorded once the migration is applied (e.g., '2024-05-add-display-name') */
+  name: string;
+  /** Path to the collection whose documents are migrated */
+  collection: string;
+  up: MigrationTransform<T>;
+  /** Reverts up(); migrations without it can't be rolled back */
+  down?: MigrationTransform<T>;
+}
+
+/**
+ * Options for MigrationRunner
+ */
+export interface MigrationRunnerOptions {
+  /** Collection holding migration records and the lock (default: '_migrations') */
+  metadataCollection?: string;
+  /** Documents migrated per batch (default: 200, at most 499) */
+  pageSize?: number;
+  /** Time after which a lock left by a crashed runner can be taken over (default: 10 minutes) */
+  lockTimeoutMs?: number;
+  /** Name recorded as the lock owner (default: a random id) */
+  owner?: string;
+  /** Called after each page with the migration name and documents processed so far */
+  onProgress?: (name: string, processed: number) => void;
+}
+
+/**
+ * Options for a single migration run
+ */
+export interface MigrationRunOptions {
+  /**
+   * For up(): the last migration to apply (default: all pending).
+   * For down(): the last migration to keep (default: revert only the latest).
+   */
+  to?: string;
+  /** Run the transforms and report their changes without writing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Stored state of a migration, kept in the metadata collection
+ */
+export interface MigrationRecord {
+  name: string;
+  direction: 'up' | 'down';
+  status: 'running' | 'completed' | 'failed';
+  /** Pagination cursor after the last committed page, used to resume */
+  cursor: string | null;
+  processed: number;
+  /** Milliseconds since the epoch */
+  updatedAt: number;
+  error: string | null;
+}
+
+/**
+ * Whether a migration is applied, and its stored record if it has ever run
+ */
+export interface MigrationStatus {
+  name: string;
+  applied: boolean;
+  record: MigrationRecord | null;
+}
+
+/**
+ * Outcome of one migration in a run
+ */
+export interface MigrationReport {
+  name: string;
+  /** Documents read */
+  processed: number;
+  /** Documents changed (or that would be changed in a dry run) */
+  updated: number;
+  /** Changes that would be written; only filled in a dry run */
+  changes: Array<{ path: string; data: DocumentData }>;
+}
+
+/**
+ * Outcome of a migration run
+ */
+export interface MigrationRunResult {
+  direction: 'up' | 'down';
+  dryRun: boolean;
+  /** One entry per migration that ran, in run order */
+  migrations: MigrationReport[];
+}
+
+interface MigrationLock {
+  owner: string;
+  expiresAt: number;
+}
+
+/** Id of the lock document in the metadata collection */
+const LOCK_ID = '_lock';
+
+/**
+ * Applies and reverts migrations, recording progress in Firestore
+ *
+ * Applied migrations are recorded in the metadata collection, one document
+ * per migration. Each page of changes is committed in the same batch as the
+ * migration's checkpoint, so a failed run resumes after the last committed
+ * page. A lock document keeps two runners from migrating at the same time.
+ *
+ * All reads and writes go through the FirestoreService, so registered
+ * schemas apply; documents that fail a schema in 'reject' mode stop the run.
+ */
+export class MigrationRunner {
+  private metadataCollection: string;
+  private pageSize: number;
+  private lockTimeoutMs: number;
+  private lockPath: string;
+  private owner: string;
+
+  /**
+   * Creates a new MigrationRunner instance
+   *
+   * @param service - The FirestoreService used for all reads and writes
+   * @param migrations - Migrations in the order they must be applied
+   * @param options - Optional metadata location, page size and locking settings
+   * @throws FirestoreError if migration names are missing, reserved or duplicated
+   */
+  constructor(
+    private service: FirestoreService,
+    private migrations: Array<Migration<any>>,
+    private options: MigrationRunnerOptions = {},
+  ) {
+    this.metadataCollection = options.metadataCollection ?? '_migrations';
+    this.pageSize = Math.max(1, Math.min(options.pageSize ?? 200, MAX_BATCH_SIZE - 1));
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 10 * 60 * 1000;
+    this.lockPath = `${this.metadataCollection}/${LOCK_ID}`;
+    this.owner = options.owner ?? `runner-${Math.random().toString(36).slice(2, 10)}`;
+
+    const names = new Set<string>();
+    migrations.forEach(migration => {
+      if (!migration.name || migration.name === LOCK_ID || migration.name.includes('/')) {
+        throw new FirestoreError(
+          `Invalid migration name '${migration.name}'`,
+          undefined,
+          'invalid-argument',
+        );
+      }
+      if (names.has(migration.name)) {
+        throw new FirestoreError(
+          `Duplicate migration name '${migration.name}'`,
+          undefined,
+          'invalid-argument',
+        );
+      }
+      names.add(migration.name);
+    });
+  }
+
+  /**
+   * Gets the state of every migration
+   *
+   * @returns Promise resolving to one status per migration, in order
+   */
+  async status(): Promise<MigrationStatus[]> {
+    return Promise.all(
+      this.migrations.map(async migration => {
+        const record = await this.getRecord(migration.name);
+        return { name: migration.name, applied: isApplied(record), record };
+      }),
+    );
+  }
+
+  /**
+   * Applies pending migrations in order
+   *
+   * A migration that failed part-way is resumed from its last checkpoint. If
+   * the checkpoint's document has since been deleted, the run resumes after
+   * that document's id instead.
+   *
+   * @param options - Optional target migration and dry-run flag
+   * @returns Promise resolving to a report of the migrations that ran
+   * @throws FirestoreError if the lock is held or lost, or a migration fails
+   */
+  async up(options: MigrationRunOptions = {}): Promise<MigrationRunResult> {
+    const end = options.to ? this.indexOf(options.to) : this.migrations.length - 1;
+    const statuses = await this.status();
+    const pending = this.migrations
+      .slice(0, end + 1)
+      .map((migration, index) => ({ migration, ...statuses[index] }))
+      .filter(target => !target.applied);
+
+    return this.run('up', pending, options.dryRun ?? false);
+  }
+
+  /**
+   * Reverts applied migrations, latest first
+   *
+   * @param options - Optional migration to revert down to (kept applied) and dry-run flag
+   * @returns Promise resolving to a report of the migrations that were reverted
+   * @throws FirestoreError if the lock is held or lost, a migration has no down(), or a migration fails
+   */
+  async down(options: MigrationRunOptions = {}): Promise<MigrationRunResult> {
+    const statuses = await this.status();
+    const applied = statuses.filter(status => status.applied);
+    const keep = options.to ? this.indexOf(options.to) : -1;
+    const toRevert = options.to
+      ? applied.filter(status => this.indexOf(status.name) > keep)
+      : applied.slice(-1);
+
+    const targets = toRevert.reverse().map(status => {
+      const migration = this.migrations[this.indexOf(status.name)];
+      if (!migration.down) {
+        throw new FirestoreError(
+          `Migration '${migration.name}' can't be reverted: it has no down()`,
+          undefined,
+          'failed-precondition',
+        );
+      }
+      return { migration, record: status.record };
+    });
+
+    return this.run('down', targets, options.dryRun ?? false);
+  }
+
+  /**
+   * Runs migrations in one direction while holding the lock
+   *
+   * @param direction - Whether to apply or revert
+   * @param targets - Migrations to run, with their stored records
+   * @param dryRun - Whether to skip all writes
+   * @returns Promise resolving to the run report
+   */
+  private async run(
+    direction: 'up' | 'down',
+    targets: Array<{ migration: Migration<any>; record: MigrationRecord | null }>,
+    dryRun: boolean,
+  ): Promise<MigrationRunResult> {
+    const result: MigrationRunResult = { direction, dryRun, migrations: [] };
+    if (targets.length === 0) {
+      return result;
+    }
+
+    if (!dryRun) {
+      await this.acquireLock();
+    }
+
+    try {
+      for (const { migration, record } of targets) {
+        // Only an interrupted run in the same direction can be resumed
+        const resume = record && record.direction === direction && record.status !== 'completed';
+        result.migrations.push(
+          await this.runMigration(migration, direction, dryRun, resume ? record : null),
+        );
+      }
+    } finally {
+      if (!dryRun) {
+        await this.releaseLock();
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Runs one migration over its collection, page by page
+   *
+   * @param migration - The migration to run
+   * @param direction - Whether to apply or revert
+   * @param dryRun - Whether to skip all writes
+   * @param resumeFrom - Record of an interrupted run to resume, if any
+   * @returns Promise resolving to the migration report
+   * @throws FirestoreError if the migration fails
+   */
+  private async runMigration(
+    migration: Migration<any>,
+    direction: 'up' | 'down',
+    dryRun: boolean,
+    resumeFrom: MigrationRecord | null,
+  ): Promise<MigrationReport> {
+    const transform = direction === 'up' ? migration.up : (migration.down as MigrationTransform);
+    const recordPath = `${this.metadataCollection}/${migration.name}`;
+    const report: MigrationReport = { name: migration.name, processed: 0, updated: 0, changes: [] };
+    let cursor = resumeFrom?.cursor ?? null;
+    let processed = resumeFrom?.processed ?? 0;
+
+    try {
+      do {
+        const page = await this.getPage(migration.collection, cursor);
+        const batch = this.service.batch();
+
+        for (const doc of page.items) {
+          const path = `${migration.collection}/${doc.id}`;
+          const change = await transform(doc);
+          report.processed++;
+          if (change === undefined) {
+            continue;
+          }
+          report.updated++;
+          if (dryRun) {
+            report.changes.push({ path, data: change });
+          } else {
+            batch.updateDocument(path, change);
+          }
+        }
+
+        // The checkpoint only advances once the page's changes are committed
+        const nextProcessed = processed + page.items.length;
+        if (!dryRun) {
+          batch.setDocument(
+            recordPath,
+            this.createRecord(migration.name, direction, page.nextCursor, nextProcessed),
+          );
+          await this.renewLock();
+          await batch.commit();
+        }
+        cursor = page.nextCursor;
+        processed = nextProcessed;
+
+        if (this.options.onProgress) {
+          this.options.onProgress(migration.name, processed);
+        }
+      } while (cursor);
+
+      if (!dryRun) {
+        await this.service.setDocument(recordPath, {
+          ...this.createRecord(migration.name, direction, null, processed),
+          status: 'completed',
+        });
+      }
+      return report;
+    } catch (error: any) {
+      console.error(`Error running migration ${migration.name} (${direction}):`, error);
+
+      // A runner that lost the lock must not overwrite the new owner's record
+      if (!dryRun && error.path !== this.lockPath) {
+        await this.service
+          .setDocument(recordPath, {
+            ...this.createRecord(migration.name, direction, cursor, processed),
+            status: 'failed',
+            error: error.message ?? String(error),
+          })
+          .catch(recordError =>
+            console.error(`Error recording failure of ${migration.name}:`, recordError),
+          );
+      }
+
+      throw new FirestoreError(
+        `Migration '${migration.name}' (${direction}) failed: ${error.message}`,
+        error.path ?? migration.collection,
+        error.code,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Gets the next page of a migration's collection
+   *
+   * A checkpoint cursor points at the last committed document, which may have
+   * been deleted since. In that case the page starts after that document's id,
+   * which is where the cursor would have continued.
+   *
+   * @param collectionPath - Path to the migrated collection
+   * @param cursor - Cursor after the last committed page, if any
+   * @returns Promise resolving to the page
+   * @throws FirestoreError if the page can't be read
+   */
+  private async getPage(
+    collectionPath: string,
+    cursor: string | null,
+  ): Promise<Page<DocumentData>> {
+    const request = { pageSize: this.pageSize, cursor, includeDeleted: true };
+
+    try {
+      return await this.service.paginate<DocumentData>(collectionPath, request);
+    } catch (error) {
+      const lastPath = cursor ? decodeCursor(cursor) : null;
+      if (!(error instanceof FirestoreError) || error.code !== 'not-found' || !lastPath) {
+        throw error;
+      }
+
+      const lastId = lastPath.slice(lastPath.lastIndexOf('/') + 1);
+      return this.service.paginate<DocumentData>(
+        collectionPath,
+        { ...request, cursor: null },
+        where(documentId(), '>', lastId),
+      );
+    }
+  }
+
+  /**
+   * Takes the migration lock, or fails if another runner holds a live lock
+   *
+   * @throws FirestoreError with code 'failed-precondition' if the lock is held
+   */
+  private async acquireLock(): Promise<void> {
+    await this.service.runTransaction(async transaction => {
+      const lock = await this.getLock(transaction);
+      if (lock && lock.owner !== this.owner && lock.expiresAt > Date.now()) {
+        throw new FirestoreError(
+          `Migrations are locked by ${lock.owner} until ${new Date(lock.expiresAt).toISOString()}`,
+          this.lockPath,
+          'failed-precondition',
+        );
+      }
+      transaction.setDocument(this.lockPath, this.createLock());
+    });
+  }
+
+  /**
+   * Extends the lock while a long migration is running
+   *
+   * A runner can stall past the lock timeout (e.g., on a slow transform), and
+   * another runner may have taken the lock over in the meantime. The lock is
+   * only extended if this runner still holds it.
+   *
+   * @throws FirestoreError with code 'aborted' if another runner has taken the lock over
+   */
+  private async renewLock(): Promise<void> {
+    await this.service.runTransaction(async transaction => {
+      const lock = await this.getLock(transaction);
+      if (lock?.owner !== this.owner) {
+        throw new FirestoreError(
+          `Migration lock was lost to ${lock?.owner ?? 'another runner'}`,
+          this.lockPath,
+          'aborted',
+        );
+      }
+      transaction.setDocument(this.lockPath, this.createLock());
+    });
+  }
+
+  /**
+   * Releases the lock if this runner still holds it
+   */
+  private async releaseLock(): Promise<void> {
+    try {
+      await this.service.runTransaction(async transaction => {
+        const lock = await this.getLock(transaction);
+        if (lock?.owner === this.owner) {
+          transaction.deleteDocument(this.lockPath);
+        }
+      });
+    } catch (error) {
+      // The lock expires on its own, so a failed release shouldn't hide the run's outcome
+      console.error(`Error releasing migration lock at ${this.lockPath}:`, error);
+    }
+  }
+
+  /**
+   * Reads the lock document within a transaction
+   *
+   * @param transaction - The transaction to read in
+   * @returns Promise resolving to the lock, or null if no runner holds it
+   */
+  private async getLock(transaction: FirestoreTransaction): Promise<MigrationLock | null> {
+    if (!(await transaction.documentExists(this.lockPath))) {
+      return null;
+    }
+    return transaction.getDocument<MigrationLock>(this.lockPath);
+  }
+
+  /**
+   * Builds the lock document for this runner
+   *
+   * @returns The lock data
+   */
+  private createLock(): MigrationLock {
+    return { owner: this.owner, expiresAt: Date.now() + this.lockTimeoutMs };
+  }
+
+  /**
+   * Builds a running migration record
+   *
+   * @param name - Migration name
+   * @param direction - Whether the migration is being applied or reverted
+   * @param cursor - Cursor after the last committed page
+   * @param processed - Documents processed so far
+   * @returns The record data
+   */
+  private createRecord(
+    name: string,
+    direction: 'up' | 'down',
+    cursor: string | null,
+    processed: number,
+  ): MigrationRecord {
+    return {
+      name,
+      direction,
+      status: 'running',
+      cursor,
+      processed,
+      updatedAt: Date.now(),
+      error: null,
+    };
+  }
+
+  /**
+   * Gets the stored record of a migration
+   *
+   * @param name - Migration name
+   * @returns Promise resolving to the record, or null if the migration never ran
+   */
+  private async getRecord(name: string): Promise<MigrationRecord | null> {
+    const path = `${this.metadataCollection}/${name}`;
+    if (!(await this.service.documentExists(path))) {
+      return null;
+    }
+    return this.service.getDocument<MigrationRecord>(path);
+  }
+
+  /**
+   * Finds the position of a migration by name
+   *
+   * @param name - Migration name
+   * @returns The migration's index
+   * @throws FirestoreError if no migration has that name
+   */
+  private indexOf(name: string): number {
+    const index = this.migrations.findIndex(migration => migration.name === name);
+    if (index === -1) {
+      throw new FirestoreError(`Unknown migration '${name}'`, undefined, 'invalid-argument');
+    }
+    return index;
+  }
+}
+
+/**
+ * Checks whether a stored record means the migration is currently applied
+ *
+ * A migration counts as applied once up() completes, and stays applied until
+ * down() completes, including while a revert is interrupted.
+ *
+ * @param record - The stored record, if any
+ * @returns Whether the migration is applied
+ */
+function isApplied(record: MigrationRecord | null): boolean {
+  if (!record) {
+    return false;
+  }
+  return record.direction === 'up' ? record.status === 'completed' : record.status !== 'completed';
+}
@@ -0,0 +1,205 @@
+import { DocumentData, QueryConstraint, SetOptions, Timestamp } from 'firebase/firestore';
+import { FirestoreError } from './firestore-error';
+import { FirestoreService } from './firestore-service';
+import { ModelMetadata, getModelMetadata } from './firestore-decorators';
+
+/**
+ * A model class decorated with @FirestoreCollection
+ */
+export type ModelClass<T> = new () => T;
+
+/** Characters used for generated document ids, matching Firestore's auto ids */
+const AUTO_ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * Loads, saves and queries decorated model classes through FirestoreService
+ *
+ * Models declare their mapping with @FirestoreCollection, @FirestoreId,
+ * @FirestoreField and @FirestoreTimestamp. Reads and writes go through the
+ * service, so registered validators see the stored field names, not the
+ * model's property names.
+ */
+export class ModelManager {
+  /**
+   * Creates a new ModelManager instance
+   *
+   * @param service - The FirestoreService used for all reads and writes
+   */
+  constructor(private service: FirestoreService) {}
+
+  /**
+   * Loads a model instance by document id
+   *
+   * @param model - The model class
+   * @param id - ID of the document
+   * @returns Promise resolving to a model instance with its id injected
+   * @throws Error if document doesn't exist or there's a Firestore error
+   */
+  async load<T extends object>(model: ModelClass<T>, id: string): Promise<T> {
+    const metadata = this.getMetadata(model);
+    const data = await this.service.getDocument<DocumentData>(`${metadata.collectionPath}/${id}`);
+    return this.fromFirestore(model, id, data);
+  }
+
+  /**
+   * Saves a model instance
+   *
+   * Instances without an id get a generated one, which is injected into the
+   * instance once the write succeeds.
+   *
+   * @param instance - The model instance to save
+   * @param options - Optional SetOptions (e.g., { merge: true })
+   * @returns Promise resolving to the document id
+   */
+  async save<T extends object>(instance: T, options?: SetOptions): Promise<string> {
+    const metadata = this.getMetadata(instance.constructor);
+    const record = instance as Record<string, any>;
+    const id = String(record[metadata.idProperty] || this.generateId());
+
+    await this.service.setDocument(
+      `${metadata.collectionPath}/${id}`,
+      this.toFirestore(instance),
+      options,
+    );
+    record[metadata.idProperty] = id;
+    return id;
+  }
+
+  /**
+   * Queries a model's collection
+   *
+   * Constraints refer to stored field names; use fieldName() to look up the
+   * stored name of a renamed property.
+   *
+   * @param model - The model class
+   * @param queryConstraints - Query constraints (e.g., where, orderBy, limit)
+   * @returns Promise resolving to the matching model instances
+   */
+  async query<T extends object>(
+    model: ModelClass<T>,
+    ...queryConstraints: QueryConstraint[]
+  ): Promise<T[]> {
+    const metadata = this.getMetadata(model);
+    const results = await this.service.query<DocumentData>(
+      metadata.collectionPath,
+      ...queryConstraints,
+    );
+    return results.map(({ id, ...data }) => this.fromFirestore(model, id, data));
+  }
+
+  /**
+   * Deletes a model instance's document
+   *
+   * @param instance - The model instance to delete
+   * @returns Promise that resolves when the operation is complete
+   * @throws FirestoreError if the instance has no id
+   */
+  async delete<T extends object>(instance: T): Promise<void> {
+    const metadata = this.getMetadata(instance.constructor);
+    const id = (instance as Record<string, any>)[metadata.idProperty];
+
+    if (!id) {
+      throw new FirestoreError(
+        `Cannot delete ${instance.constructor.name} without an id`,
+        metadata.collectionPath,
+        'invalid-argument',
+      );
+    }
+
+    await this.service.deleteDocument(`${metadata.collectionPath}/${id}`);
+  }
+
+  /**
+   * Gets the stored Firestore field name of a model property
+   *
+   * @param model - The model class
+   * @param propertyKey - The property on the model
+   * @returns The Firestore field name
+   */
+  fieldName<T extends object>(model: ModelClass<T>, propertyKey: keyof T & string): string {
+    const field = getModelMetadata(model).fields.find(f => f.propertyKey === propertyKey);
+    return field ? field.fieldName : propertyKey;
+  }
+
+  /**
+   * Converts a model instance to Firestore document data
+   *
+   * @param instance - The model instance
+   * @returns The document data, keyed by stored field names
+   */
+  toFirestore<T extends object>(instance: T): DocumentData {
+    const metadata = getModelMetadata(instance.constructor);
+    const record = instance as Record<string, any>;
+    const data: DocumentData = {};
+
+    metadata.fields.forEach(field => {
+      const value = record[field.propertyKey];
+      if (value === undefined) {
+        return;
+      }
+      data[field.fieldName] =
+        field.kind === 'timestamp' && value instanceof Date ? Timestamp.fromDate(value) : value;
+    });
+
+    return data;
+  }
+
+  /**
+   * Creates a model instance from Firestore document data
+   *
+   * @param model - The model class
+   * @param id - ID of the document
+   * @param data - The document data, keyed by stored field names
+   * @returns The model instance with its id injected
+   */
+  fromFirestore<T extends object>(model: ModelClass<T>, id: string, data: DocumentData): T {
+    const metadata = getModelMetadata(model);
+    const instance = new model() as Record<string, any>;
+
+    instance[metadata.idProperty] = id;
+    metadata.fields.forEach(field => {
+      if (!(field.fieldName in data)) {
+        return;
+      }
+      const value = data[field.fieldName];
+      instance[field.propertyKey] =
+        field.kind === 'timestamp' && typeof value?.toDate === 'function' ? value.toDate() : value;
+    });
+
+    return instance as T;
+  }
+
+  /**
+   * Gets a model's metadata, checking it is mapped to a collection
+   *
+   * @param model - The model class
+   * @returns The model metadata
+   * @throws FirestoreError if the class isn't decorated with @FirestoreCollection
+   */
+  private getMetadata(model: object): ModelMetadata & { collectionPath: string } {
+    const metadata = getModelMetadata(model);
+
+    if (!metadata.collectionPath) {
+      throw new FirestoreError(
+        `${(model as { name?: string }).name} is not decorated with @FirestoreCollection`,
+        undefined,
+        'invalid-argument',
+      );
+    }
+
+    return metadata as ModelMetadata & { collectionPath: string };
+  }
+
+  /**
+   * Generates a random document id like Firestore's auto ids
+   *
+   * @returns A 20-character id
+   */
+  private generateId(): string {
+    let id = '';
+    for (let i = 0; i < 20; i++) {
+      id += AUTO_ID_CHARS.charAt(Math.floor(Math.random() * AUTO_ID_CHARS.length));
+    }
+    return id;
+  }
+}
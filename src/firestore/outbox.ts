@@ -0,0 +1,298 @@
+import { randomUUID } from 'crypto';
+import { SetOptions, Timestamp, limit, orderBy, serverTimestamp, where } from 'firebase/firestore';
+import { PubSubService } from '../pubsub/pubsub-service';
+import { FirestoreError } from './firestore-error';
+import { FirestoreService, WithId } from './firestore-service';
+import { FirestoreTransaction } from './firestore-transaction';
+
+/** Collection holding outbox records unless another one is given */
+export const DEFAULT_OUTBOX_COLLECTION = 'outbox';
+
+/** Message attribute carrying the outbox record's event id */
+export const EVENT_ID_ATTRIBUTE = 'eventId';
+
+/**
+ * Domain event to publish once the surrounding write has committed
+ */
+export interface OutboxEvent {
+  /** Pub/Sub topic to publish to */
+  topic: string;
+  /** Message data (string or object that will be JSON stringified) */
+  data: string | object;
+  /** Optional message attributes; the event id is added as 'eventId' */
+  attributes?: Record<string, string>;
+}
+
+/**
+ * Delivery state of an outbox record
+ */
+export type OutboxStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * Document stored in the outbox collection for each event
+ */
+export interface OutboxRecord extends OutboxEvent {
+  /** Stable id of the event, also the record's document id */
+  eventId: string;
+  status: OutboxStatus;
+  /** Number of publish attempts made so far */
+  attempts: number;
+  /** Server time the record was written (a Date when serialization is enabled) */
+  createdAt: Timestamp | Date;
+  /** Earliest time the record is published; pushed back after each failed attempt */
+  nextAttemptAt: Timestamp | Date;
+  /** Server time the event was published */
+  sentAt?: Timestamp | Date;
+  /** Pub/Sub message id of the published event */
+  messageId?: string;
+  /** Message of the last publish failure */
+  lastError?: string;
+}
+
+/**
+ * Options for relaying outbox records
+ */
+export interface OutboxRelayOptions {
+  /** Most records published by one relayPending() call (default: 100) */
+  batchSize?: number;
+  /** Publish attempts before a record is marked failed (default: 5) */
+  maxAttempts?: number;
+  /** Wait before retrying a failed record; doubles after each further failure (default: 1000) */
+  retryDelayMs?: number;
+  /** Upper bound for the wait between attempts (default: 300000) */
+  maxRetryDelayMs?: number;
+}
+
+/**
+ * Outcome of one relayPending() call
+ */
+export interface OutboxRelayResult {
+  /** Records published and marked sent */
+  sent: number;
+  /** Records whose publish failed and that will be tried again */
+  retrying: number;
+  /** Records whose publish failed for the last time and were marked failed */
+  failed: number;
+}
+
+/**
+ * Transactional outbox for publishing domain events
+ *
+ * Events are stored as records in an outbox collection in the same
+ * transaction as the document change they describe, so either both are
+ * written or neither is. An OutboxRelay publishes the records afterwards.
+ */
+export class Outbox {
+  /**
+   * Creates a new Outbox instance
+   *
+   * @param service - The FirestoreService used to run transactions
+   * @param collectionPath - Collection holding the outbox records
+   */
+  constructor(
+    private service: FirestoreService,
+    private collectionPath: string = DEFAULT_OUTBOX_COLLECTION,
+  ) {}
+
+  /**
+   * Adds an event to the outbox within a transaction
+   *
+   * @param transaction - The transaction that also writes the document change
+   * @param event - The event to publish once the transaction has committed
+   * @returns The event id, sent as the 'eventId' message attribute
+   * @throws FirestoreError if the event has no topic
+   */
+  enqueue(transaction: FirestoreTransaction, event: OutboxEvent): string {
+    const eventId = randomUUID();
+    const path = `${this.collectionPath}/${eventId}`;
+    if (!event.topic) {
+      throw new FirestoreError('Outbox event must have a topic', path, 'invalid-argument');
+    }
+
+    transaction.setDocument(path, {
+      eventId,
+      topic: event.topic,
+      data: event.data,
+      ...(event.attributes ? { attributes: event.attributes } : {}),
+      status: 'pending',
+      attempts: 0,
+      createdAt: serverTimestamp(),
+      nextAttemptAt: serverTimestamp(),
+    });
+    return eventId;
+  }
+
+  /**
+   * Creates or replaces a document and records an event in one transaction
+   *
+   * @param path - Path to the document (e.g., 'orders/123')
+   * @param data - Data to store in the document
+   * @param event - The event to publish
+   * @param options - Optional SetOptions (e.g., { merge: true })
+   * @returns Promise resolving to the event id
+   * @throws FirestoreError if the transaction fails
+   */
+  async setDocument<T>(
+    path: string,
+    data: T,
+    event: OutboxEvent,
+    options?: SetOptions,
+  ): Promise<string> {
+    return this.service.runTransaction(async transaction => {
+      transaction.setDocument(path, data, options);
+      return this.enqueue(transaction, event);
+    });
+  }
+
+  /**
+   * Updates an existing document and records an event in one transaction
+   *
+   * @param path - Path to the document (e.g., 'orders/123')
+   * @param data - Fields to update in the document
+   * @param event - The event to publish
+   * @returns Promise resolving to the event id
+   * @throws FirestoreError if the document doesn't exist or the transaction fails
+   */
+  async updateDocument(path: string, data: Partial<any>, event: OutboxEvent): Promise<string> {
+    return this.service.runTransaction(async transaction => {
+      transaction.updateDocument(path, data);
+      return this.enqueue(transaction, event);
+    });
+  }
+
+  /**
+   * Deletes a document and records an event in one transaction
+   *
+   * @param path - Path to the document (e.g., 'orders/123')
+   * @param event - The event to publish
+   * @returns Promise resolving to the event id
+   * @throws FirestoreError if the transaction fails
+   */
+  async deleteDocument(path: string, event: OutboxEvent): Promise<string> {
+    return this.service.runTransaction(async transaction => {
+      transaction.deleteDocument(path);
+      return this.enqueue(transaction, event);
+    });
+  }
+
+  /**
+   * Creates a relay that publishes this outbox's records
+   *
+   * @param pubsub - The PubSubService to publish through
+   * @param options - Optional batch size, attempt limit and retry delays
+   * @returns A relay bound to this outbox's collection
+   */
+  createRelay(pubsub: PubSubService, options?: OutboxRelayOptions): OutboxRelay {
+    return new OutboxRelay(this.service, pubsub, this.collectionPath, options);
+  }
+}
+
+/**
+ * Publishes pending outbox records through a PubSubService
+ *
+ * Delivery is at least once: a record is marked sent after it has been
+ * published, so a crash in between (or two relays picking up the same record)
+ * publishes it again. Each message carries the record's event id in the
+ * 'eventId' attribute, so subscribers can detect duplicates. A failed
+ * publish leaves the record pending, but it isn't picked up again until its
+ * nextAttemptAt, which backs off exponentially, so failing records don't
+ * crowd out new ones. Once maxAttempts is reached the record is marked failed.
+ *
+ * The relay query needs a composite index on the outbox collection
+ * (status ascending, nextAttemptAt ascending); firestore.indexes.json in this
+ * package declares it.
+ */
+export class OutboxRelay {
+  private batchSize: number;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private maxRetryDelayMs: number;
+
+  /**
+   * Creates a new OutboxRelay instance
+   *
+   * @param service - The FirestoreService holding the outbox collection
+   * @param pubsub - The PubSubService to publish through
+   * @param collectionPath - Collection holding the outbox records
+   * @param options - Optional batch size, attempt limit and retry delays
+   */
+  constructor(
+    private service: FirestoreService,
+    private pubsub: PubSubService,
+    private collectionPath: string = DEFAULT_OUTBOX_COLLECTION,
+    options: OutboxRelayOptions = {},
+  ) {
+    this.batchSize = options.batchSize ?? 100;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Publishes pending records that are due, longest waiting first
+   *
+   * Call this periodically (e.g., from a scheduled function) or after writes.
+   *
+   * @returns Promise resolving to the number of records sent, retrying and failed
+   * @throws FirestoreError if the outbox can't be read or a record can't be marked
+   */
+  async relayPending(): Promise<OutboxRelayResult> {
+    const result: OutboxRelayResult = { sent: 0, retrying: 0, failed: 0 };
+
+    try {
+      const records = await this.service.query<OutboxRecord>(
+        this.collectionPath,
+        where('status', '==', 'pending'),
+        where('nextAttemptAt', '<=', Timestamp.now()),
+        orderBy('nextAttemptAt'),
+        limit(this.batchSize),
+      );
+
+      for (const record of records) {
+        result[await this.relay(record)]++;
+      }
+
+      return result;
+    } catch (error) {
+      console.error(`Error relaying outbox records from ${this.collectionPath}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Publishes one record and stores the outcome on it
+   *
+   * @param record - The pending record
+   * @returns Promise resolving to the result counter the record belongs to
+   */
+  private async relay(record: WithId<OutboxRecord>): Promise<keyof OutboxRelayResult> {
+    const path = `${this.collectionPath}/${record.id}`;
+    const attempts = record.attempts + 1;
+
+    let messageId: string;
+    try {
+      messageId = await this.pubsub.publishMessage(record.topic, record.data, {
+        ...record.attributes,
+        [EVENT_ID_ATTRIBUTE]: record.eventId,
+      });
+    } catch (error) {
+      const status: OutboxStatus = attempts >= this.maxAttempts ? 'failed' : 'pending';
+      const delay = Math.min(this.retryDelayMs * 2 ** (attempts - 1), this.maxRetryDelayMs);
+      await this.service.updateDocument(path, {
+        status,
+        attempts,
+        nextAttemptAt: Timestamp.fromMillis(Date.now() + delay),
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      return status === 'failed' ? 'failed' : 'retrying';
+    }
+
+    await this.service.updateDocument(path, {
+      status: 'sent',
+      attempts,
+      messageId,
+      sentAt: serverTimestamp(),
+    });
+    return 'sent';
+  }
+}
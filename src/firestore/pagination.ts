@@ -0,0 +1,62 @@
+import { WithId } from './firestore-service';
+import { RetryCallOptions } from './retry-policy';
+
+/**
+ * A page of query results
+ */
+export interface Page<T> {
+  items: Array<WithId<T>>;
+  /** Opaque token for the next page, or null if this is the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Request for a specific page of query results
+ */
+export interface PageRequest extends RetryCallOptions {
+  pageSize: number;
+  /** Cursor returned with the previous page; omit for the first page */
+  cursor?: string | null;
+  /** Include soft-deleted documents when the service's softDelete option is on (default: false) */
+  includeDeleted?: boolean;
+}
+
+/** Version tag embedded in cursor tokens so the format can evolve */
+const CURSOR_VERSION = 1;
+
+/**
+ * Encodes the path of the last document on a page as an opaque cursor token
+ *
+ * The token is URL-safe base64 so it can be passed through query strings and
+ * JSON API responses unchanged.
+ *
+ * @param path - Path of the last document on the page
+ * @returns The cursor token
+ */
+export function encodeCursor(path: string): string {
+  return Buffer.from(JSON.stringify({ v: CURSOR_VERSION, p: path }))
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decodes a cursor token created by encodeCursor()
+ *
+ * @param cursor - The cursor token
+ * @returns The path of the document the cursor points after, or null if the token is malformed
+ */
+export function decodeCursor(cursor: string): string | null {
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    const decoded = JSON.parse(Buffer.from(base64, 'base64').toString('utf8'));
+
+    if (decoded?.v !== CURSOR_VERSION || typeof decoded.p !== 'string') {
+      return null;
+    }
+    return decoded.p;
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Splits a Firestore path into its segments, ignoring leading and trailing slashes
+ *
+ * @param path - A document or collection path (e.g., 'users/123')
+ * @returns The path segments
+ */
+export function splitPath(path: string): string[] {
+  return path.split('/').filter(segment => segment.length > 0);
+}
+
+/**
+ * Matches a path against a pattern of the same length
+ *
+ * Pattern segments are either literal ids, `{name}` placeholders that capture
+ * the segment, or `*` wildcards that match any single segment.
+ *
+ * @param pattern - The pattern (e.g., 'users/{uid}/posts')
+ * @param path - The concrete path (e.g., 'users/123/posts')
+ * @returns The captured placeholder values, or null if the path doesn't match
+ */
+export function matchPathPattern(pattern: string, path: string): Record<string, string> | null {
+  const patternSegments = splitPath(pattern);
+  const pathSegments = splitPath(path);
+
+  if (patternSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternSegments.length; i++) {
+    const patternSegment = patternSegments[i];
+    const placeholder = /^\{(\w+)\}$/.exec(patternSegment);
+
+    if (placeholder) {
+      params[placeholder[1]] = pathSegments[i];
+    } else if (patternSegment !== '*' && patternSegment !== pathSegments[i]) {
+      return null;
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Checks whether a document path falls under a pattern
+ *
+ * Collection patterns (odd number of segments, e.g. 'users/{uid}/posts')
+ * match every document directly inside a matching collection; document
+ * patterns (even number of segments) match documents one-to-one.
+ *
+ * @param pattern - A collection or document pattern
+ * @param documentPath - The concrete document path (e.g., 'users/123/posts/456')
+ * @returns Whether the document falls under the pattern
+ */
+export function documentMatchesPattern(pattern: string, documentPath: string): boolean {
+  const isCollectionPattern = splitPath(pattern).length % 2 === 1;
+  const target = isCollectionPattern
+    ? splitPath(documentPath).slice(0, -1).join('/')
+    : documentPath;
+
+  return matchPathPattern(pattern, target) !== null;
+}
+
+/**
+ * Extracts the ids of a document's ancestors, keyed by their collection names
+ *
+ * If a collection name appears at several levels, the deepest id wins.
+ *
+ * @param documentPath - The document path (e.g., 'users/u1/posts/p1/comments/c1')
+ * @returns The ancestor ids (e.g., { users: 'u1', posts: 'p1' })
+ */
+export function parseParentIds(documentPath: string): Record<string, string> {
+  const segments = splitPath(documentPath).slice(0, -2);
+  const parentIds: Record<string, string> = {};
+
+  for (let i = 0; i + 1 < segments.length; i += 2) {
+    parentIds[segments[i]] = segments[i + 1];
+  }
+
+  return parentIds;
+}
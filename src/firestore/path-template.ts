@@ -0,0 +1,281 @@
+import { FirestoreError } from './firestore-error';
+import { splitPath } from './path-pattern';
+
+/**
+ * Splits a path template into its segments at the type level
+ */
+type TemplateSegments<T extends string> = T extends `${infer Head}/${infer Rest}`
+  ? [Head, ...TemplateSegments<Rest>]
+  : [T];
+
+/**
+ * Whether a tuple has an even number of elements
+ */
+type IsEvenLength<L extends unknown[]> = L extends []
+  ? true
+  : L extends [unknown, unknown, ...infer Rest]
+    ? IsEvenLength<Rest>
+    : false;
+
+/**
+ * Names of the `{placeholder}` segments in a path template
+ */
+export type PathParamNames<T extends string> = T extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | PathParamNames<Rest>
+  : never;
+
+/**
+ * The params a path template needs: exactly one string per placeholder
+ */
+export type PathParams<T extends string> = { [K in PathParamNames<T>]: string };
+
+/**
+ * Whether a template points at a document (even segment count) or a collection (odd)
+ */
+export type PathKind<T extends string = string> = string extends T
+  ? 'document' | 'collection'
+  : IsEvenLength<TemplateSegments<T>> extends true
+    ? 'document'
+    : 'collection';
+
+/**
+ * A document path built from a template
+ *
+ * Still a plain string, so it can be passed anywhere a path is accepted.
+ */
+export type DocumentPath = string & { readonly __pathKind: 'document' };
+
+/**
+ * A collection path built from a template
+ *
+ * Still a plain string, so it can be passed anywhere a path is accepted.
+ */
+export type CollectionPath = string & { readonly __pathKind: 'collection' };
+
+/**
+ * The type of path a template builds
+ */
+export type BuiltPath<T extends string> =
+  PathKind<T> extends 'document'
+    ? DocumentPath
+    : PathKind<T> extends 'collection'
+      ? CollectionPath
+      : DocumentPath | CollectionPath;
+
+/** Matches a `{name}` placeholder segment */
+const PLACEHOLDER = /^\{(\w+)\}$/;
+
+/**
+ * A typed template for building and parsing Firestore paths
+ *
+ * Created with path(). Ids passed to build() are escaped so that a slash in
+ * an id can't change the shape of the path, and parse() reverses the escaping.
+ *
+ * @example
+ * ```typescript
+ * const userPost = path('users/{uid}/posts/{postId}');
+ *
+ * await service.getDocument(userPost.build({ uid, postId }));
+ * userPost.parse('users/u1/posts/p1'); // { uid: 'u1', postId: 'p1' }
+ * ```
+ */
+export class PathTemplate<T extends string> {
+  /** Whether the template points at a document or a collection */
+  readonly kind: PathKind<T>;
+
+  /** Placeholder names, in the order they appear */
+  readonly params: Array<PathParamNames<T>>;
+
+  private segments: string[];
+
+  /**
+   * Creates a new PathTemplate
+   *
+   * @param template - The template (e.g., 'users/{uid}/posts')
+   * @throws FirestoreError if the template is malformed
+   */
+  constructor(readonly template: T) {
+    this.segments = template.split('/');
+    if (this.segments.some(segment => segment.length === 0)) {
+      throw new FirestoreError(
+        `Invalid path template '${template}': segments must not be empty`,
+        template,
+        'invalid-argument',
+      );
+    }
+
+    const params: string[] = [];
+    for (const segment of this.segments) {
+      const placeholder = PLACEHOLDER.exec(segment);
+      if (placeholder) {
+        if (params.includes(placeholder[1])) {
+          throw new FirestoreError(
+            `Invalid path template '${template}': duplicate placeholder '${placeholder[1]}'`,
+            template,
+            'invalid-argument',
+          );
+        }
+        params.push(placeholder[1]);
+      } else if (/[{}]/.test(segment)) {
+        throw new FirestoreError(
+          `Invalid path template '${template}': placeholders must fill a whole segment`,
+          template,
+          'invalid-argument',
+        );
+      }
+    }
+
+    this.params = params as Array<PathParamNames<T>>;
+    this.kind = (this.segments.length % 2 === 0 ? 'document' : 'collection') as PathKind<T>;
+  }
+
+  /**
+   * Builds a concrete path from the template
+   *
+   * @param params - A value for every placeholder
+   * @returns The path
+   * @throws FirestoreError if a param is missing, unknown or not a valid id
+   */
+  build(params: PathParams<T>): BuiltPath<T> {
+    const values = params as Record<string, unknown>;
+    const unknown = Object.keys(values).filter(name => !(this.params as string[]).includes(name));
+    if (unknown.length > 0) {
+      throw new FirestoreError(
+        `Unknown params for path template '${this.template}': ${unknown.join(', ')}`,
+        this.template,
+        'invalid-argument',
+      );
+    }
+
+    const path = this.segments.map(segment => {
+      const placeholder = PLACEHOLDER.exec(segment);
+      if (!placeholder) {
+        return segment;
+      }
+
+      const value = values[placeholder[1]];
+      if (typeof value !== 'string' || !isValidId(value)) {
+        throw new FirestoreError(
+          `Invalid value for '${placeholder[1]}' in path template '${this.template}'`,
+          this.template,
+          'invalid-argument',
+        );
+      }
+      return escapeId(value);
+    });
+
+    return path.join('/') as BuiltPath<T>;
+  }
+
+  /**
+   * Parses a concrete path back into the template's params
+   *
+   * @param path - The path (e.g., 'users/u1/posts/p1')
+   * @returns The params, with escaped ids restored
+   * @throws FirestoreError if the path doesn't match the template
+   */
+  parse(path: string): PathParams<T> {
+    const params = this.match(path);
+    if (!params) {
+      throw new FirestoreError(
+        `Path '${path}' does not match template '${this.template}'`,
+        path,
+        'invalid-argument',
+      );
+    }
+    return params;
+  }
+
+  /**
+   * Checks whether a concrete path matches the template
+   *
+   * @param path - The path
+   * @returns Whether parse() would succeed
+   */
+  matches(path: string): boolean {
+    return this.match(path) !== null;
+  }
+
+  /**
+   * Matches a path against the template
+   *
+   * @param path - The path
+   * @returns The params, or null if the path doesn't match
+   */
+  private match(path: string): PathParams<T> | null {
+    const pathSegments = splitPath(path);
+    if (pathSegments.length !== this.segments.length) {
+      return null;
+    }
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < this.segments.length; i++) {
+      const placeholder = PLACEHOLDER.exec(this.segments[i]);
+      if (placeholder) {
+        params[placeholder[1]] = unescapeId(pathSegments[i]);
+      } else if (this.segments[i] !== pathSegments[i]) {
+        return null;
+      }
+    }
+
+    return params as PathParams<T>;
+  }
+}
+
+/**
+ * Creates a typed path template
+ *
+ * The template's segment count decides whether it builds document paths
+ * (even) or collection paths (odd). Passing the expected kind checks this
+ * both at compile time and at runtime.
+ *
+ * @param template - The template, with `{name}` placeholders for ids
+ * @param kind - The kind of path the template must build
+ * @returns The template
+ * @throws FirestoreError if the template is malformed or of the wrong kind
+ */
+export function path<T extends string>(template: T, kind?: PathKind<T>): PathTemplate<T> {
+  const pathTemplate = new PathTemplate(template);
+
+  if (kind && pathTemplate.kind !== kind) {
+    throw new FirestoreError(
+      `Path template '${template}' is a ${pathTemplate.kind} path, expected a ${kind} path`,
+      template,
+      'invalid-argument',
+    );
+  }
+
+  return pathTemplate;
+}
+
+/**
+ * Checks whether a value can be used as a document id
+ *
+ * Firestore rejects empty ids and the ids '.' and '..'.
+ *
+ * @param id - The id
+ * @returns Whether the id is valid
+ */
+function isValidId(id: string): boolean {
+  return id.length > 0 && id !== '.' && id !== '..';
+}
+
+/**
+ * Escapes an id so that it occupies exactly one path segment
+ *
+ * @param id - The id
+ * @returns The id with '%' and '/' percent-encoded
+ */
+export function escapeId(id: string): string {
+  return id.replace(/%/g, '%25').replace(/\//g, '%2F');
+}
+
+/**
+ * Reverses escapeId()
+ *
+ * @param segment - The escaped path segment
+ * @returns The original id
+ */
+export function unescapeId(segment: string): string {
+  return segment.replace(/%(25|2F)/gi, (_, code: string) => (code === '25' ? '%' : '/'));
+}
@@ -0,0 +1,303 @@
+import {
+  Bytes,
+  DocumentReference,
+  GeoPoint,
+  OrderByDirection,
+  QueryConstraint,
+  Timestamp,
+  endAt,
+  endBefore,
+  limit,
+  limitToLast,
+  orderBy,
+  startAfter,
+  startAt,
+  where,
+} from 'firebase/firestore';
+import { isPlainObject } from './internal-utils';
+import { RetryCallOptions } from './retry-policy';
+
+/**
+ * Values that are compared as a whole rather than walked into for field paths
+ */
+type LeafValue =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | Timestamp
+  | GeoPoint
+  | Bytes
+  | DocumentReference
+  | ((...args: any[]) => unknown)
+  | readonly unknown[];
+
+/**
+ * Dot-separated paths to the fields of a document type (e.g., 'name' | 'address.city')
+ *
+ * Nesting is followed up to four levels deep.
+ */
+export type FieldPath<T, Depth extends unknown[] = []> = Depth['length'] extends 4
+  ? never
+  : {
+      [K in keyof T & string]: NonNullable<T[K]> extends LeafValue
+        ? K
+        : K | `${K}.${FieldPath<NonNullable<T[K]>, [...Depth, unknown]>}`;
+    }[keyof T & string];
+
+/**
+ * Type of the field at a dot-separated path
+ */
+export type FieldPathValue<T, P extends string> = P extends keyof T
+  ? T[P]
+  : P extends `${infer K}.${infer Rest}`
+    ? K extends keyof T
+      ? FieldPathValue<NonNullable<T[K]>, Rest>
+      : never
+    : never;
+
+/**
+ * Operators that compare a field with a single value
+ */
+export type ComparisonOperator = '<' | '<=' | '==' | '!=' | '>=' | '>';
+
+/**
+ * Operators allowed for a field of type V; array operators only apply to array fields
+ */
+export type OperatorFor<V> =
+  | ComparisonOperator
+  | 'in'
+  | 'not-in'
+  | (NonNullable<V> extends readonly unknown[] ? 'array-contains' | 'array-contains-any' : never);
+
+type ElementOf<V> = NonNullable<V> extends ReadonlyArray<infer E> ? E : never;
+
+/**
+ * Value expected by an operator for a field of type V
+ */
+export type FilterValue<V, O> = O extends ComparisonOperator
+  ? Exclude<V, undefined>
+  : O extends 'in' | 'not-in'
+    ? Array<Exclude<V, undefined>>
+    : O extends 'array-contains'
+      ? ElementOf<V>
+      : O extends 'array-contains-any'
+        ? Array<ElementOf<V>>
+        : never;
+
+/**
+ * Declarative filter on a document field (e.g., { field: 'age', operator: '<', value: 40 })
+ */
+export type QueryFilter<T> = {
+  [P in FieldPath<T>]: {
+    [O in OperatorFor<FieldPathValue<T, P>>]: {
+      field: P;
+      operator: O;
+      value: FilterValue<FieldPathValue<T, P>, O>;
+    };
+  }[OperatorFor<FieldPathValue<T, P>>];
+}[FieldPath<T>];
+
+/**
+ * Anything the query methods accept as a constraint: a raw QueryConstraint,
+ * a QueryBuilder, or an array of declarative filters
+ */
+export type QueryInput<T> = QueryConstraint | QueryBuilder<T> | Array<QueryFilter<T>>;
+
+/**
+ * Query inputs, optionally preceded by per-call options
+ *
+ * @example
+ * service.query<User>('users', { retry: false }, where('age', '>', 30));
+ */
+export type QueryArgs<T> = Array<QueryInput<T>> | [RetryCallOptions, ...Array<QueryInput<T>>];
+
+/**
+ * Fluent builder for type-checked queries
+ *
+ * Field names are checked against the document type, including nested dot
+ * paths, and each operator only accepts values of the matching type. The
+ * builder compiles to ordinary QueryConstraints, so it can be passed anywhere
+ * FirestoreService accepts constraints.
+ *
+ * @example
+ * const adults = new QueryBuilder<User>()
+ *   .where('age', '>=', 18)
+ *   .where('tags', 'array-contains', 'admin')
+ *   .orderBy('address.city')
+ *   .limit(20);
+ * await firestoreService.query<User>('users', adults);
+ */
+export class QueryBuilder<T> {
+  private constraints: QueryConstraint[] = [];
+
+  /**
+   * Adds a filter on a field
+   *
+   * @param field - Path to the field (e.g., 'address.city')
+   * @param operator - Comparison operator
+   * @param value - Value to compare with; arrays for 'in', 'not-in' and 'array-contains-any'
+   * @returns This builder, for chaining
+   */
+  where<P extends FieldPath<T>, O extends OperatorFor<FieldPathValue<T, P>>>(
+    field: P,
+    operator: O,
+    value: FilterValue<FieldPathValue<T, P>, O>,
+  ): this {
+    this.constraints.push(where(field, operator, value));
+    return this;
+  }
+
+  /**
+   * Adds a declarative filter
+   *
+   * @param filter - The filter (e.g., { field: 'age', operator: '<', value: 40 })
+   * @returns This builder, for chaining
+   */
+  filter(filter: QueryFilter<T>): this {
+    this.constraints.push(toWhere(filter));
+    return this;
+  }
+
+  /**
+   * Sorts the results by a field
+   *
+   * @param field - Path to the field
+   * @param direction - Sort direction (default: 'asc')
+   * @returns This builder, for chaining
+   */
+  orderBy(field: FieldPath<T>, direction?: OrderByDirection): this {
+    this.constraints.push(orderBy(field, direction));
+    return this;
+  }
+
+  /**
+   * Limits the number of results
+   *
+   * @param count - Maximum number of documents to return
+   * @returns This builder, for chaining
+   */
+  limit(count: number): this {
+    this.constraints.push(limit(count));
+    return this;
+  }
+
+  /**
+   * Limits the results to the last documents in the ordering
+   *
+   * @param count - Maximum number of documents to return
+   * @returns This builder, for chaining
+   */
+  limitToLast(count: number): this {
+    this.constraints.push(limitToLast(count));
+    return this;
+  }
+
+  /**
+   * Starts the results at the given orderBy values (inclusive)
+   *
+   * @param values - Values of the orderBy fields, in order
+   * @returns This builder, for chaining
+   */
+  startAt(...values: unknown[]): this {
+    this.constraints.push(startAt(...values));
+    return this;
+  }
+
+  /**
+   * Starts the results after the given orderBy values
+   *
+   * @param values - Values of the orderBy fields, in order
+   * @returns This builder, for chaining
+   */
+  startAfter(...values: unknown[]): this {
+    this.constraints.push(startAfter(...values));
+    return this;
+  }
+
+  /**
+   * Ends the results at the given orderBy values (inclusive)
+   *
+   * @param values - Values of the orderBy fields, in order
+   * @returns This builder, for chaining
+   */
+  endAt(...values: unknown[]): this {
+    this.constraints.push(endAt(...values));
+    return this;
+  }
+
+  /**
+   * Ends the results before the given orderBy values
+   *
+   * @param values - Values of the orderBy fields, in order
+   * @returns This builder, for chaining
+   */
+  endBefore(...values: unknown[]): this {
+    this.constraints.push(endBefore(...values));
+    return this;
+  }
+
+  /**
+   * Compiles the builder to Firestore query constraints
+   *
+   * @returns The constraints, in the order they were added
+   */
+  build(): QueryConstraint[] {
+    return [...this.constraints];
+  }
+}
+
+/**
+ * Compiles query inputs to Firestore query constraints
+ *
+ * @param inputs - Raw constraints, builders and arrays of declarative filters
+ * @returns The flattened constraints, in order
+ */
+export function toQueryConstraints<T>(inputs: Array<QueryInput<T>>): QueryConstraint[] {
+  return inputs.flatMap(input => {
+    if (input instanceof QueryBuilder) {
+      return input.build();
+    }
+    if (Array.isArray(input)) {
+      return input.map(toWhere);
+    }
+    return [input];
+  });
+}
+
+/**
+ * Separates the per-call options from the query inputs
+ *
+ * Options can only come first and are told apart by being a plain object
+ * without a type: constraints all carry one, QueryBuilders are class
+ * instances and declarative filters come in arrays.
+ *
+ * @param args - Query inputs, optionally preceded by options
+ * @returns The options (empty if none were given) and the query inputs
+ */
+export function splitQueryArgs<T>(args: QueryArgs<T>): {
+  options: RetryCallOptions;
+  inputs: Array<QueryInput<T>>;
+} {
+  const [first, ...rest] = args;
+  const isOptions = isPlainObject(first) && !('type' in first);
+
+  return isOptions
+    ? { options: first as RetryCallOptions, inputs: rest as Array<QueryInput<T>> }
+    : { options: {}, inputs: args as Array<QueryInput<T>> };
+}
+
+/**
+ * Converts a declarative filter to a where() constraint
+ *
+ * @param filter - The filter
+ * @returns The where() constraint
+ */
+function toWhere<T>(filter: QueryFilter<T>): QueryConstraint {
+  const { field, operator, value } = filter as { field: string; operator: string; value: unknown };
+  return where(field, operator as Parameters<typeof where>[1], value);
+}
@@ -0,0 +1,185 @@
+import { FieldValue, deleteField, serverTimestamp } from 'firebase/firestore';
+import { FirestoreError } from './firestore-error';
+import { isPlainObject, sleep } from './internal-utils';
+
+/** Error codes that indicate a failure worth retrying */
+export const TRANSIENT_ERROR_CODES = [
+  'aborted',
+  'cancelled',
+  'deadline-exceeded',
+  'internal',
+  'resource-exhausted',
+  'unavailable',
+];
+
+/**
+ * Settings for retrying failed Firestore operations
+ */
+export interface RetryOptions {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry (default: 100) */
+  initialDelayMs?: number;
+  /** Upper bound for a single delay (default: 5000) */
+  maxDelayMs?: number;
+  /** Factor the delay grows by after each retry (default: 2) */
+  backoffMultiplier?: number;
+  /** Wait a random time up to the computed delay, to spread out retries (default: true) */
+  jitter?: boolean;
+  /** Error codes that are retried (default: transient codes such as 'unavailable') */
+  retryableCodes?: string[];
+}
+
+/**
+ * Per-call override of the service's retry policy
+ */
+export interface RetryCallOptions {
+  /**
+   * Retry settings for this call: false to disable retries, true for the
+   * service's settings, or options that replace individual settings
+   */
+  retry?: boolean | RetryOptions;
+}
+
+/**
+ * How an operation is run by RetryPolicy.run()
+ */
+export interface RetryContext {
+  /** Path the operation works on, recorded on the final error */
+  path?: string;
+  /** Whether running the operation twice has the same effect as once (default: true) */
+  idempotent?: boolean;
+  /** Per-call override of the policy */
+  override?: boolean | RetryOptions;
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  initialDelayMs: 100,
+  maxDelayMs: 5000,
+  backoffMultiplier: 2,
+  jitter: true,
+  retryableCodes: TRANSIENT_ERROR_CODES,
+};
+
+/**
+ * Retries operations that fail with transient errors, with exponential backoff
+ *
+ * When retries are enabled, an operation that still fails is rethrown as a
+ * FirestoreError whose attempts field records how often it was tried.
+ * Operations that aren't safe to repeat are tried once.
+ */
+export class RetryPolicy {
+  private options?: RetryOptions;
+
+  /**
+   * Creates a new RetryPolicy instance
+   *
+   * @param options - Retry options, true for the defaults, or undefined to disable retries
+   */
+  constructor(options?: boolean | RetryOptions) {
+    if (options) {
+      this.options = options === true ? {} : options;
+    }
+  }
+
+  /**
+   * Gets the error codes the policy retries
+   *
+   * @returns The configured codes, or the default transient codes
+   */
+  get retryableCodes(): string[] {
+    return this.options?.retryableCodes ?? DEFAULT_RETRY_OPTIONS.retryableCodes;
+  }
+
+  /**
+   * Runs an operation, retrying it on retryable errors
+   *
+   * @param operation - The operation; called again for each attempt
+   * @param context - Path, idempotency and per-call override
+   * @returns Promise resolving to the operation's result
+   * @throws FirestoreError with the attempt count once retries are exhausted
+   */
+  async run<T>(operation: () => Promise<T>, context: RetryContext = {}): Promise<T> {
+    const options = this.resolve(context.override);
+    if (!options) {
+      return operation();
+    }
+
+    const maxAttempts = context.idempotent === false ? 1 : Math.max(1, options.maxAttempts);
+    let delay = options.initialDelayMs;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error: any) {
+        if (attempt >= maxAttempts || !options.retryableCodes.includes(error?.code)) {
+          throw toFinalError(error, context.path, attempt);
+        }
+
+        const capped = Math.min(delay, options.maxDelayMs);
+        await sleep(options.jitter ? Math.random() * capped : capped);
+        delay *= options.backoffMultiplier;
+      }
+    }
+  }
+
+  /**
+   * Combines the policy's settings with a per-call override
+   *
+   * @param override - The per-call override
+   * @returns The settings to use, or null if retries are disabled for the call
+   */
+  private resolve(override?: boolean | RetryOptions): Required<RetryOptions> | null {
+    if (override === false || (override === undefined && !this.options)) {
+      return null;
+    }
+
+    return {
+      ...DEFAULT_RETRY_OPTIONS,
+      ...this.options,
+      ...(typeof override === 'object' ? override : {}),
+    };
+  }
+}
+
+/**
+ * Checks whether writing data twice has the same effect as writing it once
+ *
+ * FieldValue sentinels don't expose which operation they perform, so they are
+ * compared with the ones known to converge: serverTimestamp() and
+ * deleteField(). Any other sentinel (increment(), arrayUnion(), ...) makes
+ * the write unsafe to repeat.
+ *
+ * @param data - Data of a set or update
+ * @returns Whether the write can be retried safely
+ */
+export function isIdempotentWrite(data: unknown): boolean {
+  if (data instanceof FieldValue) {
+    return [serverTimestamp(), deleteField()].some(sentinel => data.isEqual(sentinel));
+  }
+  if (Array.isArray(data)) {
+    return data.every(isIdempotentWrite);
+  }
+  if (isPlainObject(data)) {
+    return Object.values(data).every(isIdempotentWrite);
+  }
+  return true;
+}
+
+/**
+ * Builds the error reported after the last attempt
+ *
+ * @param error - The error of the last attempt
+ * @param path - Path the operation worked on
+ * @param attempts - Number of attempts made
+ * @returns A FirestoreError carrying the attempt count
+ */
+function toFinalError(error: any, path: string | undefined, attempts: number): FirestoreError {
+  const firestoreError =
+    error instanceof FirestoreError
+      ? error
+      : new FirestoreError(error?.message ?? String(error), path, error?.code, error);
+  firestoreError.attempts = attempts;
+  return firestoreError;
+}
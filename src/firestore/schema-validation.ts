@@ -0,0 +1,272 @@
+import { DocumentData, FieldValue } from 'firebase/firestore';
+import { FirestoreError } from './firestore-error';
+import { isPlainObject } from './internal-utils';
+import { documentMatchesPattern } from './path-pattern';
+
+/**
+ * A single problem reported by a schema
+ */
+export interface ValidationIssue {
+  /** Path to the offending field (e.g., ['address', 'zip']) */
+  path: Array<string | number>;
+  message: string;
+}
+
+/**
+ * Result of validating data against a schema
+ */
+export type SafeParseResult<T> =
+  { success: true; data: T } | { success: false; error: { issues: ValidationIssue[] } };
+
+/**
+ * A schema that can validate document data
+ *
+ * The shape matches zod's safeParse(), so zod schemas (and anything else with
+ * a compatible safeParse) can be registered directly.
+ */
+export interface DocumentSchema<T = unknown> {
+  safeParse(data: unknown): SafeParseResult<T>;
+}
+
+/**
+ * How invalid documents are handled when they are read
+ *
+ * - 'reject': the read throws a FirestoreValidationError
+ * - 'report': the document is returned as stored and the error is passed to onInvalidRead
+ */
+export type InvalidReadMode = 'reject' | 'report';
+
+/**
+ * Options for a registered schema
+ */
+export interface SchemaOptions {
+  /** How invalid documents are handled when read (default: 'reject') */
+  readMode?: InvalidReadMode;
+  /** Called with the error for each invalid document read in 'report' mode */
+  onInvalidRead?: (error: FirestoreValidationError) => void;
+}
+
+/**
+ * Error thrown when document data doesn't satisfy its registered schema
+ */
+export class FirestoreValidationError extends FirestoreError {
+  /** Dot-separated paths of the offending fields (e.g., 'address.zip') */
+  public fieldPaths: string[];
+
+  constructor(
+    message: string,
+    path: string,
+    public issues: ValidationIssue[],
+  ) {
+    super(message, path, 'invalid-argument');
+    this.name = 'FirestoreValidationError';
+    this.fieldPaths = issues.map(issue => issue.path.join('.'));
+
+    // Ensures proper prototype chain for instanceof checks
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, FirestoreValidationError);
+    }
+  }
+}
+
+interface RegisteredSchema {
+  pattern: string;
+  schema: DocumentSchema;
+  options: SchemaOptions;
+}
+
+/**
+ * Validates document data against schemas registered by path pattern
+ *
+ * Patterns use the same syntax as path templates: literal ids, `{name}`
+ * placeholders and `*` wildcards. A collection pattern (e.g. 'users') applies
+ * to every document in matching collections.
+ */
+export class SchemaValidator {
+  private schemas: RegisteredSchema[] = [];
+
+  /**
+   * Registers a schema for documents under a path pattern
+   *
+   * Registering again for the same pattern replaces the earlier schema.
+   *
+   * @param pattern - Collection or document path pattern (e.g., 'users/{uid}/posts')
+   * @param schema - Schema the documents must satisfy
+   * @param options - Optional handling for invalid reads
+   */
+  register(pattern: string, schema: DocumentSchema, options: SchemaOptions = {}): void {
+    this.schemas = this.schemas.filter(registered => registered.pattern !== pattern);
+    this.schemas.push({ pattern, schema, options });
+  }
+
+  /**
+   * Removes the schema registered for a path pattern
+   *
+   * @param pattern - The pattern the schema was registered with
+   */
+  unregister(pattern: string): void {
+    this.schemas = this.schemas.filter(registered => registered.pattern !== pattern);
+  }
+
+  /**
+   * Validates data about to be written
+   *
+   * Partial writes (updates and merges) only report issues for the fields
+   * being written, so missing required fields don't fail them. Fields set to
+   * FieldValue sentinels such as serverTimestamp() are not checked.
+   *
+   * @param path - Path to the document being written
+   * @param data - The data being written
+   * @param mode - 'set' for full writes, 'merge' for merging sets, 'update' for updates
+   * @throws FirestoreValidationError if the data doesn't satisfy the schema
+   */
+  validateWrite(path: string, data: DocumentData, mode: 'set' | 'merge' | 'update'): void {
+    const registered = this.findSchema(path);
+    if (!registered) {
+      return;
+    }
+
+    const payload = mode === 'update' ? expandFieldPaths(data) : data;
+    const result = registered.schema.safeParse(payload);
+    if (result.success) {
+      return;
+    }
+
+    // Updates replace whole top-level values, while merges only touch leaf fields
+    const writtenPaths =
+      mode === 'set' ? null : mode === 'update' ? Object.keys(data) : leafPaths(data);
+    const issues = result.error.issues.filter(issue => {
+      const issuePath = issue.path.join('.');
+      if (isSentinelAt(payload, issue.path)) {
+        return false;
+      }
+      return (
+        !writtenPaths ||
+        writtenPaths.some(written => issuePath === written || issuePath.startsWith(`${written}.`))
+      );
+    });
+
+    if (issues.length > 0) {
+      throw this.createError(`Invalid data for document at ${path}`, path, issues);
+    }
+  }
+
+  /**
+   * Validates a document that has been read
+   *
+   * @param path - Path to the document that was read
+   * @param data - The stored document data
+   * @throws FirestoreValidationError if the document is invalid and its schema is in 'reject' mode
+   */
+  validateRead(path: string, data: unknown): void {
+    const registered = this.findSchema(path);
+    if (!registered) {
+      return;
+    }
+
+    const result = registered.schema.safeParse(data);
+    if (result.success) {
+      return;
+    }
+
+    const error = this.createError(`Invalid document at ${path}`, path, result.error.issues);
+
+    if ((registered.options.readMode ?? 'reject') === 'reject') {
+      throw error;
+    }
+
+    if (registered.options.onInvalidRead) {
+      registered.options.onInvalidRead(error);
+    } else {
+      console.warn(`${error.message}: ${error.fieldPaths.join(', ')}`);
+    }
+  }
+
+  /**
+   * Finds the most recently registered schema matching a document path
+   *
+   * @param path - Path to the document
+   * @returns The matching registration, if any
+   */
+  private findSchema(path: string): RegisteredSchema | undefined {
+    for (let i = this.schemas.length - 1; i >= 0; i--) {
+      if (documentMatchesPattern(this.schemas[i].pattern, path)) {
+        return this.schemas[i];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Builds a validation error listing the offending fields
+   *
+   * @param message - Error message prefix
+   * @param path - Path to the document
+   * @param issues - Issues reported by the schema
+   * @returns The validation error
+   */
+  private createError(
+    message: string,
+    path: string,
+    issues: ValidationIssue[],
+  ): FirestoreValidationError {
+    const fields = issues.map(issue => issue.path.join('.') || '(root)').join(', ');
+    return new FirestoreValidationError(`${message} (fields: ${fields})`, path, issues);
+  }
+}
+
+/**
+ * Expands dot-separated update keys into nested objects
+ *
+ * @param data - Update data (e.g., { 'address.city': 'Oslo' })
+ * @returns Nested data (e.g., { address: { city: 'Oslo' } })
+ */
+function expandFieldPaths(data: DocumentData): DocumentData {
+  const expanded: DocumentData = {};
+
+  Object.entries(data).forEach(([key, value]) => {
+    const segments = key.split('.');
+    let target = expanded;
+    segments.slice(0, -1).forEach(segment => {
+      if (typeof target[segment] !== 'object' || target[segment] === null) {
+        target[segment] = {};
+      }
+      target = target[segment];
+    });
+    target[segments[segments.length - 1]] = value;
+  });
+
+  return expanded;
+}
+
+/**
+ * Lists the dot-separated paths of the leaf values in nested data
+ *
+ * @param data - Data being merged
+ * @param prefix - Path of the object being walked
+ * @returns The leaf field paths (e.g., ['address.city'])
+ */
+function leafPaths(data: DocumentData, prefix = ''): string[] {
+  return Object.entries(data).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return isPlainObject(value) ? leafPaths(value, path) : [path];
+  });
+}
+
+/**
+ * Checks whether the value at a field path is a FieldValue sentinel
+ *
+ * @param data - The data being written
+ * @param path - Path to the field
+ * @returns Whether the field holds a sentinel such as serverTimestamp()
+ */
+function isSentinelAt(data: DocumentData, path: Array<string | number>): boolean {
+  let value: any = data;
+  for (const segment of path) {
+    if (value === null || typeof value !== 'object') {
+      return false;
+    }
+    value = value[segment];
+  }
+  return value instanceof FieldValue;
+}
@@ -0,0 +1,180 @@
+import { increment } from 'firebase/firestore';
+import { FirestoreError } from './firestore-error';
+import { FirestoreService } from './firestore-service';
+import { FirestoreTransaction } from './firestore-transaction';
+
+/** Subcollection holding a counter's shards */
+const SHARDS_COLLECTION = 'shards';
+
+/** Most shards a counter can have (a transaction can write at most 500 documents) */
+export const MAX_COUNTER_SHARDS = 499;
+
+/**
+ * Document stored at a counter's path
+ */
+interface CounterDocument {
+  shardCount: number;
+}
+
+/**
+ * Document stored for each shard of a counter
+ */
+interface CounterShard {
+  count: number;
+}
+
+/**
+ * Counter spread over several shard documents
+ *
+ * A single document can only sustain about one write per second, so hot
+ * counters (likes, views) are split into shards at '<path>/shards/<n>'.
+ * Increments go to a random shard and reads add up all shards. The document
+ * at the counter's path records the number of shards; every operation runs
+ * in a FirestoreService transaction, so re-sharding never loses increments.
+ */
+export class ShardedCounter {
+  /**
+   * Creates a new ShardedCounter instance
+   *
+   * @param service - The FirestoreService used to run transactions
+   */
+  constructor(private service: FirestoreService) {}
+
+  /**
+   * Creates a counter starting at zero
+   *
+   * @param path - Path to the counter document (e.g., 'posts/p1/counters/likes')
+   * @param shards - Number of shards; each sustains about one increment per second
+   * @returns Promise that resolves when the counter has been created
+   * @throws FirestoreError if the counter already exists or the shard count is invalid
+   */
+  async create(path: string, shards: number): Promise<void> {
+    assertShardCount(path, shards);
+
+    await this.service.runTransaction(async transaction => {
+      if (await transaction.documentExists(path)) {
+        throw new FirestoreError(`Counter already exists at path: ${path}`, path, 'already-exists');
+      }
+
+      transaction.setDocument<CounterDocument>(path, { shardCount: shards });
+      for (let i = 0; i < shards; i++) {
+        transaction.setDocument<CounterShard>(getShardPath(path, i), { count: 0 });
+      }
+    });
+  }
+
+  /**
+   * Adds to a counter by incrementing one random shard
+   *
+   * @param path - Path to the counter document
+   * @param delta - Amount to add; negative to subtract
+   * @returns Promise that resolves when the increment has been written
+   * @throws FirestoreError if the counter doesn't exist or delta isn't a finite number
+   */
+  async increment(path: string, delta: number): Promise<void> {
+    if (!Number.isFinite(delta)) {
+      throw new FirestoreError(
+        `Counter delta must be a finite number, got ${delta}`,
+        path,
+        'invalid-argument',
+      );
+    }
+
+    await this.service.runTransaction(async transaction => {
+      const { shardCount } = await transaction.getDocument<CounterDocument>(path);
+      const shard = Math.floor(Math.random() * shardCount);
+      transaction.updateDocument(getShardPath(path, shard), { count: increment(delta) });
+    });
+  }
+
+  /**
+   * Gets the value of a counter
+   *
+   * @param path - Path to the counter document
+   * @returns Promise resolving to the sum of all shards
+   * @throws FirestoreError if the counter doesn't exist
+   */
+  async get(path: string): Promise<number> {
+    return this.service.runTransaction(async transaction => {
+      const shards = await this.readShards(transaction, path);
+      return shards.reduce((total, shard) => total + shard.count, 0);
+    });
+  }
+
+  /**
+   * Changes the number of shards of a counter, keeping its value
+   *
+   * The total is moved to the first shard and the remaining shards restart at
+   * zero. Increments running at the same time are retried by their transactions.
+   *
+   * @param path - Path to the counter document
+   * @param shards - The new number of shards
+   * @returns Promise that resolves when the counter has been re-sharded
+   * @throws FirestoreError if the counter doesn't exist or the shard count is invalid
+   */
+  async reshard(path: string, shards: number): Promise<void> {
+    assertShardCount(path, shards);
+
+    await this.service.runTransaction(async transaction => {
+      const current = await this.readShards(transaction, path);
+      const total = current.reduce((sum, shard) => sum + shard.count, 0);
+
+      transaction.updateDocument(path, { shardCount: shards });
+      for (let i = 0; i < shards; i++) {
+        transaction.setDocument<CounterShard>(getShardPath(path, i), {
+          count: i === 0 ? total : 0,
+        });
+      }
+      for (let i = shards; i < current.length; i++) {
+        transaction.deleteDocument(getShardPath(path, i));
+      }
+    });
+  }
+
+  /**
+   * Reads all shards of a counter within a transaction
+   *
+   * @param transaction - The transaction
+   * @param path - Path to the counter document
+   * @returns Promise resolving to the shards, in shard order
+   */
+  private async readShards(
+    transaction: FirestoreTransaction,
+    path: string,
+  ): Promise<CounterShard[]> {
+    const { shardCount } = await transaction.getDocument<CounterDocument>(path);
+    return Promise.all(
+      Array.from({ length: shardCount }, (_, i) =>
+        transaction.getDocument<CounterShard>(getShardPath(path, i)),
+      ),
+    );
+  }
+}
+
+/**
+ * Builds the path of a counter shard
+ *
+ * @param path - Path to the counter document
+ * @param shard - Shard number
+ * @returns Path to the shard document
+ */
+function getShardPath(path: string, shard: number): string {
+  return `${path}/${SHARDS_COLLECTION}/${shard}`;
+}
+
+/**
+ * Checks that a shard count is a whole number within the supported range
+ *
+ * @param path - Path to the counter document, for the error
+ * @param shards - The shard count
+ * @throws FirestoreError if the shard count is invalid
+ */
+function assertShardCount(path: string, shards: number): void {
+  if (!Number.isInteger(shards) || shards < 1 || shards > MAX_COUNTER_SHARDS) {
+    throw new FirestoreError(
+      `Counter shard count must be a whole number from 1 to ${MAX_COUNTER_SHARDS}, got ${shards}`,
+      path,
+      'invalid-argument',
+    );
+  }
+}
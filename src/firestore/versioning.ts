@@ -0,0 +1,117 @@
+import { randomBytes } from 'crypto';
+import { DocumentData } from 'firebase/firestore';
+import { FirestoreError } from './firestore-error';
+import { RetryCallOptions } from './retry-policy';
+
+/** Characters used in version tokens */
+const TOKEN_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+/** Length of version tokens (the same as Firestore's auto-generated ids) */
+const TOKEN_LENGTH = 20;
+
+/**
+ * Configuration for document versioning
+ */
+export interface VersioningOptions {
+  /** Field holding the document's version token (default: '_version') */
+  field?: string;
+}
+
+/**
+ * Options for FirestoreService.updateDocument()
+ */
+export interface UpdateOptions extends RetryCallOptions {
+  /**
+   * Only apply the update if the document still has this version, as
+   * returned by getDocumentWithVersion(). Pass null for documents written
+   * before versioning was enabled. Requires the versioning option.
+   */
+  expectedVersion?: string | null;
+}
+
+/**
+ * A document read together with its version token
+ */
+export interface VersionedDocument<T> {
+  data: T;
+  /** Version token, or null if the document hasn't been written with versioning enabled */
+  version: string | null;
+}
+
+/**
+ * Error thrown when a versioned update finds that the document has changed
+ *
+ * Carries the document as it is now, so callers can show the conflicting
+ * changes or merge them and retry with currentVersion.
+ */
+export class FirestoreConflictError extends FirestoreError {
+  constructor(
+    message: string,
+    path: string,
+    public expectedVersion: string | null,
+    public currentVersion: string | null,
+    public currentData: unknown,
+  ) {
+    super(message, path, 'version-conflict');
+    this.name = 'FirestoreConflictError';
+
+    // Ensures proper prototype chain for instanceof checks
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, FirestoreConflictError);
+    }
+  }
+}
+
+/**
+ * Stamps and reads the version tokens used for optimistic concurrency control
+ *
+ * Every write made through the service stores a new random token, so any
+ * change to the document (including a full replacement) changes its version.
+ */
+export class DocumentVersioning {
+  private field?: string;
+
+  /**
+   * Creates a new DocumentVersioning instance
+   *
+   * @param options - Versioning options, true for the defaults, or undefined to disable versioning
+   */
+  constructor(options?: boolean | VersioningOptions) {
+    if (options) {
+      this.field = (options === true ? {} : options).field ?? '_version';
+    }
+  }
+
+  /**
+   * Adds a new version token to the data of a write
+   *
+   * @param data - The data being written
+   * @returns The data with a version token, or the original data if versioning is disabled
+   */
+  stamp(data: DocumentData): DocumentData {
+    return this.field ? { ...data, [this.field]: createVersionToken() } : data;
+  }
+
+  /**
+   * Gets the field holding version tokens
+   *
+   * @returns The field name
+   * @throws Error if versioning is disabled
+   */
+  getField(): string {
+    if (!this.field) {
+      throw new Error('Versioning is not enabled for this FirestoreService');
+    }
+    return this.field;
+  }
+}
+
+/**
+ * Creates a random version token
+ *
+ * @returns The token
+ */
+function createVersionToken(): string {
+  const bytes = randomBytes(TOKEN_LENGTH);
+  return Array.from(bytes, byte => TOKEN_ALPHABET[byte % TOKEN_ALPHABET.length]).join('');
+}
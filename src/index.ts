@@ -1,14 +1,188 @@
 // Main service classes
 export { FirebaseManager } from './core/firebase-manager';
 export { FirestoreService } from './firestore/firestore-service';
+export {
+  CollectionRepository,
+  RepositoryConverter,
+  RepositorySnapshot,
+} from './firestore/collection-repository';
+export { FirestoreTransaction, FirestoreBatch } from './firestore/firestore-transaction';
+export { BulkWriter } from './firestore/bulk-writer';
+export { ShardedCounter, MAX_COUNTER_SHARDS } from './firestore/sharded-counter';
+export { RetryPolicy, TRANSIENT_ERROR_CODES, isIdempotentWrite } from './firestore/retry-policy';
+export {
+  Outbox,
+  OutboxRelay,
+  DEFAULT_OUTBOX_COLLECTION,
+  EVENT_ID_ATTRIBUTE,
+} from './firestore/outbox';
+export { ModelManager } from './firestore/model-manager';
+export { QueryBuilder, toQueryConstraints } from './firestore/query-builder';
+export { DocumentTree } from './firestore/document-tree';
+export { MigrationRunner } from './firestore/migration-runner';
+export { DocumentCache } from './firestore/document-cache';
+export {
+  CollectionTransfer,
+  encodeFirestoreValue,
+  decodeFirestoreValue,
+} from './firestore/collection-transfer';
+export { PathTemplate, path } from './firestore/path-template';
+export { FieldEncryption, StaticKeyProvider } from './firestore/field-encryption';
+export {
+  FirestoreCollection,
+  FirestoreId,
+  FirestoreField,
+  FirestoreTimestamp,
+  getModelMetadata,
+} from './firestore/firestore-decorators';
 export { FunctionsService } from './functions/functions-service';
 export { PubSubService } from './pubsub/pubsub-service';
 
 // Types and interfaces from core/firebase-manager
-export { FirebaseManagerConfig } from './core/firebase-manager';
+export { FirebaseManagerConfig, EmulatorConfig } from './core/firebase-manager';
 
 // Types and interfaces from firestore/firestore-service
-export { FirestoreError, WithId } from './firestore/firestore-service';
+export {
+  FirestoreError,
+  WithId,
+  GroupDocument,
+  GetDocumentsOptions,
+  FirestoreServiceOptions,
+  DocumentChangeEvent,
+  QuerySnapshotResult,
+  DocumentListener,
+  QueryListener,
+  ListenerErrorHandler,
+} from './firestore/firestore-service';
+
+// Types and interfaces from firestore/schema-validation
+export {
+  FirestoreValidationError,
+  DocumentSchema,
+  SafeParseResult,
+  ValidationIssue,
+  SchemaOptions,
+  InvalidReadMode,
+} from './firestore/schema-validation';
+
+// Types and interfaces from firestore/firestore-decorators and firestore/model-manager
+export {
+  FirestoreFieldOptions,
+  FieldKind,
+  FieldMetadata,
+  ModelMetadata,
+} from './firestore/firestore-decorators';
+export { ModelClass } from './firestore/model-manager';
+
+// Types and interfaces from firestore/firestore-serializer
+export { FirestoreSerializer, SerializationOptions } from './firestore/firestore-serializer';
+
+// Types and interfaces from firestore/query-builder
+export {
+  FieldPath,
+  FieldPathValue,
+  ComparisonOperator,
+  OperatorFor,
+  FilterValue,
+  QueryFilter,
+  QueryInput,
+  QueryArgs,
+} from './firestore/query-builder';
+
+// Types and interfaces from firestore/aggregation
+export { Aggregation, AggregationSpec, AggregationResult } from './firestore/aggregation';
+
+// Types and interfaces from firestore/document-tree
+export {
+  SubcollectionTree,
+  RecursiveDeleteOptions,
+  RecursiveDeleteResult,
+  CopyTreeOptions,
+  CopyTreeResult,
+} from './firestore/document-tree';
+
+// Types and interfaces from firestore/migration-runner
+export {
+  Migration,
+  MigrationChange,
+  MigrationTransform,
+  MigrationRunnerOptions,
+  MigrationRunOptions,
+  MigrationRecord,
+  MigrationStatus,
+  MigrationReport,
+  MigrationRunResult,
+} from './firestore/migration-runner';
+
+// Types and interfaces from firestore/document-cache
+export { DocumentCacheOptions, CacheStats } from './firestore/document-cache';
+
+// Types and interfaces from firestore/audit-fields
+export { AuditOptions, SoftDeleteOptions, ReadOptions } from './firestore/audit-fields';
+
+// Types and interfaces from firestore/versioning
+export {
+  FirestoreConflictError,
+  UpdateOptions,
+  VersionedDocument,
+  VersioningOptions,
+} from './firestore/versioning';
+
+// Types and interfaces from firestore/collection-transfer
+export {
+  ExportFormat,
+  ExportOptions,
+  ExportResult,
+  ExportRecord,
+  ExportSink,
+  ImportConflictMode,
+  ImportOptions,
+  ImportResult,
+  ImportSource,
+} from './firestore/collection-transfer';
+
+// Types and interfaces from firestore/path-template
+export {
+  PathParamNames,
+  PathParams,
+  PathKind,
+  DocumentPath,
+  CollectionPath,
+  BuiltPath,
+} from './firestore/path-template';
+
+// Types and interfaces from firestore/field-encryption
+export {
+  EncryptionKeyProvider,
+  EncryptedFieldSpec,
+  EncryptionOptions,
+} from './firestore/field-encryption';
+
+// Types and interfaces from firestore/retry-policy
+export { RetryOptions, RetryCallOptions, RetryContext } from './firestore/retry-policy';
+
+// Types and interfaces from firestore/outbox
+export {
+  OutboxEvent,
+  OutboxStatus,
+  OutboxRecord,
+  OutboxRelayOptions,
+  OutboxRelayResult,
+} from './firestore/outbox';
+
+// Types and interfaces from firestore/firestore-backend
+export { FirestoreBackend, firebaseBackend } from './firestore/firestore-backend';
+
+// Types and interfaces from firestore/pagination
+export { Page, PageRequest } from './firestore/pagination';
+
+// Types and interfaces from firestore/bulk-writer
+export {
+  BulkWriteOperation,
+  BulkWriteOptions,
+  BulkWriteItemResult,
+  BulkWriteResult,
+} from './firestore/bulk-writer';
 
 // Types and interfaces from functions/functions-service
 export { FunctionCallOptions, FunctionsError } from './functions/functions-service';
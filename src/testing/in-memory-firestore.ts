@@ -0,0 +1,1203 @@
+import {
+  DocumentData,
+  DocumentReference,
+  Firestore,
+  FirestoreDataConverter,
+  SetOptions,
+} from 'firebase/firestore';
+import { FirestoreBackend } from '../firestore/firestore-backend';
+import { FirestoreService, FirestoreServiceOptions } from '../firestore/firestore-service';
+import {
+  applySentinel,
+  backendError,
+  cloneValue,
+  compareValues,
+  getField,
+  isMap,
+  removeField,
+  sameType,
+  setField,
+  toStoredValue,
+  valuesEqual,
+} from './in-memory-values';
+import {
+  ConstraintSpec,
+  FilterSpec,
+  assertSupportedSdk,
+  fieldSegments,
+  readAggregateField,
+  readConstraint,
+  readFieldValue,
+} from './sdk-internals';
+
+type Converter = FirestoreDataConverter<any> | null;
+
+type Write =
+  | { type: 'set'; path: string; data: DocumentData; options?: SetOptions }
+  | { type: 'update'; path: string; data: DocumentData }
+  | { type: 'delete'; path: string };
+
+interface StoredResult {
+  path: string;
+  data: DocumentData;
+}
+
+interface ResultChange {
+  type: 'added' | 'modified' | 'removed';
+  path: string;
+  oldIndex: number;
+  newIndex: number;
+  /** Last delivered data of a removed document */
+  previousData?: DocumentData;
+}
+
+interface Ordering {
+  segments: string[];
+  descending: boolean;
+}
+
+interface Listener {
+  target: MemoryDocumentReference | MemoryQuery;
+  onNext: (snapshot: any) => void;
+  onError?: (error: Error) => void;
+  /** Results delivered last time, for query listeners */
+  previous?: StoredResult[];
+}
+
+/** Field name Firestore uses for the document key in queries */
+const DOCUMENT_ID_FIELD = '__name__';
+
+/** Attempts made by a transaction before giving up on contention (the SDK default) */
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+/**
+ * Splits a path into its segments
+ *
+ * @param path - A document or collection path
+ * @returns The path segments
+ */
+function segmentsOf(path: string): string[] {
+  return path.split('/').filter(segment => segment.length > 0);
+}
+
+/**
+ * Gets the path of the collection containing a document
+ *
+ * @param path - Path to the document
+ * @returns The parent collection path
+ */
+function parentOf(path: string): string {
+  return segmentsOf(path).slice(0, -1).join('/');
+}
+
+/**
+ * Compares document paths segment by segment, as Firestore orders document keys
+ *
+ * @param a - First path
+ * @param b - Second path
+ * @returns A negative number, zero or a positive number
+ */
+function comparePaths(a: string, b: string): number {
+  const aSegments = segmentsOf(a);
+  const bSegments = segmentsOf(b);
+  for (let i = 0; i < Math.min(aSegments.length, bSegments.length); i++) {
+    const difference = compareValues(aSegments[i], bSegments[i]);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return aSegments.length - bSegments.length;
+}
+
+/**
+ * Reference to a document in the in-memory store
+ *
+ * Its prototype chain includes DocumentReference, so `instanceof
+ * DocumentReference` holds and stored references encode and sort like the
+ * SDK's.
+ */
+class MemoryDocumentReference {
+  readonly type = 'document';
+
+  constructor(
+    private readonly documentPath: string,
+    readonly converter: Converter = null,
+  ) {}
+
+  get path(): string {
+    return this.documentPath;
+  }
+
+  get id(): string {
+    const segments = segmentsOf(this.path);
+    return segments[segments.length - 1];
+  }
+
+  get parent(): MemoryCollectionReference {
+    return new MemoryCollectionReference(parentOf(this.path));
+  }
+
+  withConverter(converter: Converter): MemoryDocumentReference {
+    return new MemoryDocumentReference(this.path, converter);
+  }
+}
+
+Object.setPrototypeOf(MemoryDocumentReference.prototype, DocumentReference.prototype);
+
+/**
+ * Query over a collection or collection group in the in-memory store
+ */
+class MemoryQuery {
+  readonly type: 'query' | 'collection' = 'query';
+
+  constructor(
+    readonly source: { collectionPath?: string; collectionId?: string },
+    readonly constraints: ConstraintSpec[] = [],
+    readonly converter: Converter = null,
+  ) {}
+
+  withConverter(converter: Converter): MemoryQuery {
+    return new MemoryQuery(this.source, this.constraints, converter);
+  }
+}
+
+/**
+ * Reference to a collection in the in-memory store
+ */
+class MemoryCollectionReference extends MemoryQuery {
+  readonly type = 'collection';
+
+  constructor(
+    readonly path: string,
+    converter: Converter = null,
+  ) {
+    super({ collectionPath: path }, [], converter);
+  }
+
+  get id(): string {
+    const segments = segmentsOf(this.path);
+    return segments[segments.length - 1];
+  }
+
+  withConverter(converter: Converter): MemoryCollectionReference {
+    return new MemoryCollectionReference(this.path, converter);
+  }
+}
+
+/**
+ * Snapshot of a document in the in-memory store
+ */
+class MemoryDocumentSnapshot {
+  readonly metadata = { hasPendingWrites: false, fromCache: false };
+
+  constructor(
+    readonly ref: MemoryDocumentReference,
+    private stored: DocumentData | undefined,
+  ) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): any {
+    if (this.stored === undefined) {
+      return undefined;
+    }
+    if (this.ref.converter) {
+      const raw = new MemoryDocumentSnapshot(this.ref.withConverter(null), this.stored);
+      return this.ref.converter.fromFirestore(raw as any, {});
+    }
+    return cloneValue(this.stored);
+  }
+
+  get(field: unknown): unknown {
+    return this.stored === undefined
+      ? undefined
+      : cloneValue(getField(this.stored, fieldSegments(field)));
+  }
+
+  /** Stored data without conversion, used for query cursors */
+  rawData(): DocumentData | undefined {
+    return this.stored;
+  }
+}
+
+/**
+ * Snapshot of query results in the in-memory store
+ */
+class MemoryQuerySnapshot {
+  readonly metadata = { hasPendingWrites: false, fromCache: false };
+
+  constructor(
+    readonly query: MemoryQuery,
+    readonly docs: MemoryDocumentSnapshot[],
+    private changes: Array<{
+      type: string;
+      doc: MemoryDocumentSnapshot;
+      oldIndex: number;
+      newIndex: number;
+    }>,
+  ) {}
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  forEach(callback: (doc: MemoryDocumentSnapshot) => void): void {
+    this.docs.forEach(callback);
+  }
+
+  docChanges(): Array<{
+    type: string;
+    doc: MemoryDocumentSnapshot;
+    oldIndex: number;
+    newIndex: number;
+  }> {
+    return this.changes;
+  }
+}
+
+/**
+ * In-memory Firestore for unit tests
+ *
+ * Provides a FirestoreBackend that FirestoreService can run against without
+ * jest mocks or an emulator. Documents, subcollections, set/merge/update/
+ * delete (including FieldValue sentinels), where/orderBy/limit/cursor
+ * constraints, collection groups, batches, transactions, aggregations and
+ * snapshot listeners are supported. Listeners receive their first snapshot
+ * asynchronously and later snapshots as soon as a write is applied.
+ *
+ * Security rules, indexes, offline behavior and query validation (such as
+ * limits on disjunctions) are not emulated.
+ *
+ * @example
+ * const db = new InMemoryFirestore({ 'users/u1': { name: 'Ann' } });
+ * const service = db.createService();
+ * await service.getDocument('users/u1'); // { name: 'Ann' }
+ */
+export class InMemoryFirestore {
+  /** Token to pass as the Firestore instance; it only identifies this store */
+  readonly firestore: Firestore;
+  /** Backend to pass in FirestoreServiceOptions */
+  readonly backend: FirestoreBackend;
+
+  private documents = new Map<string, DocumentData>();
+  private versions = new Map<string, number>();
+  private clock = 0;
+  private listeners = new Set<Listener>();
+
+  /**
+   * Creates a new InMemoryFirestore instance
+   *
+   * @param documents - Optional initial documents keyed by path
+   */
+  constructor(documents: Record<string, DocumentData> = {}) {
+    assertSupportedSdk();
+    this.firestore = { type: 'firestore', app: { name: 'in-memory' } } as unknown as Firestore;
+    this.backend = this.createBackend();
+    this.seed(documents);
+  }
+
+  /**
+   * Creates a FirestoreService that runs against this store
+   *
+   * @param options - Optional service configuration (the backend is set automatically)
+   * @returns The service
+   */
+  createService(options: FirestoreServiceOptions = {}): FirestoreService {
+    return new FirestoreService(this.firestore, { ...options, backend: this.backend });
+  }
+
+  /**
+   * Writes documents directly, replacing any existing data at their paths
+   *
+   * @param documents - Documents keyed by path (e.g., { 'users/u1': { name: 'Ann' } })
+   */
+  seed(documents: Record<string, DocumentData>): void {
+    const writes: Write[] = Object.entries(documents).map(([path, data]) => {
+      this.assertDocumentPath(path);
+      return { type: 'set', path, data };
+    });
+    this.commit(writes);
+  }
+
+  /**
+   * Gets the stored data of a document
+   *
+   * @param path - Path to the document
+   * @returns A copy of the stored data, or undefined if the document doesn't exist
+   */
+  getDocumentData(path: string): DocumentData | undefined {
+    const data = this.documents.get(segmentsOf(path).join('/'));
+    return data === undefined ? undefined : cloneValue(data);
+  }
+
+  /**
+   * Lists the paths of stored documents
+   *
+   * @param prefix - Optional path prefix (e.g., 'users/u1/')
+   * @returns The document paths, in key order
+   */
+  listDocumentPaths(prefix = ''): string[] {
+    return [...this.documents.keys()].filter(path => path.startsWith(prefix)).sort(comparePaths);
+  }
+
+  /**
+   * Gets the number of active snapshot listeners
+   *
+   * @returns The number of listeners
+   */
+  getListenerCount(): number {
+    return this.listeners.size;
+  }
+
+  /**
+   * Removes every document and listener
+   */
+  reset(): void {
+    this.documents.clear();
+    this.versions.clear();
+    this.listeners.clear();
+  }
+
+  /**
+   * Builds the FirestoreBackend functions bound to this store
+   *
+   * @returns The backend
+   */
+  private createBackend(): FirestoreBackend {
+    const backend = {
+      doc: (_firestore: Firestore, path: string) => {
+        this.assertDocumentPath(path);
+        return new MemoryDocumentReference(segmentsOf(path).join('/'));
+      },
+      collection: (_firestore: Firestore, path: string) => {
+        if (segmentsOf(path).length % 2 !== 1) {
+          throw backendError(
+            'invalid-argument',
+            `Invalid collection reference. Collection references must have an odd number of segments, but ${path} has ${segmentsOf(path).length}.`,
+          );
+        }
+        return new MemoryCollectionReference(segmentsOf(path).join('/'));
+      },
+      collectionGroup: (_firestore: Firestore, collectionId: string) =>
+        new MemoryQuery({ collectionId }),
+      query: (base: MemoryQuery, ...constraints: unknown[]) =>
+        new MemoryQuery(
+          base.source,
+          [...base.constraints, ...constraints.map(readConstraint)],
+          base.converter,
+        ),
+      getDoc: async (ref: MemoryDocumentReference) => this.snapshotOf(ref),
+      getDocs: async (q: MemoryQuery) => this.querySnapshotOf(q, this.runQuery(q)),
+      setDoc: async (ref: MemoryDocumentReference, data: any, options?: SetOptions) => {
+        this.commit([this.toSetWrite(ref, data, options)]);
+      },
+      updateDoc: async (ref: MemoryDocumentReference, data: DocumentData) => {
+        this.commit([{ type: 'update', path: ref.path, data }]);
+      },
+      deleteDoc: async (ref: MemoryDocumentReference) => {
+        this.commit([{ type: 'delete', path: ref.path }]);
+      },
+      onSnapshot: (
+        target: MemoryDocumentReference | MemoryQuery,
+        onNext: (snapshot: any) => void,
+        onError?: (error: Error) => void,
+      ) => this.addListener({ target, onNext, onError }),
+      runTransaction: (
+        _firestore: Firestore,
+        updateFunction: (transaction: any) => Promise<unknown>,
+        options?: { maxAttempts?: number },
+      ) => this.runTransaction(updateFunction, options?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS),
+      writeBatch: () => this.createBatch(),
+      getAggregateFromServer: async (q: MemoryQuery, spec: Record<string, any>) => {
+        const results = this.runQuery(q);
+        const data: Record<string, number | null> = {};
+        Object.entries(spec).forEach(([alias, field]) => {
+          data[alias] = this.aggregate(results, field);
+        });
+        return { data: () => data };
+      },
+    };
+
+    // The in-memory references and snapshots mimic the SDK classes structurally
+    return backend as unknown as FirestoreBackend;
+  }
+
+  /**
+   * Creates a write batch that applies its writes atomically on commit
+   *
+   * @returns The batch
+   */
+  private createBatch(): any {
+    const writes: Write[] = [];
+    let committed = false;
+
+    const batch = {
+      set: (ref: MemoryDocumentReference, data: any, options?: SetOptions) => {
+        writes.push(this.toSetWrite(ref, data, options));
+        return batch;
+      },
+      update: (ref: MemoryDocumentReference, data: DocumentData) => {
+        writes.push({ type: 'update', path: ref.path, data });
+        return batch;
+      },
+      delete: (ref: MemoryDocumentReference) => {
+        writes.push({ type: 'delete', path: ref.path });
+        return batch;
+      },
+      commit: async () => {
+        if (committed) {
+          throw backendError(
+            'failed-precondition',
+            'A write batch can no longer be used after commit() has been called.',
+          );
+        }
+        committed = true;
+        this.commit(writes);
+      },
+    };
+    return batch;
+  }
+
+  /**
+   * Runs a transaction, retrying when a document it read changes before it commits
+   *
+   * @param updateFunction - The transaction body
+   * @param maxAttempts - Maximum number of attempts
+   * @returns Promise resolving to the value returned by the last attempt
+   */
+  private async runTransaction(
+    updateFunction: (transaction: any) => Promise<unknown>,
+    maxAttempts: number,
+  ): Promise<unknown> {
+    for (let attempt = 1; ; attempt++) {
+      const reads = new Map<string, number>();
+      const writes: Write[] = [];
+
+      const transaction = {
+        get: async (ref: MemoryDocumentReference) => {
+          if (writes.length > 0) {
+            throw backendError(
+              'invalid-argument',
+              'Firestore transactions require all reads to be executed before all writes.',
+            );
+          }
+          reads.set(ref.path, this.versions.get(ref.path) ?? 0);
+          return this.snapshotOf(ref);
+        },
+        set: (ref: MemoryDocumentReference, data: any, options?: SetOptions) => {
+          writes.push(this.toSetWrite(ref, data, options));
+          return transaction;
+        },
+        update: (ref: MemoryDocumentReference, data: DocumentData) => {
+          writes.push({ type: 'update', path: ref.path, data });
+          return transaction;
+        },
+        delete: (ref: MemoryDocumentReference) => {
+          writes.push({ type: 'delete', path: ref.path });
+          return transaction;
+        },
+      };
+
+      const result = await updateFunction(transaction);
+      const contended = [...reads].some(
+        ([path, version]) => (this.versions.get(path) ?? 0) !== version,
+      );
+
+      if (!contended) {
+        this.commit(writes);
+        return result;
+      }
+      if (attempt >= maxAttempts) {
+        throw backendError(
+          'aborted',
+          `Transaction failed after ${attempt} attempts due to contention`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Builds a set write, applying the reference's converter
+   *
+   * @param ref - Reference to the document
+   * @param data - Data passed to set
+   * @param options - Optional SetOptions
+   * @returns The write
+   */
+  private toSetWrite(ref: MemoryDocumentReference, data: any, options?: SetOptions): Write {
+    const converted = ref.converter
+      ? options
+        ? ref.converter.toFirestore(data, options)
+        : ref.converter.toFirestore(data)
+      : data;
+    return { type: 'set', path: ref.path, data: converted, options };
+  }
+
+  /**
+   * Applies writes atomically and notifies listeners
+   *
+   * @param writes - Writes in the order they must be applied
+   * @throws BackendError if any write is invalid; nothing is applied in that case
+   */
+  private commit(writes: Write[]): void {
+    const staged = new Map<string, DocumentData | undefined>();
+    const current = (path: string) =>
+      staged.has(path) ? staged.get(path) : this.documents.get(path);
+
+    writes.forEach(write => {
+      staged.set(write.path, this.applyWrite(write, current(write.path)));
+    });
+
+    staged.forEach((data, path) => {
+      if (data === undefined) {
+        this.documents.delete(path);
+      } else {
+        this.documents.set(path, data);
+      }
+      this.versions.set(path, ++this.clock);
+    });
+
+    if (staged.size > 0) {
+      this.notifyListeners(new Set(staged.keys()));
+    }
+  }
+
+  /**
+   * Computes a document's data after a write
+   *
+   * @param write - The write
+   * @param existing - The document's current data, if it exists
+   * @returns The new data, or undefined if the document is deleted
+   * @throws BackendError if the write is invalid
+   */
+  private applyWrite(write: Write, existing: DocumentData | undefined): DocumentData | undefined {
+    if (write.type === 'delete') {
+      return undefined;
+    }
+
+    if (write.type === 'update') {
+      if (existing === undefined) {
+        throw backendError('not-found', `No document to update: ${write.path}`);
+      }
+      const updated = cloneValue(existing);
+      Object.entries(write.data).forEach(([key, value]) => {
+        this.applyField(updated, key.split('.'), value, true);
+      });
+      return updated;
+    }
+
+    const options = write.options as { merge?: boolean; mergeFields?: unknown[] } | undefined;
+
+    if (options?.mergeFields) {
+      const merged = cloneValue(existing ?? {});
+      options.mergeFields.forEach(field => {
+        const segments = fieldSegments(field);
+        const value = getField(write.data, segments);
+        if (value === undefined) {
+          throw backendError(
+            'invalid-argument',
+            `Field ${segments.join('.')} is specified in your field mask but missing from your input data.`,
+          );
+        }
+        this.applyField(merged, segments, value, true);
+      });
+      return merged;
+    }
+
+    if (options?.merge) {
+      const merged = cloneValue(existing ?? {});
+      this.mergeInto(merged, write.data, []);
+      return merged;
+    }
+
+    const replaced: DocumentData = {};
+    Object.entries(write.data).forEach(([key, value]) => {
+      this.applyField(replaced, [key], value, false);
+    });
+    return replaced;
+  }
+
+  /**
+   * Merges data into a document field by field
+   *
+   * @param target - Document data to modify
+   * @param data - Data being merged
+   * @param prefix - Path of the map being merged
+   */
+  private mergeInto(target: DocumentData, data: DocumentData, prefix: string[]): void {
+    Object.entries(data).forEach(([key, value]) => {
+      const segments = [...prefix, key];
+      if (isMap(value) && !readFieldValue(value)) {
+        if (!isMap(getField(target, segments))) {
+          setField(target, segments, {});
+        }
+        this.mergeInto(target, value, segments);
+      } else {
+        this.applyField(target, segments, value, true);
+      }
+    });
+  }
+
+  /**
+   * Writes a value (or applies a sentinel) at a field path
+   *
+   * @param target - Document data to modify
+   * @param segments - Path to the field
+   * @param value - The value or sentinel
+   * @param allowDelete - Whether deleteField() is allowed (merges and updates only)
+   */
+  private applyField(
+    target: DocumentData,
+    segments: string[],
+    value: unknown,
+    allowDelete: boolean,
+  ): void {
+    if (readFieldValue(value)?.method === 'deleteField') {
+      if (!allowDelete) {
+        throw backendError(
+          'invalid-argument',
+          `deleteField() can only be used with update() and set() with {merge:true} (found in field ${segments.join('.')})`,
+        );
+      }
+      removeField(target, segments);
+      return;
+    }
+    setField(target, segments, this.resolveValue(value, getField(target, segments), segments));
+  }
+
+  /**
+   * Converts a written value to its stored form, applying nested sentinels
+   *
+   * @param value - The written value
+   * @param current - The field's current value
+   * @param segments - Path to the field
+   * @returns The value to store
+   */
+  private resolveValue(value: unknown, current: unknown, segments: string[]): unknown {
+    const sentinel = readFieldValue(value);
+    if (sentinel) {
+      if (sentinel.method === 'deleteField') {
+        throw backendError(
+          'invalid-argument',
+          `deleteField() cannot be used inside a nested value (found in field ${segments.join('.')})`,
+        );
+      }
+      return applySentinel(sentinel, current);
+    }
+    if (isMap(value)) {
+      const resolved: DocumentData = {};
+      Object.entries(value).forEach(([key, item]) => {
+        const nested = isMap(current) ? current[key] : undefined;
+        resolved[key] = this.resolveValue(item, nested, [...segments, key]);
+      });
+      return resolved;
+    }
+    return toStoredValue(value, segments.join('.'));
+  }
+
+  /**
+   * Evaluates a query against the stored documents
+   *
+   * @param q - The query
+   * @returns The matching documents, in query order
+   */
+  private runQuery(q: MemoryQuery): StoredResult[] {
+    const { collectionPath, collectionId } = q.source;
+    const filters = q.constraints.filter(
+      (c): c is FilterSpec => c.type === 'where' || c.type === 'and' || c.type === 'or',
+    );
+    let results: StoredResult[] = [];
+
+    this.documents.forEach((data, path) => {
+      const segments = segmentsOf(path);
+      const inSource = collectionPath
+        ? parentOf(path) === collectionPath
+        : segments[segments.length - 2] === collectionId;
+      if (inSource && filters.every(filter => this.matchesFilter(filter, path, data))) {
+        results.push({ path, data });
+      }
+    });
+
+    const orderings = this.getOrderings(q.constraints, filters);
+    // Documents without a value for an ordered field are left out, as in Firestore
+    results = results.filter(result =>
+      orderings.every(
+        o => o.segments[0] === DOCUMENT_ID_FIELD || getField(result.data, o.segments) !== undefined,
+      ),
+    );
+    results.sort((a, b) => this.compareResults(a, b, orderings));
+
+    q.constraints.forEach(constraint => {
+      if (
+        constraint.type === 'startAt' ||
+        constraint.type === 'startAfter' ||
+        constraint.type === 'endAt' ||
+        constraint.type === 'endBefore'
+      ) {
+        const position = this.cursorPosition(constraint.values, orderings, collectionPath);
+        results = results.filter(result => {
+          const comparison = this.compareToCursor(result, position, orderings);
+          switch (constraint.type) {
+            case 'startAt':
+              return comparison >= 0;
+            case 'startAfter':
+              return comparison > 0;
+            case 'endAt':
+              return comparison <= 0;
+            default:
+              return comparison < 0;
+          }
+        });
+      }
+    });
+
+    q.constraints.forEach(constraint => {
+      if (constraint.type === 'limit') {
+        results = results.slice(0, constraint.count);
+      } else if (constraint.type === 'limitToLast') {
+        results = results.slice(Math.max(0, results.length - constraint.count));
+      }
+    });
+
+    return results;
+  }
+
+  /**
+   * Works out the sort order of a query
+   *
+   * Without an explicit orderBy, results are ordered by the first inequality
+   * filter's field; the document key always breaks ties.
+   *
+   * @param constraints - The query constraints
+   * @param filters - The query's filter constraints
+   * @returns The orderings, ending with the document key
+   */
+  private getOrderings(constraints: ConstraintSpec[], filters: FilterSpec[]): Ordering[] {
+    const orderings: Ordering[] = [];
+    constraints.forEach(c => {
+      if (c.type === 'orderBy') {
+        orderings.push({ segments: c.field, descending: c.descending });
+      }
+    });
+
+    if (orderings.length === 0) {
+      const inequality = filters.find(
+        c => c.type === 'where' && ['<', '<=', '>', '>=', '!=', 'not-in'].includes(c.op),
+      );
+      if (inequality?.type === 'where') {
+        orderings.push({ segments: inequality.field, descending: false });
+      }
+    }
+
+    if (!orderings.some(o => o.segments[0] === DOCUMENT_ID_FIELD)) {
+      const last = orderings[orderings.length - 1];
+      orderings.push({ segments: [DOCUMENT_ID_FIELD], descending: last?.descending ?? false });
+    }
+    return orderings;
+  }
+
+  /**
+   * Compares two results under the query's orderings
+   *
+   * @param a - First result
+   * @param b - Second result
+   * @param orderings - The query's orderings
+   * @returns A negative number, zero or a positive number
+   */
+  private compareResults(a: StoredResult, b: StoredResult, orderings: Ordering[]): number {
+    for (const ordering of orderings) {
+      const difference =
+        ordering.segments[0] === DOCUMENT_ID_FIELD
+          ? comparePaths(a.path, b.path)
+          : compareValues(getField(a.data, ordering.segments), getField(b.data, ordering.segments));
+      if (difference !== 0) {
+        return ordering.descending ? -difference : difference;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Turns cursor arguments into values for the query's orderings
+   *
+   * @param docOrFields - A document snapshot, or field values in orderBy order
+   * @param orderings - The query's orderings
+   * @param collectionPath - Collection being queried, for resolving document ids
+   * @returns The cursor values
+   */
+  private cursorPosition(
+    docOrFields: unknown[],
+    orderings: Ordering[],
+    collectionPath: string | undefined,
+  ): unknown[] {
+    const [first] = docOrFields;
+    if (first instanceof MemoryDocumentSnapshot) {
+      const data = first.rawData() ?? {};
+      return orderings.map(o =>
+        o.segments[0] === DOCUMENT_ID_FIELD ? first.ref.path : getField(data, o.segments),
+      );
+    }
+    return docOrFields.map((value, index) => {
+      if (orderings[index]?.segments[0] === DOCUMENT_ID_FIELD) {
+        return this.toDocumentPath(value, collectionPath);
+      }
+      return toStoredValue(value, 'cursor');
+    });
+  }
+
+  /**
+   * Compares a result with a cursor position
+   *
+   * @param result - The result
+   * @param position - Cursor values, possibly fewer than the orderings
+   * @param orderings - The query's orderings
+   * @returns A negative number if the result sorts before the cursor, zero if equal, positive if after
+   */
+  private compareToCursor(
+    result: StoredResult,
+    position: unknown[],
+    orderings: Ordering[],
+  ): number {
+    for (let i = 0; i < position.length && i < orderings.length; i++) {
+      const ordering = orderings[i];
+      const difference =
+        ordering.segments[0] === DOCUMENT_ID_FIELD
+          ? comparePaths(result.path, position[i] as string)
+          : compareValues(getField(result.data, ordering.segments), position[i]);
+      if (difference !== 0) {
+        return ordering.descending ? -difference : difference;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Checks whether a document matches a filter constraint
+   *
+   * @param filter - Contents of a where(), and() or or() constraint
+   * @param path - Path to the document
+   * @param data - The document data
+   * @returns Whether the document matches
+   */
+  private matchesFilter(filter: FilterSpec, path: string, data: DocumentData): boolean {
+    if (filter.type !== 'where') {
+      const matches = (c: FilterSpec) => this.matchesFilter(c, path, data);
+      return filter.type === 'and' ? filter.filters.every(matches) : filter.filters.some(matches);
+    }
+
+    const { field: segments, op } = filter;
+    const isKey = segments[0] === DOCUMENT_ID_FIELD;
+    const collectionPath = parentOf(path);
+    const normalize = (value: unknown) =>
+      isKey ? this.toDocumentPath(value, collectionPath) : toStoredValue(value, segments.join('.'));
+    const equal = (a: unknown, b: unknown) => (isKey ? a === b : valuesEqual(a, b));
+
+    const actual = isKey ? path : getField(data, segments);
+    if (actual === undefined) {
+      return false;
+    }
+
+    switch (op) {
+      case '==':
+        return equal(actual, normalize(filter.value));
+      case '!=':
+        return !equal(actual, normalize(filter.value));
+      case 'in':
+        return (filter.value as unknown[]).some(value => equal(actual, normalize(value)));
+      case 'not-in':
+        return !(filter.value as unknown[]).some(value => equal(actual, normalize(value)));
+      case 'array-contains':
+        return (
+          Array.isArray(actual) && actual.some(item => valuesEqual(item, normalize(filter.value)))
+        );
+      case 'array-contains-any':
+        return (
+          Array.isArray(actual) &&
+          (filter.value as unknown[]).some(value =>
+            actual.some(item => valuesEqual(item, normalize(value))),
+          )
+        );
+      default: {
+        const expected = normalize(filter.value);
+        if (!isKey && !sameType(actual, expected)) {
+          return false;
+        }
+        const difference = isKey
+          ? comparePaths(actual as string, expected as string)
+          : compareValues(actual, expected);
+        return (
+          (op === '<' && difference < 0) ||
+          (op === '<=' && difference <= 0) ||
+          (op === '>' && difference > 0) ||
+          (op === '>=' && difference >= 0)
+        );
+      }
+    }
+  }
+
+  /**
+   * Resolves a document id, path or reference used in a key filter or cursor to a full path
+   *
+   * @param value - Document id, path or reference
+   * @param collectionPath - Collection the query runs over
+   * @returns The full document path
+   */
+  private toDocumentPath(value: unknown, collectionPath: string | undefined): string {
+    if (typeof value === 'object' && value !== null && 'path' in value) {
+      return String((value as { path: string }).path);
+    }
+    const id = String(value);
+    return id.includes('/') || !collectionPath ? id : `${collectionPath}/${id}`;
+  }
+
+  /**
+   * Computes one aggregation over query results
+   *
+   * @param results - The query results
+   * @param field - An AggregateField from count(), sum() or average()
+   * @returns The aggregated value
+   */
+  private aggregate(results: StoredResult[], field: unknown): number | null {
+    const { type, field: segments } = readAggregateField(field);
+    if (type === 'count') {
+      return results.length;
+    }
+
+    const values = results
+      .map(result => getField(result.data, segments))
+      .filter((value): value is number => typeof value === 'number');
+    const total = values.reduce((sum, value) => sum + value, 0);
+
+    if (type === 'sum') {
+      return total;
+    }
+    return values.length > 0 ? total / values.length : null;
+  }
+
+  /**
+   * Registers a snapshot listener and schedules its first snapshot
+   *
+   * @param listener - The listener
+   * @returns Function that removes the listener
+   */
+  private addListener(listener: Listener): () => void {
+    this.listeners.add(listener);
+    queueMicrotask(() => {
+      if (this.listeners.has(listener)) {
+        this.deliver(listener, null);
+      }
+    });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Sends new snapshots to the listeners affected by a commit
+   *
+   * @param changedPaths - Paths of the documents that were written
+   */
+  private notifyListeners(changedPaths: Set<string>): void {
+    [...this.listeners].forEach(listener => {
+      // Listeners still waiting for their first snapshot will see the new data anyway
+      if (listener.target instanceof MemoryDocumentReference) {
+        if (changedPaths.has(listener.target.path) && listener.previous) {
+          this.deliver(listener, changedPaths);
+        }
+      } else if (listener.previous) {
+        this.deliver(listener, changedPaths);
+      }
+    });
+  }
+
+  /**
+   * Delivers a snapshot to a listener
+   *
+   * Query listeners are only called when their results changed.
+   *
+   * @param listener - The listener
+   * @param changedPaths - Paths written by the triggering commit, or null for the first snapshot
+   */
+  private deliver(listener: Listener, changedPaths: Set<string> | null): void {
+    let snapshot: MemoryDocumentSnapshot | MemoryQuerySnapshot;
+
+    try {
+      if (listener.target instanceof MemoryDocumentReference) {
+        snapshot = this.snapshotOf(listener.target);
+        listener.previous = [];
+      } else {
+        const results = this.runQuery(listener.target);
+        const changes = this.diffResults(listener.previous ?? [], results, changedPaths);
+        if (listener.previous && changes.length === 0) {
+          return;
+        }
+        listener.previous = results;
+        snapshot = this.querySnapshotOf(listener.target, results, changes);
+      }
+    } catch (error: any) {
+      this.listeners.delete(listener);
+      if (listener.onError) {
+        listener.onError(error);
+      }
+      return;
+    }
+
+    try {
+      listener.onNext(snapshot);
+    } catch (error) {
+      // Like the SDK, a throwing listener doesn't affect the write that triggered it
+      console.error('Error in in-memory snapshot listener:', error);
+    }
+  }
+
+  /**
+   * Works out the document changes between two sets of query results
+   *
+   * Changes are listed and indexed the way the SDK reports them: removals,
+   * then additions, then modifications, each index taken after applying the
+   * changes before it.
+   *
+   * @param previous - Results delivered last time
+   * @param results - Current results
+   * @param changedPaths - Paths written by the triggering commit, or null for the first snapshot
+   * @returns Changes in the format of docChanges()
+   */
+  private diffResults(
+    previous: StoredResult[],
+    results: StoredResult[],
+    changedPaths: Set<string> | null,
+  ): ResultChange[] {
+    const previousData = new Map(previous.map(result => [result.path, result.data]));
+    const newIndexes = new Map(results.map((result, index) => [result.path, index]));
+    const tracked = previous.map(result => result.path);
+    const changes: ResultChange[] = [];
+
+    const insert = (path: string) => {
+      const rank = newIndexes.get(path) ?? 0;
+      const index = tracked.filter(other => (newIndexes.get(other) ?? 0) < rank).length;
+      tracked.splice(index, 0, path);
+      return index;
+    };
+
+    previous.forEach(result => {
+      if (!newIndexes.has(result.path)) {
+        const oldIndex = tracked.indexOf(result.path);
+        tracked.splice(oldIndex, 1);
+        changes.push({
+          type: 'removed',
+          path: result.path,
+          oldIndex,
+          newIndex: -1,
+          previousData: result.data,
+        });
+      }
+    });
+    results.forEach(result => {
+      if (!previousData.has(result.path)) {
+        changes.push({
+          type: 'added',
+          path: result.path,
+          oldIndex: -1,
+          newIndex: insert(result.path),
+        });
+      }
+    });
+    results.forEach(result => {
+      const data = previousData.get(result.path);
+      if (data !== undefined && changedPaths?.has(result.path) && !valuesEqual(data, result.data)) {
+        const oldIndex = tracked.indexOf(result.path);
+        tracked.splice(oldIndex, 1);
+        changes.push({
+          type: 'modified',
+          path: result.path,
+          oldIndex,
+          newIndex: insert(result.path),
+        });
+      }
+    });
+
+    return changes;
+  }
+
+  /**
+   * Builds a document snapshot from the store
+   *
+   * @param ref - Reference to the document
+   * @returns The snapshot
+   */
+  private snapshotOf(ref: MemoryDocumentReference): MemoryDocumentSnapshot {
+    return new MemoryDocumentSnapshot(ref, this.documents.get(ref.path));
+  }
+
+  /**
+   * Builds a query snapshot from query results
+   *
+   * @param q - The query
+   * @param results - The query results
+   * @param changes - Document changes; defaults to every result being added
+   * @returns The snapshot
+   */
+  private querySnapshotOf(
+    q: MemoryQuery,
+    results: StoredResult[],
+    changes?: ResultChange[],
+  ): MemoryQuerySnapshot {
+    const snapshots = new Map(
+      results.map(result => [
+        result.path,
+        new MemoryDocumentSnapshot(
+          new MemoryDocumentReference(result.path, q.converter),
+          result.data,
+        ),
+      ]),
+    );
+    const docChanges = (
+      changes ??
+      results.map((result, index): ResultChange => ({
+        type: 'added',
+        path: result.path,
+        oldIndex: -1,
+        newIndex: index,
+      }))
+    ).map(change => ({
+      type: change.type,
+      // Like the SDK, a removed document is reported with the data it had last
+      doc:
+        snapshots.get(change.path) ??
+        new MemoryDocumentSnapshot(
+          new MemoryDocumentReference(change.path, q.converter),
+          change.previousData,
+        ),
+      oldIndex: change.oldIndex,
+      newIndex: change.newIndex,
+    }));
+
+    return new MemoryQuerySnapshot(q, [...snapshots.values()], docChanges);
+  }
+
+  /**
+   * Checks that a path points to a document
+   *
+   * @param path - The path to check
+   * @throws BackendError if the path has an odd number of segments
+   */
+  private assertDocumentPath(path: string): void {
+    const length = segmentsOf(path).length;
+    if (length === 0 || length % 2 !== 0) {
+      throw backendError(
+        'invalid-argument',
+        `Invalid document reference. Document references must have an even number of segments, but ${path} has ${length}.`,
+      );
+    }
+  }
+}
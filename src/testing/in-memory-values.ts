@@ -0,0 +1,278 @@
+import { Bytes, DocumentData, DocumentReference, GeoPoint, Timestamp } from 'firebase/firestore';
+import { FieldValueSpec } from './sdk-internals';
+
+/**
+ * Error with a Firestore error code, shaped like the errors the Firebase SDK throws
+ */
+export interface BackendError extends Error {
+  code: string;
+}
+
+/**
+ * Creates an error with a Firestore error code
+ *
+ * @param code - Firestore error code (e.g., 'not-found')
+ * @param message - Error message
+ * @returns The error
+ */
+export function backendError(code: string, message: string): BackendError {
+  const error = new Error(message) as BackendError;
+  error.name = 'FirebaseError';
+  error.code = code;
+  return error;
+}
+
+/**
+ * Reads the value at a field path
+ *
+ * @param data - Document data
+ * @param segments - Path to the field
+ * @returns The value, or undefined if the field doesn't exist
+ */
+export function getField(data: DocumentData, segments: string[]): unknown {
+  let value: unknown = data;
+  for (const segment of segments) {
+    if (!isMap(value) || !(segment in value)) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Writes a value at a field path, creating intermediate maps as needed
+ *
+ * @param data - Document data to modify
+ * @param segments - Path to the field
+ * @param value - The value to write
+ */
+export function setField(data: DocumentData, segments: string[], value: unknown): void {
+  let target = data;
+  segments.slice(0, -1).forEach(segment => {
+    if (!isMap(target[segment])) {
+      target[segment] = {};
+    }
+    target = target[segment];
+  });
+  target[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Removes the field at a field path
+ *
+ * @param data - Document data to modify
+ * @param segments - Path to the field
+ */
+export function removeField(data: DocumentData, segments: string[]): void {
+  const parent = getField(data, segments.slice(0, -1));
+  if (isMap(parent)) {
+    delete parent[segments[segments.length - 1]];
+  }
+}
+
+/**
+ * Computes the stored value of a FieldValue sentinel
+ *
+ * @param sentinel - Contents of the sentinel
+ * @param current - The field's current value
+ * @returns The new value of the field
+ */
+export function applySentinel(sentinel: FieldValueSpec, current: unknown): unknown {
+  const { method, operand, elements } = sentinel;
+
+  switch (method) {
+    case 'serverTimestamp':
+      return Timestamp.now();
+    case 'increment':
+      return (typeof current === 'number' ? current : 0) + (operand ?? 0);
+    case 'arrayUnion': {
+      const result = Array.isArray(current) ? [...current] : [];
+      (elements ?? []).forEach(element => {
+        if (!result.some(existing => valuesEqual(existing, element))) {
+          result.push(toStoredValue(element, ''));
+        }
+      });
+      return result;
+    }
+    case 'arrayRemove':
+      return Array.isArray(current)
+        ? current.filter(existing => !(elements ?? []).some(e => valuesEqual(existing, e)))
+        : [];
+    default:
+      throw backendError('invalid-argument', `Unsupported FieldValue: ${method}()`);
+  }
+}
+
+/**
+ * Copies a value for storage the way Firestore stores it
+ *
+ * Dates become Timestamps, maps and arrays are copied, and undefined values
+ * are rejected as the Firebase SDK does.
+ *
+ * @param value - The value being written
+ * @param fieldPath - Dot-separated path of the value, used in error messages
+ * @returns The value to store
+ * @throws BackendError if the value contains undefined
+ */
+export function toStoredValue(value: unknown, fieldPath: string): unknown {
+  if (value === undefined) {
+    throw backendError(
+      'invalid-argument',
+      `Unsupported field value: undefined (found in field ${fieldPath})`,
+    );
+  }
+  if (value instanceof Date) {
+    return Timestamp.fromDate(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => toStoredValue(item, `${fieldPath}.${index}`));
+  }
+  if (isMap(value)) {
+    const copy: DocumentData = {};
+    Object.entries(value).forEach(([key, item]) => {
+      copy[key] = toStoredValue(item, fieldPath ? `${fieldPath}.${key}` : key);
+    });
+    return copy;
+  }
+  return value;
+}
+
+/**
+ * Deep-copies stored data so callers can't modify the store through it
+ *
+ * @param value - Stored value
+ * @returns An independent copy
+ */
+export function cloneValue<V>(value: V): V {
+  if (Array.isArray(value)) {
+    return value.map(cloneValue) as unknown as V;
+  }
+  if (isMap(value)) {
+    const copy: DocumentData = {};
+    Object.entries(value).forEach(([key, item]) => {
+      copy[key] = cloneValue(item);
+    });
+    return copy as V;
+  }
+  return value;
+}
+
+/**
+ * Checks whether a value is a plain map (not an array, class instance or sentinel)
+ *
+ * @param value - The value to check
+ * @returns Whether the value is a map
+ */
+export function isMap(value: unknown): value is DocumentData {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Ranks value types in Firestore's cross-type sort order
+ *
+ * @param value - The value
+ * @returns The type's rank
+ */
+function typeRank(value: unknown): number {
+  const checks: Array<(v: unknown) => boolean> = [
+    v => v === null,
+    v => typeof v === 'boolean',
+    v => typeof v === 'number',
+    v => v instanceof Timestamp,
+    v => typeof v === 'string',
+    v => v instanceof Bytes,
+    v => v instanceof DocumentReference,
+    v => v instanceof GeoPoint,
+    Array.isArray,
+  ];
+  const rank = checks.findIndex(check => check(value));
+  return rank === -1 ? checks.length : rank;
+}
+
+/**
+ * Compares two values in Firestore's sort order
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns A negative number, zero or a positive number
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const rankDifference = typeRank(a) - typeRank(b);
+  if (rankDifference !== 0) {
+    return rankDifference;
+  }
+
+  if (typeof a === 'boolean' || typeof a === 'number') {
+    return Number(a) - Number(b);
+  }
+  if (typeof a === 'string') {
+    return a < (b as string) ? -1 : a > (b as string) ? 1 : 0;
+  }
+  if (a instanceof Timestamp) {
+    return (
+      a.toMillis() - (b as Timestamp).toMillis() || a.nanoseconds - (b as Timestamp).nanoseconds
+    );
+  }
+  if (a instanceof Bytes) {
+    return compareValues(a.toBase64(), (b as Bytes).toBase64());
+  }
+  if (a instanceof DocumentReference) {
+    return compareValues(a.path, (b as DocumentReference).path);
+  }
+  if (a instanceof GeoPoint) {
+    const other = b as GeoPoint;
+    return a.latitude - other.latitude || a.longitude - other.longitude;
+  }
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    for (let i = 0; i < Math.min(a.length, other.length); i++) {
+      const difference = compareValues(a[i], other[i]);
+      if (difference !== 0) {
+        return difference;
+      }
+    }
+    return a.length - other.length;
+  }
+  if (isMap(a) && isMap(b)) {
+    const aKeys = Object.keys(a).sort();
+    const bKeys = Object.keys(b).sort();
+    for (let i = 0; i < Math.min(aKeys.length, bKeys.length); i++) {
+      const difference =
+        compareValues(aKeys[i], bKeys[i]) || compareValues(a[aKeys[i]], b[bKeys[i]]);
+      if (difference !== 0) {
+        return difference;
+      }
+    }
+    return aKeys.length - bKeys.length;
+  }
+  return 0;
+}
+
+/**
+ * Checks whether two values are equal in Firestore's terms
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns Whether the values are equal
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  return typeRank(a) === typeRank(b) && compareValues(a, b) === 0;
+}
+
+/**
+ * Checks whether two values can be compared with range operators
+ *
+ * Firestore only matches range filters against values of the same type.
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns Whether the values have the same type
+ */
+export function sameType(a: unknown, b: unknown): boolean {
+  return typeRank(a) === typeRank(b);
+}
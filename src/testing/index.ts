@@ -0,0 +1,5 @@
+// Test utilities, published as the 'testing' entry point so production bundles don't include them
+export { InMemoryFirestore } from './in-memory-firestore';
+
+// Types and interfaces from testing/in-memory-values
+export { BackendError } from './in-memory-values';
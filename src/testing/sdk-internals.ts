@@ -0,0 +1,166 @@
+import { SDK_VERSION } from 'firebase/app';
+import { FieldPath } from 'firebase/firestore';
+import { backendError } from './in-memory-values';
+
+/**
+ * Major version of the Firebase JS SDK whose internals this module reads
+ *
+ * Query constraints, aggregate fields, FieldPaths and FieldValue sentinels
+ * don't expose their contents through the public API, so the in-memory store
+ * reads the SDK's private fields to evaluate them. Every such read lives in
+ * this module, and the store refuses to run against another major version.
+ */
+export const SUPPORTED_SDK_MAJOR = 10;
+
+/**
+ * A where() filter, or an and()/or() of filters
+ */
+export type FilterSpec =
+  | { type: 'where'; field: string[]; op: string; value: unknown }
+  | { type: 'and' | 'or'; filters: FilterSpec[] };
+
+/**
+ * Contents of a query constraint
+ */
+export type ConstraintSpec =
+  | FilterSpec
+  | { type: 'orderBy'; field: string[]; descending: boolean }
+  | { type: 'startAt' | 'startAfter' | 'endAt' | 'endBefore'; values: unknown[] }
+  | { type: 'limit' | 'limitToLast'; count: number };
+
+/**
+ * Contents of an aggregate field from count(), sum() or average()
+ */
+export interface AggregateSpec {
+  type: 'count' | 'sum' | 'avg';
+  /** Field being aggregated; empty for count() */
+  field: string[];
+}
+
+/**
+ * Contents of a FieldValue sentinel such as serverTimestamp() or increment()
+ */
+export interface FieldValueSpec {
+  /** Name of the function that created the sentinel (e.g., 'increment') */
+  method: string;
+  /** Amount of an increment() */
+  operand?: number;
+  /** Elements of an arrayUnion() or arrayRemove() */
+  elements?: unknown[];
+}
+
+/**
+ * Checks that the installed SDK is the major version this module supports
+ *
+ * @param version - Installed SDK version (defaults to the firebase package's)
+ * @throws Error if the SDK has a different major version
+ */
+export function assertSupportedSdk(version: string = SDK_VERSION): void {
+  const major = Number(version.split('.')[0]);
+  if (major !== SUPPORTED_SDK_MAJOR) {
+    throw new Error(
+      `InMemoryFirestore supports firebase ${SUPPORTED_SDK_MAJOR}.x, but ${version} is installed`,
+    );
+  }
+}
+
+/**
+ * Gets the segments of a field path given as a string, a FieldPath, or the
+ * SDK's internal path object found inside query constraints
+ *
+ * @param field - The field path
+ * @returns The path segments
+ */
+export function fieldSegments(field: unknown): string[] {
+  if (typeof field === 'string') {
+    return field.split('.');
+  }
+  if (field instanceof FieldPath) {
+    return fieldSegments((field as unknown as { _internalPath: unknown })._internalPath);
+  }
+  const internal = field as { segments?: string[]; offset: number; len: number } | undefined;
+  if (!Array.isArray(internal?.segments)) {
+    throw backendError('invalid-argument', `Unsupported field path: ${String(field)}`);
+  }
+  return internal.segments.slice(internal.offset, internal.offset + internal.len);
+}
+
+/**
+ * Reads the contents of a query constraint
+ *
+ * @param constraint - A constraint from where(), and(), or(), orderBy(), limit() or a cursor function
+ * @returns The constraint's contents
+ * @throws BackendError if the constraint type isn't supported
+ */
+export function readConstraint(constraint: unknown): ConstraintSpec {
+  const internal = constraint as {
+    type: string;
+    _field?: unknown;
+    _op?: string;
+    _value?: unknown;
+    _queryConstraints?: unknown[];
+    _direction?: string;
+    _docOrFields?: unknown[];
+    _limit?: number;
+  };
+
+  switch (internal.type) {
+    case 'where':
+      return {
+        type: 'where',
+        field: fieldSegments(internal._field),
+        op: String(internal._op),
+        value: internal._value,
+      };
+    case 'and':
+    case 'or':
+      return {
+        type: internal.type,
+        filters: (internal._queryConstraints ?? []).map(c => readConstraint(c) as FilterSpec),
+      };
+    case 'orderBy':
+      return {
+        type: 'orderBy',
+        field: fieldSegments(internal._field),
+        descending: internal._direction === 'desc',
+      };
+    case 'startAt':
+    case 'startAfter':
+    case 'endAt':
+    case 'endBefore':
+      return { type: internal.type, values: internal._docOrFields ?? [] };
+    case 'limit':
+    case 'limitToLast':
+      return { type: internal.type, count: Number(internal._limit) };
+    default:
+      throw backendError('invalid-argument', `Unsupported query constraint: ${internal.type}`);
+  }
+}
+
+/**
+ * Reads the contents of an aggregate field
+ *
+ * @param field - An AggregateField from count(), sum() or average()
+ * @returns The aggregation type and field
+ */
+export function readAggregateField(field: unknown): AggregateSpec {
+  const internal = field as { aggregateType: AggregateSpec['type']; _internalFieldPath?: unknown };
+  return {
+    type: internal.aggregateType,
+    field: internal.aggregateType === 'count' ? [] : fieldSegments(internal._internalFieldPath),
+  };
+}
+
+/**
+ * Reads the contents of a FieldValue sentinel
+ *
+ * @param value - Any written value
+ * @returns The sentinel's contents, or undefined for ordinary values
+ */
+export function readFieldValue(value: unknown): FieldValueSpec | undefined {
+  const internal = value as { _methodName?: unknown; _operand?: number; _elements?: unknown[] };
+  if (typeof internal?._methodName !== 'string') {
+    return undefined;
+  }
+  return { method: internal._methodName, operand: internal._operand, elements: internal._elements };
+}